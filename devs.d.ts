@@ -1 +1,30 @@
-declare module "troika-three-text";
+declare module "troika-three-text" {
+  import { Mesh } from "three";
+
+  // only the members which are used by dfx_to_three.ts
+  export class Text extends Mesh {
+    text: string;
+    font: string | null;
+    fontSize: number;
+    anchorX: number | string;
+    anchorY: number | string;
+    lineHeight: number | string;
+    letterSpacing: number;
+    maxWidth: number;
+    textIndent: number;
+    textAlign: string;
+    colorRanges: Record<number, number> | null;
+    // available after synchronizing
+    textRenderInfo: {
+      blockBounds: [number, number, number, number];
+      caretPositions: Float32Array | undefined;
+      caretHeight: number;
+      fontSize: number;
+      ascender: number;
+      descender: number;
+      capHeight: number;
+      lineHeight: number;
+    };
+    sync(callback?: () => void): void;
+  }
+}
@@ -0,0 +1,38 @@
+// Node test of the conversion of curves
+//   npx esbuild dfx_to_three.test.ts --bundle --platform=node --outfile=build/dfx_to_three.test.js
+//   node --test build/dfx_to_three.test.js
+import DxfParser from "dxf-parser";
+import * as assert from "node:assert";
+import { test } from "node:test";
+import * as THREE from "three";
+
+import { convertDxfToThree, retessellateCurves } from "./dfx_to_three";
+
+// quarter arc with radius 10 around the origin
+const ARC_DXF = [
+  ...["0", "SECTION", "2", "ENTITIES"],
+  ...["0", "ARC", "5", "A1", "8", "0", "10", "0.0", "20", "0.0", "30", "0.0", "40", "10.0", "50", "0.0", "51", "90.0"],
+  ...["0", "ENDSEC", "0", "EOF"],
+].join("\n");
+
+const getPoints = (line: THREE.Line): THREE.Vector3[] => {
+  const position = line.geometry.getAttribute("position");
+  return Array.from({ length: position.count }, (_, i) => new THREE.Vector3().fromBufferAttribute(position, i));
+};
+
+test("curves are retessellated with a smaller chordal tolerance", () => {
+  const dxf = new DxfParser().parseSync(ARC_DXF)!;
+  const { object3Ds } = convertDxfToThree(dxf, { chordalTolerance: 0.1 });
+  const arc = object3Ds[0] as THREE.Line;
+  const points = getPoints(arc);
+
+  retessellateCurves(object3Ds, 0.001);
+  const retessellatedPoints = getPoints(arc);
+  assert.ok(retessellatedPoints.length > points.length);
+  assert.ok(retessellatedPoints[0].distanceTo(points[0]) < 1e-9);
+  assert.ok(retessellatedPoints[retessellatedPoints.length - 1].distanceTo(points[points.length - 1]) < 1e-9);
+  assert.ok(points[0].distanceTo(new THREE.Vector3(10.0, 0.0, 0.0)) < 1e-9);
+  assert.ok(points[points.length - 1].distanceTo(new THREE.Vector3(0.0, 10.0, 0.0)) < 1e-9);
+  // the points stay on the arc
+  retessellatedPoints.forEach((point) => assert.ok(Math.abs(point.length() - 10.0) < 1e-6));
+});
@@ -1,11 +1,9 @@
 // This is based on the three-dxf library's (https://github.com/gdsestimating/three-dxf) file
 // https://github.com/gdsestimating/three-dxf/blob/master/src/index.js
 // Copyright (c) 2015 GDS Storefront Estimating
-import { DxfMTextContentElement, parseDxfMTextContent } from "@dxfom/mtext";
 import {
   IArcEntity,
   ICircleEntity,
-  IDimensionEntity,
   IDxf,
   IEllipseEntity,
   IEntity,
@@ -18,37 +16,120 @@ import {
   IPointEntity,
   IPolylineEntity,
   ISolidEntity,
-  ISplineEntity,
   ITextEntity,
 } from "dxf-parser";
 import * as THREE from "three";
 import { TextGeometry } from "three/examples/jsm/geometries/TextGeometry.js";
+import { Line2 } from "three/examples/jsm/lines/Line2.js";
+import { LineGeometry } from "three/examples/jsm/lines/LineGeometry.js";
+import { LineMaterial } from "three/examples/jsm/lines/LineMaterial.js";
+import { LineSegments2 } from "three/examples/jsm/lines/LineSegments2.js";
+import { LineSegmentsGeometry } from "three/examples/jsm/lines/LineSegmentsGeometry.js";
 import { Font, FontLoader } from "three/examples/jsm/loaders/FontLoader.js";
 import { Text } from "troika-three-text";
 
-import bSpline from "./bspline";
+import { AcisPlanarFace, parseAcisSat } from "./dxf_acis";
+import { batchObject3Ds } from "./dxf_batching";
+import {
+  COLOR_INDEX_BYBLOCK,
+  COLOR_INDEX_BYLAYER,
+  COLOR_INDEX_FOREGROUND,
+  getAciColor,
+  getForegroundColor,
+  getLayerColor,
+  isForegroundColor,
+  isForegroundLayerColor,
+  resolveEntityColor,
+} from "./dxf_colors";
+import {
+  getMTextPlainText,
+  MTextParagraph,
+  MTextStackRun,
+  MTextStyle,
+  MTextTabRun,
+  MTextTextRun,
+  parseMText,
+} from "./dxf_mtext";
+import {
+  I3DFaceEntity,
+  IAttribEntity,
+  IExtendedDimensionEntity,
+  IExtendedEllipseEntity,
+  IExtendedInsertEntity,
+  IExtendedMtextEntity,
+  IExtendedPolylineEntity,
+  IExtendedSplineEntity,
+  IExtendedTextEntity,
+  IHatchEdge,
+  IHatchEntity,
+  IHatchPatternLine,
+  ILeaderEntity,
+  IMeshEntity,
+  IModelerGeometryEntity,
+  IMultiLeaderEntity,
+  ITrueColorEntity,
+} from "./dxf_parser_entities";
+import { IDimStyle, IExtendedLayer, IExtendedTables, ITextStyle } from "./dxf_parser_tables";
+import { getShxTextStrokes, ShxFont } from "./dxf_shx_font";
+import { createNurbsCurve, getNurbsSize, getSplineDefinition, NurbsDefinition, tessellateNurbs } from "./dxf_spline";
+import { decodeText, DecodedText, getCodePageEncoding, setUnsupportedEncodingListener } from "./dxf_text_codes";
+import { PREDEFINED_HATCH_PATTERNS } from "./hatch_patterns";
 import roboto from "./roboto_font/roboto_regular.typeface.json";
 
 // constants
 // -----------------------
 const POINT_SIZE = 1;
 const LINE_WIDTH = 1;
-const DASHED_LINE_GAP_SIZE = 4;
-const DASHED_LINE_DASH_SIZE = 4;
+const MAX_LINE_TYPE_DASHES = 8;
+const LINE_TYPE_DOT_PIXELS = 2.0; // length of dots on the screen, independent of the line type pattern
 const DEFAULT_SCALE_FACTOR = 1.0;
 const DEFAULT_REUSE_MATERIALS = true;
 const DEFAULT_SET_ALL_ZS_TO_ZERO = true;
+const DEFAULT_EXTRUDE_THICKNESS = false;
 const DEFAULT_MAX_LENGTH_OF_ARC_LINE_SEGMENT = 100;
 const DEFAULT_MAX_ANGLE_PER_ARC_LINE_SEGMENT = (15 * Math.PI) / 180.0;
 const DEFAULT_INTERPOLATIONS_PER_SPLINE_SEGMENT = 100;
+const DEFAULT_RELATIVE_CHORDAL_TOLERANCE = 0.001;
+const MIN_CHORDAL_SEGMENT_ANGLE = (0.5 * Math.PI) / 180.0; // at most 720 segments per circle
+const MAX_CHORDAL_SEGMENT_ANGLE = Math.PI / 4.0; // at least 8 segments per circle
+const MAX_HATCH_PATTERN_LINES = 10000;
+const DEFAULT_USE_FAT_LINES = false;
+const DEFAULT_LINEWEIGHTS_IN_WORLD_UNITS = false;
+const DEFAULT_LINEWEIGHT = 25; // 1/100 mm, used if the header does not contain $LWDEFAULT
+const DEFAULT_SCREEN_LINEWEIGHT_SCALE = 96 / 25.4; // pixels per mm at 96 dpi
+const DEFAULT_WORLD_LINEWEIGHT_SCALE = 1.0; // drawing units per mm
+const DEFAULT_BACKGROUND_COLOR = 0xffffff;
+const DEFAULT_ADAPT_COLORS_TO_BACKGROUND = true;
+const DEFAULT_INCLUDE_HIDDEN_LAYERS = false;
+const DEFAULT_GROUP_BY_LAYER = false;
+const DEFAULT_BATCH_OBJECTS = false;
+const DEFAULT_CHUNK_SIZE = 500;
+const DEFAULT_USE_TROIKA_FOR_TEXT = false;
+const DEFAULT_DIAGNOSTICS_MODE: DxfDiagnosticsMode = "log";
 
 // settings interface
 // ------------------------
+// THREE.Font (rendered with THREE.TextGeometry), SHX font (rendered as lines, see parseShxFont) or
+// font-url (rendered with troika-three-text)
+export type DxfFont = Font | ShxFont | string;
+
+// problems of the conversion are logged to the console, only collected in the report or thrown as error
+export type DxfDiagnosticsMode = "log" | "collect" | "throw";
+
 export interface DxfToThreeSettings {
   // font to used for THREE.TextGeometry (default is Google Roboto)
   threeFont: undefined | Font;
   // font-url to use for troika-three-text (default is Google Roboto)
   troikaFontUrl: undefined | string;
+  // fonts per text style name, font family or font file (e.g. "romans.shx", "Arial" or "GDT"), including the
+  // font families of MTEXT formatting, e.g. { "romans.shx": shxFont, "Arial": url, "Arial Bold": url }
+  // (THREE.Fonts are only used for TEXT, MTEXT is rendered with troika-three-text or SHX fonts)
+  fonts: undefined | Record<string, DxfFont>;
+  // names of fonts which are tried in this order if none is configured for a text, e.g. ["txt.shx", "Arial"]
+  // (texts without any font use threeFont or troikaFontUrl)
+  fontFallbacks: undefined | string[];
+  // render TEXT entities with troika-three-text instead of THREE.TextGeometry (default is false)
+  useTroikaForText: undefined | boolean;
 
   // scale factor used to scale all elements (default is 1.0)
   scaleFactor: undefined | number;
@@ -58,23 +139,184 @@ export interface DxfToThreeSettings {
   //            are affected as well
   reuseMaterials: undefined | boolean;
   // make sure that all z-values of generated Object3Ds are zero (default is true)
+  // => entities in other planes (extrusion direction) are projected onto the xy plane
   setAllZsToZero: undefined | boolean;
+  // extrude lines, arcs, circles and 2D polylines with a thickness into walls (default is false,
+  // ignored if setAllZsToZero is set)
+  extrudeThickness: undefined | boolean;
 
   // give all Object3Ds the same color (if not set use color of *.dxf)
   defaultColor: undefined | number;
+  // background color the Object3Ds are shown on (default is white)
+  backgroundColor: undefined | number;
+  // draw the foreground color (ACI 7) black on light and white on dark background colors, true colors are never
+  // adapted (default is true)
+  adaptColorsToBackground: undefined | boolean;
   // certain material to use for points; texture (if not set use default THREE.PointsMaterial)
   defaultPointMaterial: undefined | THREE.PointsMaterial;
   // put all objects into the same layer (if undefined THREE-default is used)
   defaultLayer: undefined | number;
+  // put the objects of certain DXF layers into certain THREE layers (other DXF layers use defaultLayer)
+  layerMapping: undefined | Record<string, number>;
+  // also convert entities on layers which are switched off or frozen; they are invisible (default is false)
+  includeHiddenLayers: undefined | boolean;
+  // return one THREE.Group per DXF layer; its userData contains the properties of the layer (default is false)
+  // => layers can be shown/hidden by setting the visibility of their group
+  groupByLayer: undefined | boolean;
+  // merge the lines and meshes of all entities with the same material into a few Object3Ds (default is false)
+  // => less draw calls for large drawings, entities are picked via their "entityId" (see dxf_batching.ts)
+  batchObjects: undefined | boolean;
+  // problems of the conversion (e.g. unsupported entities) are always collected in the report of convertDxfToThree
+  // "log": they are logged as well, "throw": the first error (entity not rendered) is thrown (default is "log")
+  diagnostics: undefined | DxfDiagnosticsMode;
 
   // arc approximation: max length per arc segment (default is 100)
   maxLengthOfArcLineSegment: undefined | number;
   // arc approximation: max angle per arc segment (default is 15°)
   maxAnglePerArcLineSegment: undefined | number;
-  // interpolations per spline segment (default is 100)
+  // max interpolations per spline segment (knot span, default is 100)
   interpolationsPerSplineSegment: undefined | number;
+  // max distance between curves (arcs, circles, bulges, ellipses and splines) and their line segments in scaled
+  // units, replaces maxLengthOfArcLineSegment and maxAnglePerArcLineSegment (default is undefined: arcs use them,
+  // splines 0.1% of their size), see retessellateCurves for changing it after the conversion
+  chordalTolerance: undefined | number;
+
+  // render lines as fat lines (Line2/LineMaterial) to show lineweights and polyline widths (default is false)
+  // => the resolution of the fat line materials has to be kept up to date (see updateFatLineResolution)
+  useFatLines: undefined | boolean;
+  // fat lines: lineweights are given in world units instead of pixels (default is false)
+  lineweightsInWorldUnits: undefined | boolean;
+  // fat lines: width per mm of lineweight in pixels or world units (default is 96 dpi or 1.0 drawing unit)
+  lineweightScale: undefined | number;
+}
+
+// settings with their defaults (see resolveSettings), the conversion works on a copy of the given settings
+interface ResolvedDxfToThreeSettings extends DxfToThreeSettings {
+  threeFont: Font;
+  useTroikaForText: boolean;
+  scaleFactor: number;
+  reuseMaterials: boolean;
+  setAllZsToZero: boolean;
+  extrudeThickness: boolean;
+  backgroundColor: number;
+  adaptColorsToBackground: boolean;
+  includeHiddenLayers: boolean;
+  groupByLayer: boolean;
+  batchObjects: boolean;
+  diagnostics: DxfDiagnosticsMode;
+  maxLengthOfArcLineSegment: number;
+  maxAnglePerArcLineSegment: number;
+  interpolationsPerSplineSegment: number;
+  useFatLines: boolean;
+  lineweightsInWorldUnits: boolean;
+}
+
+// user data of generated Object3Ds
+// ------------------------
+// every Object3D created for an entity (including the parts of blocks and dimensions) carries
+// the properties of the entity it was created from
+export interface DxfEntityUserData {
+  handle: string | undefined;
+  entityType: string;
+  // effective layer (children of blocks on layer "0" are on the layer of the insert)
+  layer: string;
+  ownerHandle: string | undefined;
+  // name of the block definition the entity is part of (undefined for entities of the model space)
+  blockName: string | undefined;
+}
+
+// diagnostics of the conversion
+// ------------------------
+// "warning": the entity is rendered incompletely, "error": the entity is not rendered at all
+export type DxfDiagnosticSeverity = "warning" | "error";
+
+export interface DxfDiagnostic {
+  severity: DxfDiagnosticSeverity;
+  message: string;
+  // entity which was converted when the problem occurred (for parts of blocks the entity of the block)
+  handle: string | undefined;
+  entityType: string | undefined;
+  layer: string | undefined;
+}
+
+export interface DxfEntityCounts {
+  // entities with an Object3D
+  converted: number;
+  // entities without an Object3D (problems, see the diagnostics, but also e.g. invisible attributes)
+  skipped: number;
+  // entities on layers which are switched off or frozen (see includeHiddenLayers)
+  hidden: number;
+}
+
+export interface DxfConversionReport {
+  // per entity type; the entities of a block are converted once per block content (inserts with the same inherited
+  // properties and scale share it) and only counted then, except for the ones which are converted again for every
+  // insert (nested inserts, troika texts and other entities which are converted to groups)
+  entityCounts: Record<string, DxfEntityCounts>;
+  diagnostics: DxfDiagnostic[];
+}
+
+interface DiagnosticsContext {
+  report: DxfConversionReport;
+  mode: DxfDiagnosticsMode;
+  // entities which are being converted (inserts and the entities of their blocks)
+  entities: IEntity[];
 }
 
+const createDiagnosticsContext = (mode: DxfDiagnosticsMode): DiagnosticsContext => {
+  return { report: { entityCounts: {}, diagnostics: [] }, mode: mode, entities: [] };
+};
+
+let DIAGNOSTICS_CONTEXT = createDiagnosticsContext(DEFAULT_DIAGNOSTICS_MODE);
+
+const formatDiagnostic = (diagnostic: DxfDiagnostic): string => {
+  if (diagnostic.entityType === undefined) {
+    return diagnostic.message;
+  }
+  const handle = diagnostic.handle !== undefined ? " " + diagnostic.handle : "";
+  return diagnostic.message + " (" + diagnostic.entityType + handle + " on layer " + diagnostic.layer + ")";
+};
+
+const reportDiagnostic = (severity: DxfDiagnosticSeverity, message: string): void => {
+  const entities = DIAGNOSTICS_CONTEXT.entities;
+  const entity = entities.length > 0 ? entities[entities.length - 1] : undefined;
+  const diagnostic: DxfDiagnostic = {
+    severity: severity,
+    message: message,
+    handle: entity && entity.handle !== undefined ? String(entity.handle) : undefined,
+    entityType: entity && entity.type,
+    layer: entity && entity.layer,
+  };
+  DIAGNOSTICS_CONTEXT.report.diagnostics.push(diagnostic);
+  if (DIAGNOSTICS_CONTEXT.mode === "throw" && severity === "error") {
+    throw new Error(formatDiagnostic(diagnostic));
+  } else if (DIAGNOSTICS_CONTEXT.mode === "log") {
+    console.log(formatDiagnostic(diagnostic));
+  }
+};
+
+// unsupported encodings of text codes (see dxf_text_codes.ts) are reported once per entity, not once per character
+const reportUnsupportedEncoding = (encoding: string): void => {
+  const message = "unsupported encoding " + encoding + " => its characters are not decoded";
+  const diagnostics = DIAGNOSTICS_CONTEXT.report.diagnostics;
+  const entities = DIAGNOSTICS_CONTEXT.entities;
+  const entity = entities.length > 0 ? entities[entities.length - 1] : undefined;
+  const handle = entity && entity.handle !== undefined ? String(entity.handle) : undefined;
+  const last = diagnostics.length > 0 ? diagnostics[diagnostics.length - 1] : undefined;
+  if (!last || last.message !== message || last.handle !== handle) {
+    reportDiagnostic("warning", message);
+  }
+};
+setUnsupportedEncodingListener(reportUnsupportedEncoding);
+
+const countEntity = (entityType: string, count: keyof DxfEntityCounts): void => {
+  const entityCounts = DIAGNOSTICS_CONTEXT.report.entityCounts;
+  if (entityCounts[entityType] === undefined) {
+    entityCounts[entityType] = { converted: 0, skipped: 0, hidden: 0 };
+  }
+  entityCounts[entityType][count]++;
+};
+
 // basic helper functions
 // ------------------------
 
@@ -92,26 +334,26 @@ const polar2d = (point: IPoint | THREE.Vector2, distance: number, angle: number)
 const getBulgeCurvePoints2d = (
   startPoint: IPoint,
   endPoint: IPoint,
-  scaleFactor: number = 1.0,
-  bulge?: number,
-  segmentsCount?: number
+  bulge: number,
+  settings: ResolvedDxfToThreeSettings
 ): THREE.Vector3[] => {
+  const scaleFactor = settings.scaleFactor;
   const p0 = startPoint
     ? new THREE.Vector2(startPoint.x * scaleFactor, startPoint.y * scaleFactor)
     : new THREE.Vector2(0.0, 0.0);
   const p1 = endPoint
     ? new THREE.Vector2(endPoint.x * scaleFactor, endPoint.y * scaleFactor)
     : new THREE.Vector2(1.0, 0.0);
-  if (bulge === undefined) bulge = 1.0;
 
   const angle = 4 * Math.atan(bulge);
   const radius = p0.distanceTo(p1) / 2 / Math.sin(angle / 2);
   const center = polar2d(p0, radius, atan2d(p0, p1) + (Math.PI / 2 - angle / 2));
 
-  if (segmentsCount === undefined) {
-    // By default want a segment roughly every 10 degrees
-    segmentsCount = Math.max(Math.abs(Math.ceil(angle / (Math.PI / 18))), 6);
-  }
+  // without chordal tolerance a segment roughly every 10 degrees (at least 6)
+  const segmentsCount =
+    settings.chordalTolerance !== undefined
+      ? getChordalNumberOfSegments(Math.abs(radius), Math.abs(angle), settings)
+      : Math.max(Math.abs(Math.ceil(angle / (Math.PI / 18))), 6);
   const startAngle = atan2d(center, p0);
   const thetaAngle = angle / segmentsCount;
 
@@ -125,25 +367,189 @@ const getBulgeCurvePoints2d = (
   return vertices;
 };
 
+// arbitrary axis algorithm: object coordinate system (OCS) => world coordinate system (WCS)
+const getOcsToWcsMatrix = (extrusionDirection: IPoint | undefined): THREE.Matrix4 => {
+  const matrix = new THREE.Matrix4();
+  if (!extrusionDirection) {
+    return matrix;
+  }
+  const normal = new THREE.Vector3(extrusionDirection.x, extrusionDirection.y, extrusionDirection.z || 0.0);
+  if (normal.lengthSq() === 0.0) {
+    return matrix;
+  }
+  normal.normalize();
+  const axisX =
+    Math.abs(normal.x) < 1 / 64 && Math.abs(normal.y) < 1 / 64
+      ? new THREE.Vector3(0.0, 1.0, 0.0).cross(normal)
+      : new THREE.Vector3(0.0, 0.0, 1.0).cross(normal);
+  axisX.normalize();
+  const axisY = normal.clone().cross(axisX).normalize();
+  return matrix.makeBasis(axisX, axisY, normal);
+};
+
+// dxf-parser stores the extrusion direction of some entities (e.g. LWPOLYLINE) as separate coordinates
+const getExtrusionDirection = (entity: IEntity): IPoint | undefined => {
+  const extruded = entity as IEntity & {
+    extrusionDirection?: IPoint;
+    extrusionDirectionX?: number;
+    extrusionDirectionY?: number;
+    extrusionDirectionZ?: number;
+  };
+  if (extruded.extrusionDirection) {
+    return extruded.extrusionDirection;
+  }
+  if (
+    extruded.extrusionDirectionX === undefined &&
+    extruded.extrusionDirectionY === undefined &&
+    extruded.extrusionDirectionZ === undefined
+  ) {
+    return undefined;
+  }
+  return {
+    x: extruded.extrusionDirectionX || 0.0,
+    y: extruded.extrusionDirectionY || 0.0,
+    z: extruded.extrusionDirectionZ || 0.0,
+  };
+};
+
+// OCS of an entity => WCS, flat output (setAllZsToZero) is projected onto the xy plane
+export const getEntityOcsToWcsMatrix = (entity: IEntity, setAllZsToZero: boolean): THREE.Matrix4 => {
+  const matrix = getOcsToWcsMatrix(getExtrusionDirection(entity));
+  return setAllZsToZero ? matrix.premultiply(new THREE.Matrix4().makeScale(1.0, 1.0, 0.0)) : matrix;
+};
+
+// flat output (setAllZsToZero) of an entity whose OCS isn't parallel to the xy plane is projected onto it, which
+// can't be described by position, rotation and scale
+const isProjectedOcs = (entity: IEntity, settings: ResolvedDxfToThreeSettings): boolean =>
+  settings.setAllZsToZero && Math.abs(getOcsToWcsMatrix(getExtrusionDirection(entity)).elements[10]) < 1.0;
+
+// Object3D positioned, rotated and scaled in the OCS of its entity => WCS
+const transformOcsObject3D = (
+  object3D: THREE.Object3D,
+  entity: IEntity,
+  settings: ResolvedDxfToThreeSettings
+): void => {
+  if (isProjectedOcs(entity, settings)) {
+    object3D.updateMatrix();
+    object3D.matrix.premultiply(getEntityOcsToWcsMatrix(entity, true));
+    object3D.matrixAutoUpdate = false;
+    return;
+  }
+  const ocsToWcs = getOcsToWcsMatrix(getExtrusionDirection(entity));
+  object3D.quaternion.premultiply(new THREE.Quaternion().setFromRotationMatrix(ocsToWcs));
+  object3D.position.applyMatrix4(ocsToWcs);
+  if (settings.setAllZsToZero) {
+    object3D.position.z = 0.0;
+  }
+};
+
+// mesh in the OCS of its entity => WCS; triangles which faced the +z direction of the OCS still face +z
+// if the OCS is upside down (e.g. mirrored entities)
+const transformOcsMesh = (
+  geometry: THREE.BufferGeometry,
+  entity: IEntity,
+  settings: ResolvedDxfToThreeSettings
+): void => {
+  geometry.applyMatrix4(getEntityOcsToWcsMatrix(entity, settings.setAllZsToZero));
+  if (getOcsToWcsMatrix(getExtrusionDirection(entity)).elements[10] >= 0.0) {
+    return;
+  }
+  const index = geometry.getIndex();
+  if (index) {
+    const indices = Array.from(index.array);
+    for (let i = 0; i + 2 < indices.length; i += 3) {
+      [indices[i + 1], indices[i + 2]] = [indices[i + 2], indices[i + 1]];
+    }
+    geometry.setIndex(indices);
+    return;
+  }
+  const position = geometry.getAttribute("position");
+  const second = new THREE.Vector3();
+  const third = new THREE.Vector3();
+  for (let i = 0; i + 2 < position.count; i += 3) {
+    second.fromBufferAttribute(position, i + 1);
+    third.fromBufferAttribute(position, i + 2);
+    position.setXYZ(i + 1, third.x, third.y, third.z);
+    position.setXYZ(i + 2, second.x, second.y, second.z);
+  }
+};
+
+// LWPOLYLINE calls the thickness depth
+const getThickness = (entity: IEntity): number => {
+  const extruded = entity as IEntity & { thickness?: number; depth?: number };
+  return (entity.type === "LWPOLYLINE" ? extruded.depth : extruded.thickness) || 0.0;
+};
+
+// walls of a curve (WCS) with a thickness along the extrusion direction, double-sided because the materials
+// are shared with other meshes
+const getThicknessWalls = (
+  geometry: THREE.BufferGeometry,
+  entity: IEntity,
+  data: IDxf,
+  settings: ResolvedDxfToThreeSettings
+): THREE.Mesh | null => {
+  const thickness = getThickness(entity);
+  if (!settings.extrudeThickness || settings.setAllZsToZero || thickness === 0.0) {
+    return null;
+  }
+  const offset = new THREE.Vector3(0.0, 0.0, thickness * settings.scaleFactor);
+  offset.applyMatrix4(getOcsToWcsMatrix(getExtrusionDirection(entity)));
+  const position = geometry.getAttribute("position");
+  const bottom: THREE.Vector3[] = [];
+  for (let i = 0; i < position.count; i++) {
+    bottom.push(new THREE.Vector3().fromBufferAttribute(position, i));
+  }
+  const top = bottom.map((point) => point.clone().add(offset));
+  const triangles: THREE.Vector3[] = [];
+  for (let i = 0; i + 1 < bottom.length; i++) {
+    triangles.push(bottom[i], bottom[i + 1], top[i + 1], bottom[i], top[i + 1], top[i]);
+    triangles.push(bottom[i], top[i + 1], bottom[i + 1], bottom[i], top[i], top[i + 1]);
+  }
+  const wallGeometry = new THREE.BufferGeometry().setFromPoints(triangles);
+  wallGeometry.computeVertexNormals();
+  const walls = new THREE.Mesh(wallGeometry, getMeshMaterial(entity, data, settings));
+  // the curve on top of the walls
+  walls.add(createLine(new THREE.BufferGeometry().setFromPoints(top), entity, data, settings));
+  return walls;
+};
+
+const getArcNumberOfPoints = (
+  arcLength: number,
+  radialArcLength: number,
+  settings: ResolvedDxfToThreeSettings
+): number => {
+  const numberOfPointsCondition1 =
+    Math.ceil(arcLength / (settings.maxLengthOfArcLineSegment * settings.scaleFactor)) + 1;
+  const numberOfPointsCondition2 = Math.ceil(radialArcLength / settings.maxAnglePerArcLineSegment) + 1;
+  return numberOfPointsCondition1 > numberOfPointsCondition2 ? numberOfPointsCondition1 : numberOfPointsCondition2;
+};
+
+// number of segments of an arc (or ellipse) with the given (max) radius and angle (parameter range of ellipses)
+// for settings.chordalTolerance, which is reduced by the scale of the inserts
+const getChordalNumberOfSegments = (radius: number, angle: number, settings: ResolvedDxfToThreeSettings): number => {
+  // the distance between an arc and its segments is at most radius * (1 - cos(segment angle / 2))
+  const ratio = Math.min(settings.chordalTolerance! / INSERT_SCALE / radius, 1.0);
+  const segmentAngle = Math.min(
+    Math.max(2.0 * Math.acos(1.0 - ratio), MIN_CHORDAL_SEGMENT_ANGLE),
+    MAX_CHORDAL_SEGMENT_ANGLE
+  );
+  // the epsilon avoids an additional segment because of rounding errors (e.g. full circles)
+  return Math.max(Math.ceil(angle / segmentAngle - 1e-9), 1);
+};
+
 // materials
 // ------------------------
 
-const getColor = (entity: IEntity, data: IDxf): number => {
-  let color = 0x000000; // black is default
-  if (entity.color) {
-    color = entity.color;
-  } else if (data.tables && data.tables.layer && data.tables.layer.layers[entity.layer])
-    color = data.tables.layer.layers[entity.layer].color;
-
-  if (color == null || color === 0xffffff) {
-    color = 0x000000;
+const getColor = (entity: IEntity, data: IDxf, settings: ResolvedDxfToThreeSettings): number => {
+  if (settings.adaptColorsToBackground === false || !isForegroundColor(entity, data)) {
+    return resolveEntityColor(entity, data);
   }
-  return color;
+  return getForegroundColor(settings.backgroundColor);
 };
 
 const CACHED_POINT_MATERIALS = new Map<number, THREE.PointsMaterial>();
-const getPointMaterial = (entity: IEntity, data: IDxf, settings: DxfToThreeSettings): THREE.PointsMaterial => {
-  const color = settings.defaultColor ? settings.defaultColor : getColor(entity, data);
+const getPointMaterial = (entity: IEntity, data: IDxf, settings: ResolvedDxfToThreeSettings): THREE.PointsMaterial => {
+  const color = settings.defaultColor ? settings.defaultColor : getColor(entity, data, settings);
   if (!settings.reuseMaterials) {
     if (settings.defaultPointMaterial === undefined) {
       return new THREE.PointsMaterial({ color: color, size: POINT_SIZE });
@@ -173,36 +579,127 @@ const getPointMaterial = (entity: IEntity, data: IDxf, settings: DxfToThreeSetti
   }
 };
 
+const getLineType = (entity: IEntity, data: IDxf): ILineType | undefined => {
+  let lineTypeName: string | undefined = entity.lineType;
+  if (!lineTypeName || lineTypeName.toUpperCase() === "BYLAYER") {
+    const layer = data.tables && data.tables.layer && (data.tables.layer.layers[entity.layer] as IExtendedLayer);
+    lineTypeName = layer ? layer.lineType : undefined;
+  }
+  // BYBLOCK is resolved by the insert (see inheritFromInsert), outside of blocks it is continuous
+  if (!lineTypeName || lineTypeName.toUpperCase() === "BYBLOCK") {
+    return undefined;
+  }
+  return data.tables && data.tables.lineType ? data.tables.lineType.lineTypes[lineTypeName] : undefined;
+};
+
+const getLineTypePatternLength = (lineType: ILineType): number => {
+  if (!lineType.pattern) {
+    return 0.0;
+  }
+  return lineType.pattern.reduce((sum, element) => sum + Math.abs(Number(element)), 0.0);
+};
+
+// visible intervals ([start, end]) of one repetition of the pattern: dashes are positive,
+// gaps negative and dots zero (the shader draws dots and shorter dashes LINE_TYPE_DOT_PIXELS long)
+const getLineTypeDashes = (lineType: ILineType): THREE.Vector2[] => {
+  const dashes: THREE.Vector2[] = [];
+  let position = 0.0;
+  for (const element of lineType.pattern.map(Number)) {
+    if (element >= 0.0) {
+      dashes.push(new THREE.Vector2(position, position + element));
+    }
+    position += Math.abs(element);
+  }
+  return dashes.slice(0, MAX_LINE_TYPE_DASHES);
+};
+
+// the derivative of the line distance is the distance per pixel
+const getLineTypeFragment = (patternPosition: string, lineDistance: string): string => `
+  float lineTypePosition = ${patternPosition};
+  float lineTypeDotLength = ${LINE_TYPE_DOT_PIXELS.toFixed(1)} * fwidth( ${lineDistance} );
+  bool lineTypeVisible = false;
+  for ( int i = 0; i < ${MAX_LINE_TYPE_DASHES}; i ++ ) {
+    vec2 lineTypeDash = lineTypeDashes[ i ];
+    float lineTypeDashEnd = max( lineTypeDash.y, lineTypeDash.x + lineTypeDotLength );
+    if ( i < lineTypeDashCount && lineTypePosition >= lineTypeDash.x && lineTypePosition <= lineTypeDashEnd ) {
+      lineTypeVisible = true;
+    }
+  }
+  if ( ! lineTypeVisible ) {
+    discard;
+  }
+`;
+
+const MATERIAL_LINE_TYPES = new WeakMap<THREE.Material, ILineType>();
+
+// THREE.LineDashedMaterial and LineMaterial only support a single dash and gap
+// => evaluate the whole pattern in the shader (the total size has to be the pattern length)
+export const applyLineTypePattern = (material: THREE.LineDashedMaterial | LineMaterial, lineType: ILineType): void => {
+  MATERIAL_LINE_TYPES.set(material, lineType);
+  const dashes = getLineTypeDashes(lineType);
+  const dashesUniform = [...Array(MAX_LINE_TYPE_DASHES)].map((_, i) => dashes[i] || new THREE.Vector2());
+  const declarations = `\nuniform vec2 lineTypeDashes[ ${MAX_LINE_TYPE_DASHES} ];\nuniform int lineTypeDashCount;`;
+  const isFatLine = material instanceof LineMaterial;
+  // fwidth needs the derivatives extension in WebGL 1
+  const extendedMaterial = material as THREE.Material & { extensions?: { derivatives?: boolean } };
+  extendedMaterial.extensions = { ...extendedMaterial.extensions, derivatives: true };
+  material.onBeforeCompile = (shader) => {
+    shader.uniforms.lineTypeDashes = { value: dashesUniform };
+    shader.uniforms.lineTypeDashCount = { value: dashes.length };
+    if (isFatLine) {
+      shader.fragmentShader = shader.fragmentShader
+        .replace("uniform float gapSize;", "uniform float gapSize;" + declarations)
+        .replace(
+          /if \( mod\( vLineDistance \+ dashOffset, dashSize \+ gapSize \) > dashSize \) discard;.*/,
+          getLineTypeFragment("mod( vLineDistance + dashOffset, dashSize + gapSize )", "vLineDistance")
+        );
+    } else {
+      shader.fragmentShader = shader.fragmentShader
+        .replace("uniform float totalSize;", "uniform float totalSize;" + declarations)
+        .replace(
+          /if \( mod\( vLineDistance, totalSize \) > dashSize \) \{[^}]*\}/,
+          getLineTypeFragment("mod( vLineDistance, totalSize )", "vLineDistance")
+        );
+    }
+  };
+  material.customProgramCacheKey = () => (isFatLine ? "dxfFatLineType" : "dxfLineType");
+};
+
+// line type whose pattern is evaluated by the shader of the material (see applyLineTypePattern), e.g. to create the
+// material again in another thread (the shader patch is not part of the material's JSON)
+export const getMaterialLineType = (material: THREE.Material): ILineType | undefined => {
+  return MATERIAL_LINE_TYPES.get(material);
+};
+
+const createLineTypeMaterial = (color: number, lineType: ILineType): THREE.LineDashedMaterial => {
+  const material = new THREE.LineDashedMaterial({
+    color: color,
+    linewidth: LINE_WIDTH,
+    dashSize: getLineTypePatternLength(lineType),
+    gapSize: 0.0,
+  });
+  applyLineTypePattern(material, lineType);
+  return material;
+};
+
 const CACHED_LINE_MATERIALS = new Map<number, THREE.LineBasicMaterial>();
-const CACHED_DASHED_LINE_MATERIALS = new Map<number, THREE.LineDashedMaterial>();
+const CACHED_DASHED_LINE_MATERIALS = new Map<string, THREE.LineDashedMaterial>();
 const getLineMaterial = (
   entity: IEntity,
   data: IDxf,
-  settings: DxfToThreeSettings
+  settings: ResolvedDxfToThreeSettings
 ): THREE.LineBasicMaterial | THREE.LineDashedMaterial => {
-  const color = settings.defaultColor ? settings.defaultColor : getColor(entity, data);
-  let lineType: ILineType | undefined = undefined;
-  if (entity.lineType) {
-    lineType = data.tables.lineType.lineTypes[entity.lineType];
-  }
-  if (lineType && lineType.pattern && lineType.pattern.length !== 0) {
+  const color = settings.defaultColor ? settings.defaultColor : getColor(entity, data, settings);
+  const lineType = getLineType(entity, data);
+  if (lineType && getLineTypePatternLength(lineType) > 0.0) {
+    const cacheKey = color + "|" + lineType.name;
     if (!settings.reuseMaterials) {
-      return new THREE.LineDashedMaterial({
-        color: color,
-        linewidth: LINE_WIDTH,
-        gapSize: DASHED_LINE_GAP_SIZE,
-        dashSize: DASHED_LINE_DASH_SIZE,
-      });
-    } else if (CACHED_DASHED_LINE_MATERIALS.has(color)) {
-      return CACHED_DASHED_LINE_MATERIALS.get(color)!;
+      return createLineTypeMaterial(color, lineType);
+    } else if (CACHED_DASHED_LINE_MATERIALS.has(cacheKey)) {
+      return CACHED_DASHED_LINE_MATERIALS.get(cacheKey)!;
     } else {
-      const newLineMaterial = new THREE.LineDashedMaterial({
-        color: color,
-        linewidth: LINE_WIDTH,
-        gapSize: DASHED_LINE_GAP_SIZE,
-        dashSize: DASHED_LINE_DASH_SIZE,
-      });
-      CACHED_DASHED_LINE_MATERIALS.set(color, newLineMaterial);
+      const newLineMaterial = createLineTypeMaterial(color, lineType);
+      CACHED_DASHED_LINE_MATERIALS.set(cacheKey, newLineMaterial);
       return newLineMaterial;
     }
   } else {
@@ -224,9 +721,219 @@ const getLineMaterial = (
   }
 };
 
+// lineweight in 1/100 mm (group 370: -1 is BYLAYER, -2 BYBLOCK and -3 DEFAULT)
+const getLineweight = (entity: IEntity, data: IDxf): number => {
+  let lineweight: number | undefined = entity.lineweight;
+  if (lineweight === undefined || lineweight === -1) {
+    const layer = data.tables && data.tables.layer && (data.tables.layer.layers[entity.layer] as IExtendedLayer);
+    lineweight = layer ? layer.lineweight : undefined;
+  }
+  // BYBLOCK is resolved by the insert (see inheritFromInsert), outside of blocks the default is used
+  if (lineweight === undefined || lineweight < 0) {
+    const defaultLineweight = data.header && data.header["$LWDEFAULT"];
+    lineweight =
+      typeof defaultLineweight === "number" && defaultLineweight >= 0 ? defaultLineweight : DEFAULT_LINEWEIGHT;
+  }
+  return lineweight;
+};
+
+const CACHED_FAT_LINE_MATERIALS = new Map<string, LineMaterial>();
+const getFatLineMaterial = (entity: IEntity, data: IDxf, settings: ResolvedDxfToThreeSettings): LineMaterial => {
+  const color = settings.defaultColor ? settings.defaultColor : getColor(entity, data, settings);
+  const lineType = getLineType(entity, data);
+  const isDashed = lineType !== undefined && getLineTypePatternLength(lineType) > 0.0;
+
+  // a lineweight of 0 is always displayed with one pixel
+  const lineweight = getLineweight(entity, data);
+  const worldUnits = settings.lineweightsInWorldUnits === true && lineweight > 0;
+  let linewidth = 1.0;
+  if (worldUnits) {
+    const lineweightScale = settings.lineweightScale || DEFAULT_WORLD_LINEWEIGHT_SCALE;
+    linewidth = (lineweight / 100) * lineweightScale * settings.scaleFactor;
+  } else if (lineweight > 0) {
+    const lineweightScale = settings.lineweightScale || DEFAULT_SCREEN_LINEWEIGHT_SCALE;
+    linewidth = Math.max((lineweight / 100) * lineweightScale, 1.0);
+  }
+
+  const cacheKey = [color, linewidth, worldUnits, isDashed ? lineType!.name : ""].join("|");
+  if (settings.reuseMaterials && CACHED_FAT_LINE_MATERIALS.has(cacheKey)) {
+    return CACHED_FAT_LINE_MATERIALS.get(cacheKey)!;
+  }
+  const material = new LineMaterial({
+    color: color,
+    linewidth: linewidth,
+    worldUnits: worldUnits,
+    dashed: isDashed,
+    dashSize: isDashed ? getLineTypePatternLength(lineType!) : 1.0,
+    gapSize: 0.0,
+  });
+  if (isDashed) {
+    applyLineTypePattern(material, lineType!);
+  }
+  if (settings.reuseMaterials) {
+    CACHED_FAT_LINE_MATERIALS.set(cacheKey, material);
+  }
+  return material;
+};
+
+// dashed lines need the distances along the line, given in units of the line type pattern
+// (=> the material does not depend on the scale factor, LTSCALE or the line type scale of the entity)
+const computeLineTypeDistances = <T extends THREE.Line | LineSegments2>(
+  line: T,
+  entity: IEntity,
+  data: IDxf,
+  settings: ResolvedDxfToThreeSettings
+): T => {
+  const material = line.material;
+  if (!(material instanceof THREE.LineDashedMaterial) && !(material instanceof LineMaterial && material.dashed)) {
+    return line;
+  }
+  line.computeLineDistances();
+  const headerLineTypeScale = data.header && data.header["$LTSCALE"];
+  const lineTypeScale =
+    settings.scaleFactor *
+    (typeof headerLineTypeScale === "number" && headerLineTypeScale > 0.0 ? headerLineTypeScale : 1.0) *
+    (entity.lineTypeScale || 1.0);
+  const lineDistances =
+    line instanceof LineSegments2
+      ? (line.geometry.getAttribute("instanceDistanceStart") as THREE.InterleavedBufferAttribute).data.array
+      : line.geometry.getAttribute("lineDistance").array;
+  for (let i = 0; i < lineDistances.length; i++) {
+    (lineDistances as Float32Array)[i] /= lineTypeScale;
+  }
+  return line;
+};
+
+// all line-like entities are created here, either as THREE.Line(Segments) or as fat lines
+const createLine = (
+  geometry: THREE.BufferGeometry,
+  entity: IEntity,
+  data: IDxf,
+  settings: ResolvedDxfToThreeSettings,
+  isLineSegments: boolean = false
+): THREE.Line | LineSegments2 => {
+  if (settings.useFatLines) {
+    const positions = Array.from(geometry.getAttribute("position").array);
+    geometry.dispose();
+    const material = getFatLineMaterial(entity, data, settings);
+    const line = isLineSegments
+      ? new LineSegments2(new LineSegmentsGeometry().setPositions(positions), material)
+      : new Line2(new LineGeometry().setPositions(positions), material);
+    return computeLineTypeDistances(line, entity, data, settings);
+  }
+  const material = getLineMaterial(entity, data, settings);
+  const line = isLineSegments ? new THREE.LineSegments(geometry, material) : new THREE.Line(geometry, material);
+  return computeLineTypeDistances(line, entity, data, settings);
+};
+
+// line of a curve (WCS) with the walls of its thickness as child
+const createExtrudedLine = (
+  geometry: THREE.BufferGeometry,
+  entity: IEntity,
+  data: IDxf,
+  settings: ResolvedDxfToThreeSettings
+): THREE.Line | LineSegments2 => {
+  const walls = getThicknessWalls(geometry, entity, data, settings);
+  const line = createLine(geometry, entity, data, settings);
+  if (walls) {
+    line.add(walls);
+  }
+  return line;
+};
+
+// fat line materials need the size of the renderer's canvas, update it on every resize
+export const updateFatLineResolution = (
+  object3Ds: (THREE.Points | THREE.Line | THREE.Mesh | THREE.Group)[],
+  width: number,
+  height: number
+): void => {
+  object3Ds.forEach((object3D) =>
+    object3D.traverse((child) => {
+      if (child instanceof LineSegments2) {
+        child.material.resolution.set(width, height);
+      }
+    })
+  );
+};
+
+// re-tessellation
+// ------------------------
+// arcs, circles, ellipses, splines and 2D polylines remember how their points are calculated
+// => retessellateCurves updates their geometries for another chordal tolerance (e.g. when zooming in)
+interface CurveTessellation {
+  entity: IEntity;
+  data: IDxf;
+  settings: ResolvedDxfToThreeSettings;
+  // INSERT_SCALE of the conversion of the entity
+  insertScale: number;
+  getPoints: (settings: ResolvedDxfToThreeSettings) => THREE.Vector3[];
+}
+const CURVE_TESSELLATIONS = new WeakMap<THREE.BufferGeometry, CurveTessellation>();
+
+const createCurveLine = (
+  entity: IEntity,
+  data: IDxf,
+  settings: ResolvedDxfToThreeSettings,
+  getPoints: (settings: ResolvedDxfToThreeSettings) => THREE.Vector3[]
+): THREE.Line | LineSegments2 => {
+  const geometry = new THREE.BufferGeometry().setFromPoints(getPoints(settings));
+  const line = createExtrudedLine(geometry, entity, data, settings);
+  CURVE_TESSELLATIONS.set(line.geometry, {
+    entity: entity,
+    data: data,
+    settings: settings,
+    insertScale: INSERT_SCALE,
+    getPoints: getPoints,
+  });
+  return line;
+};
+
+// the geometries are updated in place, i.e. also the ones shared by several inserts of a block
+// (walls of thicknesses keep their tessellation); batched output (settings.batchObjects) and Object3Ds deserialized
+// from a worker (see dxf_worker.ts) don't know how their curves were calculated => they are left unchanged
+export const retessellateCurves = (
+  object3Ds: (THREE.Points | THREE.Line | THREE.Mesh | THREE.Group)[],
+  chordalTolerance: number
+): void => {
+  validatePositiveSetting("chordalTolerance", chordalTolerance);
+  const updatedGeometries = new Set<THREE.BufferGeometry>();
+  object3Ds.forEach((object3D) =>
+    object3D.traverse((child) => {
+      if (!(child instanceof THREE.Line || child instanceof LineSegments2)) {
+        return;
+      }
+      const tessellation = CURVE_TESSELLATIONS.get(child.geometry);
+      if (!tessellation || updatedGeometries.has(child.geometry)) {
+        return;
+      }
+      updatedGeometries.add(child.geometry);
+      const insertScale = INSERT_SCALE;
+      INSERT_SCALE = tessellation.insertScale;
+      let points: THREE.Vector3[];
+      try {
+        points = tessellation.getPoints({ ...tessellation.settings, chordalTolerance: chordalTolerance });
+      } finally {
+        INSERT_SCALE = insertScale;
+      }
+      if (child instanceof LineSegments2) {
+        (child.geometry as LineGeometry).setPositions(points.flatMap((point) => point.toArray()));
+      } else {
+        child.geometry.deleteAttribute("lineDistance");
+        child.geometry.setFromPoints(points);
+        child.geometry.computeBoundingSphere();
+      }
+      computeLineTypeDistances(child, tessellation.entity, tessellation.data, tessellation.settings);
+    })
+  );
+};
+
 const CACHED_MESH_MATERIALS = new Map<number, THREE.MeshBasicMaterial>();
-const getMeshMaterial = (entity: IEntity, data: IDxf, settings: DxfToThreeSettings): THREE.MeshBasicMaterial => {
-  const color = settings.defaultColor ? settings.defaultColor : getColor(entity, data);
+const getMeshMaterial = (
+  entity: IEntity,
+  data: IDxf,
+  settings: ResolvedDxfToThreeSettings
+): THREE.MeshBasicMaterial => {
+  const color = settings.defaultColor ? settings.defaultColor : getColor(entity, data, settings);
   if (!settings.reuseMaterials) {
     return new THREE.MeshBasicMaterial({ color: color });
   } else if (CACHED_MESH_MATERIALS.has(color)) {
@@ -242,16 +949,17 @@ export const disposeCachedMaterials = (): void => {
   CACHED_POINT_MATERIALS.forEach((material) => material.dispose());
   CACHED_LINE_MATERIALS.forEach((material) => material.dispose());
   CACHED_DASHED_LINE_MATERIALS.forEach((material) => material.dispose());
+  CACHED_FAT_LINE_MATERIALS.forEach((material) => material.dispose());
   CACHED_MESH_MATERIALS.forEach((material) => material.dispose());
 };
 
 // get geometries
 // ------------------------
 
-const getPoint = (entity: IPointEntity, data: IDxf, settings: DxfToThreeSettings): THREE.Points => {
+const getPoint = (entity: IPointEntity, data: IDxf, settings: ResolvedDxfToThreeSettings): THREE.Points => {
   const geometry = new THREE.BufferGeometry();
-  const scaleFactor = settings.scaleFactor!;
-  const setAllZsToZero = settings.setAllZsToZero!;
+  const scaleFactor = settings.scaleFactor;
+  const setAllZsToZero = settings.setAllZsToZero;
   geometry.setAttribute(
     "position",
     new THREE.Float32BufferAttribute(
@@ -267,475 +975,2859 @@ const getPoint = (entity: IPointEntity, data: IDxf, settings: DxfToThreeSettings
   return new THREE.Points(geometry, material);
 };
 
-const getLine = (entity: ILineEntity, data: IDxf, settings: DxfToThreeSettings): THREE.Line => {
+const getLine = (
+  entity: ILineEntity,
+  data: IDxf,
+  settings: ResolvedDxfToThreeSettings
+): THREE.Line | LineSegments2 | null => {
   if (!entity.vertices) {
-    console.log("entity missing vertices.");
+    reportDiagnostic("error", "entity missing vertices => ignoring it");
+    return null;
   }
 
-  // create geometry
-  const scaleFactor = settings.scaleFactor!;
+  // create geometry (the vertices are given in the WCS)
+  const scaleFactor = settings.scaleFactor;
+  const setAllZsToZero = settings.setAllZsToZero;
   const points = entity.vertices.map(
-    (vertex) => new THREE.Vector3(vertex.x * scaleFactor, vertex.y * scaleFactor, 0.0)
+    (vertex) =>
+      new THREE.Vector3(
+        vertex.x * scaleFactor,
+        vertex.y * scaleFactor,
+        (setAllZsToZero ? 0.0 : vertex.z || 0.0) * scaleFactor
+      )
   );
 
   // return line
   const geometry = new THREE.BufferGeometry().setFromPoints(points);
-  const material = getLineMaterial(entity, data, settings);
-  return new THREE.Line(geometry, material);
+  return createExtrudedLine(geometry, entity, data, settings);
 };
 
-const getPolyLine = (
+const getPolyLinePoints = (
   entity: ILwpolylineEntity | IPolylineEntity,
-  data: IDxf,
-  settings: DxfToThreeSettings
-): THREE.Line => {
-  if (!entity.vertices) {
-    console.log("entity missing vertices.");
+  settings: ResolvedDxfToThreeSettings
+): THREE.Vector3[] => {
+  // vertices of 3D polylines are given in the WCS, the ones of 2D polylines in the OCS at the elevation
+  // of the polyline
+  const scaleFactor = settings.scaleFactor;
+  const setAllZsToZero = settings.setAllZsToZero;
+  const is3dPolyline = entity.type === "POLYLINE" && (entity as IPolylineEntity).is3dPolyline;
+  const elevation = (entity as ILwpolylineEntity | IExtendedPolylineEntity).elevation || 0.0;
+  let vertices: (IPoint & { bulge?: number })[] = entity.vertices;
+  if (entity.type === "POLYLINE") {
+    // spline fit polylines contain their (invisible) control points as well
+    vertices = (entity as IPolylineEntity).vertices.filter((vertex) => !vertex.splineControlPoint);
   }
-
-  // create geometry
-  const scaleFactor = settings.scaleFactor!;
   let points: THREE.Vector3[] = [];
-  for (let i = 0; i < entity.vertices.length; i++) {
-    if (entity.vertices[i].bulge !== undefined && entity.vertices[i].bulge !== 0.0) {
-      const bulge = entity.vertices[i].bulge;
-      const startPoint = entity.vertices[i];
-      const endPoint = i + 1 < entity.vertices.length ? entity.vertices[i + 1] : points[0];
-      const bulgePoints = getBulgeCurvePoints2d(startPoint, endPoint, scaleFactor, bulge);
+  for (let i = 0; i < vertices.length; i++) {
+    const vertex = vertices[i];
+    const isLastVertex = i + 1 === vertices.length;
+    if (!is3dPolyline && vertex.bulge && (!isLastVertex || entity.shape)) {
+      const endPoint = isLastVertex ? vertices[0] : vertices[i + 1];
+      const bulgePoints = getBulgeCurvePoints2d(vertex, endPoint, vertex.bulge, settings);
+      bulgePoints.forEach((point) => (point.z = elevation * scaleFactor));
       points.push.apply(points, bulgePoints);
     } else {
-      const vertex = entity.vertices[i];
-      points.push(new THREE.Vector3(vertex.x * scaleFactor, vertex.y * scaleFactor, 0.0));
+      const z = is3dPolyline ? (setAllZsToZero ? 0.0 : vertex.z || 0.0) : elevation;
+      points.push(new THREE.Vector3(vertex.x * scaleFactor, vertex.y * scaleFactor, z * scaleFactor));
     }
   }
-  if (entity.shape) {
+  if (entity.shape && points.length > 0) {
     points.push(points[0]);
   }
-
-  // return polygon
-  const geometry = new THREE.BufferGeometry().setFromPoints(points);
-  const material = getLineMaterial(entity, data, settings);
-  return new THREE.Line(geometry, material);
+  if (is3dPolyline) {
+    return points;
+  }
+  const ocsToWcs = getEntityOcsToWcsMatrix(entity, setAllZsToZero);
+  return points.map((point) => point.clone().applyMatrix4(ocsToWcs));
 };
 
-const getArc = (entity: IArcEntity | ICircleEntity, data: IDxf, settings: DxfToThreeSettings): THREE.Line => {
-  // create geometry
-  let startAngle: number = 0.0;
-  let endAngle: number = 0.0;
-  if (entity.type === "CIRCLE") {
-    startAngle = entity.startAngle || 0;
-    endAngle = startAngle + 2 * Math.PI;
-  } else {
-    startAngle = entity.startAngle;
-    endAngle = entity.endAngle;
+const getPolyLine = (
+  entity: ILwpolylineEntity | IPolylineEntity,
+  data: IDxf,
+  settings: ResolvedDxfToThreeSettings
+): THREE.Line | LineSegments2 | null => {
+  if (!entity.vertices) {
+    reportDiagnostic("error", "entity missing vertices => ignoring it");
+    return null;
   }
 
-  const curve = new THREE.ArcCurve(
-    entity.center.x * settings.scaleFactor!,
-    entity.center.y * settings.scaleFactor!,
-    entity.radius * settings.scaleFactor!,
-    startAngle,
-    endAngle,
-    false
-  ); // Always mathematical positive (= counterclockwise)
-
-  // find out how many segments to to split curve to
-  const arcLength = curve.getLength();
-  const radialArcLength = arcLength / entity.radius;
-  const numberOfPointsCondition1 =
-    Math.ceil(arcLength / (settings.maxLengthOfArcLineSegment! * settings.scaleFactor!)) + 1;
-  const numberOfPointsCondition2 = Math.ceil(radialArcLength / settings.maxAnglePerArcLineSegment!) + 1;
-  const numberOfPoints =
-    numberOfPointsCondition1 > numberOfPointsCondition2 ? numberOfPointsCondition1 : numberOfPointsCondition2;
-
-  // return arc
-  const points = curve.getPoints(numberOfPoints);
-  const geometry = new THREE.BufferGeometry().setFromPoints(points);
-  const material = getLineMaterial(entity, data, settings);
-  return new THREE.Line(geometry, material);
+  // return polygon (the bulges of 2D polylines depend on the tessellation)
+  if (entity.type === "POLYLINE" && (entity as IPolylineEntity).is3dPolyline) {
+    const geometry = new THREE.BufferGeometry().setFromPoints(getPolyLinePoints(entity, settings));
+    return createLine(geometry, entity, data, settings);
+  }
+  return createCurveLine(entity, data, settings, (settings) => getPolyLinePoints(entity, settings));
 };
 
-const getEllipse = (entity: IEllipseEntity, data: IDxf, settings: DxfToThreeSettings): THREE.Line => {
-  const xrad = Math.sqrt(Math.pow(entity.majorAxisEndPoint.x, 2) + Math.pow(entity.majorAxisEndPoint.y, 2));
-  const yrad = xrad * entity.axisRatio;
-  const rotation = Math.atan2(entity.majorAxisEndPoint.y, entity.majorAxisEndPoint.x);
-
-  const curve = new THREE.EllipseCurve(
-    entity.center.x * settings.scaleFactor!,
-    entity.center.y * settings.scaleFactor!,
-    xrad,
-    yrad,
-    entity.startAngle,
-    entity.endAngle,
-    false, // Always mathematical positive (= counterclockwise)
-    rotation
+const hasPolyLineWidth = (entity: ILwpolylineEntity): boolean => {
+  return (
+    entity.width > 0.0 || (entity.vertices || []).some((vertex) => vertex.startWidth > 0.0 || vertex.endWidth > 0.0)
   );
+};
 
-  // find out how many segments to to split curve to
-  const arcLength = curve.getLength();
-  const radialArcLength = arcLength / Math.min(xrad, yrad);
-  const numberOfPointsCondition1 =
-    Math.ceil(arcLength / (settings.maxLengthOfArcLineSegment! * settings.scaleFactor!)) + 1;
-  const numberOfPointsCondition2 = Math.ceil(radialArcLength / settings.maxAnglePerArcLineSegment!) + 1;
-  const numberOfPoints =
-    numberOfPointsCondition1 > numberOfPointsCondition2 ? numberOfPointsCondition1 : numberOfPointsCondition2;
-
-  // return ellipse
-  const points = curve.getPoints(numberOfPoints);
-  const geometry = new THREE.BufferGeometry().setFromPoints(points);
-  const material = getLineMaterial(entity, data, settings);
-  return new THREE.Line(geometry, material);
-};
-
-const getBSplinePolyline2D = (
-  controlPoints: IPoint[],
-  degree: number,
-  knots: number[],
-  interpolationsPerSplineSegment: number,
-  scaleFactor: number = 1.0,
-  weights?: number[]
-): THREE.Vector2[] => {
-  const polyline: THREE.Vector2[] = [];
-  const controlPointsForLib = controlPoints.map((p) => {
-    return [p.x * scaleFactor, p.y * scaleFactor];
-  });
-
-  const segmentTs = [knots[degree]];
-  const domain = [knots[degree], knots[knots.length - 1 - degree]];
+// polyline with (tapered) segment widths: filled quads along the center line
+const getWidePolyLine = (
+  entity: ILwpolylineEntity,
+  data: IDxf,
+  settings: ResolvedDxfToThreeSettings
+): THREE.Group | null => {
+  // the center line is needed for segments without width
+  const centerLine = getPolyLine(entity, data, settings);
+  if (!centerLine) {
+    return null;
+  }
+  const scaleFactor = settings.scaleFactor;
+  const z = (entity.elevation || 0.0) * scaleFactor;
+  const vertices = entity.vertices;
+  const toVector2 = (point: IPoint) => new THREE.Vector2(point.x, point.y);
+  const positions: number[] = [];
+  const numberOfSegments = entity.shape ? vertices.length : vertices.length - 1;
+  for (let i = 0; i < numberOfSegments; i++) {
+    const start = vertices[i];
+    const end = vertices[(i + 1) % vertices.length];
+    const constantWidth = entity.width || 0.0;
+    const startWidth = (start.startWidth !== undefined ? start.startWidth : constantWidth) * scaleFactor;
+    const endWidth = (start.endWidth !== undefined ? start.endWidth : constantWidth) * scaleFactor;
 
-  for (let k = degree + 1; k < knots.length - degree; ++k) {
-    if (segmentTs[segmentTs.length - 1] !== knots[k]) {
-      segmentTs.push(knots[k]);
+    const points = start.bulge
+      ? getBulgeCurvePoints2d(start, end, start.bulge, settings).map(toVector2)
+      : [new THREE.Vector2(start.x * scaleFactor, start.y * scaleFactor)];
+    points.push(new THREE.Vector2(end.x * scaleFactor, end.y * scaleFactor));
+    const lengths = [0.0];
+    for (let j = 1; j < points.length; j++) {
+      lengths.push(lengths[j - 1] + points[j].distanceTo(points[j - 1]));
     }
-  }
+    const totalLength = lengths[lengths.length - 1] || 1.0;
 
-  for (let i = 1; i < segmentTs.length; ++i) {
-    const uMin = segmentTs[i - 1];
-    const uMax = segmentTs[i];
-    for (let k = 0; k <= interpolationsPerSplineSegment; ++k) {
-      const u = (k / interpolationsPerSplineSegment) * (uMax - uMin) + uMin;
-      // Clamp t to 0, 1 to handle numerical precision issues
-      let t = (u - domain[0]) / (domain[1] - domain[0]);
-      t = Math.max(t, 0);
-      t = Math.min(t, 1);
-      const p = bSpline(t, degree, controlPointsForLib, knots, weights);
-      polyline.push(new THREE.Vector2(p[0], p[1]));
+    // left and right border of the segment, the width is interpolated along the segment
+    const left: THREE.Vector2[] = [];
+    const right: THREE.Vector2[] = [];
+    for (let j = 0; j < points.length; j++) {
+      const previous = points[Math.max(j - 1, 0)];
+      const next = points[Math.min(j + 1, points.length - 1)];
+      const normal = new THREE.Vector2(previous.y - next.y, next.x - previous.x).normalize();
+      const halfWidth = (startWidth + ((endWidth - startWidth) * lengths[j]) / totalLength) / 2.0;
+      left.push(points[j].clone().addScaledVector(normal, halfWidth));
+      right.push(points[j].clone().addScaledVector(normal, -halfWidth));
+    }
+    for (let j = 0; j + 1 < points.length; j++) {
+      [right[j], right[j + 1], left[j + 1], right[j], left[j + 1], left[j]].forEach((point) =>
+        positions.push(point.x, point.y, z)
+      );
     }
   }
-  return polyline;
-};
 
-const getSpline = (entity: ISplineEntity, data: IDxf, settings: DxfToThreeSettings): THREE.Line => {
-  const points = getBSplinePolyline2D(
-    entity.controlPoints!,
-    entity.degreeOfSplineCurve,
-    entity.knotValues,
-    settings.interpolationsPerSplineSegment!,
-    settings.scaleFactor
-  );
-  const geometry = new THREE.BufferGeometry().setFromPoints(points);
-  const material = getLineMaterial(entity, data, settings);
-  return new THREE.Line(geometry, material);
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute("position", new THREE.Float32BufferAttribute(positions, 3));
+  transformOcsMesh(geometry, entity, settings);
+  const group = new THREE.Group();
+  group.add(new THREE.Mesh(geometry, getMeshMaterial(entity, data, settings)));
+  group.add(centerLine);
+  return group;
 };
 
-// draw texts
-// ------------------------
-
-const getText = (entity: ITextEntity, data: IDxf, settings: DxfToThreeSettings): THREE.Mesh => {
-  const scaleFactor = settings.scaleFactor!;
-  const geometry = new TextGeometry(entity.text, {
-    font: settings.threeFont!,
-    height: 0,
-    size: (entity.textHeight || 12) * scaleFactor,
-  });
-  if (entity.rotation) {
-    geometry.rotateZ((entity.rotation * Math.PI) / 180);
+const getPolyfaceMesh = (entity: IPolylineEntity, data: IDxf, settings: ResolvedDxfToThreeSettings): THREE.Mesh => {
+  const scaleFactor = settings.scaleFactor;
+  const setAllZsToZero = settings.setAllZsToZero;
+  const positions: number[] = [];
+  const indices: number[] = [];
+  for (const vertex of entity.vertices) {
+    if (vertex.threeDPolylineMesh) {
+      positions.push(
+        vertex.x * scaleFactor,
+        vertex.y * scaleFactor,
+        (setAllZsToZero ? 0.0 : vertex.z || 0.0) * scaleFactor
+      );
+    } else if (vertex.polyfaceMeshVertex) {
+      // face record: 1-based vertex indices, negative indices mark invisible edges
+      const face = [vertex.faceA, vertex.faceB, vertex.faceC, vertex.faceD]
+        .filter((index) => index)
+        .map((index) => Math.abs(index) - 1);
+      for (let i = 1; i + 1 < face.length; i++) {
+        indices.push(face[0], face[i], face[i + 1]);
+      }
+    }
   }
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute("position", new THREE.Float32BufferAttribute(positions, 3));
+  geometry.setIndex(indices);
+  geometry.computeVertexNormals();
   const material = getMeshMaterial(entity, data, settings);
-  const text = new THREE.Mesh(geometry, material);
-  text.position.x = entity.startPoint.x * scaleFactor;
-  text.position.y = entity.startPoint.y * scaleFactor;
-  text.position.z = (settings.setAllZsToZero ? 0.0 : entity.startPoint.z || 0.0) * scaleFactor;
-  return text;
+  return new THREE.Mesh(geometry, material);
 };
 
-const mtextContentAndFormattingToTextAndStyle = (
-  textAndControlChars: DxfMTextContentElement[],
-  entity: IMtextEntity
-): {
-  text: string;
-  style: {
-    horizontalAlignment: string;
-    textHeight: number;
-  };
-} => {
-  let activeStyle = {
-    horizontalAlignment: "left",
-    textHeight: entity.height,
-  };
-
-  const text = [];
-  for (let item of textAndControlChars) {
-    if (typeof item === "string") {
-      if (item.startsWith("pxq") && item.endsWith(";")) {
-        if (item.indexOf("c") !== -1) activeStyle.horizontalAlignment = "center";
-        else if (item.indexOf("l") !== -1) activeStyle.horizontalAlignment = "left";
-        else if (item.indexOf("r") !== -1) activeStyle.horizontalAlignment = "right";
-        else if (item.indexOf("j") !== -1) activeStyle.horizontalAlignment = "justify";
-      } else {
-        text.push(item);
-      }
-    } else if (Array.isArray(item)) {
-      const nestedFormat = mtextContentAndFormattingToTextAndStyle(item, entity);
-      text.push(nestedFormat.text);
-    } else if (typeof item === "object") {
-      if (item["S"] && item["S"].length === 3) {
-        text.push(item["S"][0] + "/" + item["S"][2]);
-      } else {
-        // not yet supported.
-      }
+const getPolygonMesh = (
+  entity: IExtendedPolylineEntity,
+  data: IDxf,
+  settings: ResolvedDxfToThreeSettings
+): THREE.Mesh | null => {
+  // surface fitted meshes contain the control vertices and the vertices of the fitted surface (M x N density)
+  let m = entity.meshMVertexCount;
+  let n = entity.meshNVertexCount;
+  let vertices = entity.vertices.filter((vertex) => !vertex.splineVertex);
+  if (entity.includesSplineFitVertices) {
+    const fittedVertices = entity.vertices.filter((vertex) => vertex.splineVertex);
+    const fittedM = entity.surfaceMDensity || 0;
+    const fittedN = entity.surfaceNDensity || 0;
+    if (fittedM > 0 && fittedN > 0 && fittedVertices.length >= fittedM * fittedN) {
+      [m, n, vertices] = [fittedM, fittedN, fittedVertices];
+    } else {
+      reportDiagnostic("warning", "fitted surface of polygon mesh not found => showing its control vertices");
+    }
+  }
+  if (!m || !n || vertices.length < m * n) {
+    reportDiagnostic("error", "polygon mesh without vertex counts => ignoring it");
+    return null;
+  }
+
+  const scaleFactor = settings.scaleFactor;
+  const setAllZsToZero = settings.setAllZsToZero;
+  const positions: number[] = [];
+  for (const vertex of vertices.slice(0, m * n)) {
+    positions.push(
+      vertex.x * scaleFactor,
+      vertex.y * scaleFactor,
+      (setAllZsToZero ? 0.0 : vertex.z || 0.0) * scaleFactor
+    );
+  }
+
+  // vertices are ordered row by row (M rows with N vertices each)
+  const indices: number[] = [];
+  const rows = entity.shape ? m : m - 1;
+  const columns = entity.is3dPolygonMeshClosed ? n : n - 1;
+  for (let i = 0; i < rows; i++) {
+    for (let j = 0; j < columns; j++) {
+      const a = i * n + j;
+      const b = i * n + ((j + 1) % n);
+      const c = ((i + 1) % m) * n + ((j + 1) % n);
+      const d = ((i + 1) % m) * n + j;
+      indices.push(a, b, c, a, c, d);
+    }
+  }
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute("position", new THREE.Float32BufferAttribute(positions, 3));
+  geometry.setIndex(indices);
+  geometry.computeVertexNormals();
+  const material = getMeshMaterial(entity, data, settings);
+  return new THREE.Mesh(geometry, material);
+};
+
+// 3D faces, meshes and ACIS bodies
+// ------------------------
+
+const get3DVector = (point: IPoint, settings: ResolvedDxfToThreeSettings): THREE.Vector3 => {
+  const scaleFactor = settings.scaleFactor;
+  const z = settings.setAllZsToZero ? 0.0 : point.z || 0.0;
+  return new THREE.Vector3(point.x * scaleFactor, point.y * scaleFactor, z * scaleFactor);
+};
+
+// edges as pairs of points => child line segments of a mesh
+const getEdgeLines = (
+  edges: THREE.Vector3[],
+  entity: IEntity,
+  data: IDxf,
+  settings: ResolvedDxfToThreeSettings
+): THREE.Line | LineSegments2 => {
+  const geometry = new THREE.BufferGeometry().setFromPoints(edges);
+  return createLine(geometry, entity, data, settings, true);
+};
+
+const get3DFace = (entity: I3DFaceEntity, data: IDxf, settings: ResolvedDxfToThreeSettings): THREE.Mesh => {
+  const points = entity.vertices.filter((vertex) => vertex).map((vertex) => get3DVector(vertex, settings));
+  // triangles repeat their third vertex
+  const corners = points.length > 3 && !points[3].equals(points[2]) ? points : points.slice(0, 3);
+  const triangles: THREE.Vector3[] = [];
+  for (let i = 1; i + 1 < corners.length; i++) {
+    triangles.push(corners[0], corners[i], corners[i + 1]);
+  }
+  // not indexed => flat normals
+  const geometry = new THREE.BufferGeometry().setFromPoints(triangles);
+  geometry.computeVertexNormals();
+  const mesh = new THREE.Mesh(geometry, getMeshMaterial(entity, data, settings));
+
+  // edge i goes from vertex i to the next one, bit i of the flags hides it
+  const edges: THREE.Vector3[] = [];
+  for (let i = 0; i < points.length; i++) {
+    const next = points[(i + 1) % points.length];
+    if ((entity.invisibleEdges & (1 << i)) === 0 && !points[i].equals(next)) {
+      edges.push(points[i], next);
+    }
+  }
+  if (edges.length > 0) {
+    mesh.add(getEdgeLines(edges, entity, data, settings));
+  }
+  return mesh;
+};
+
+const getMesh = (entity: IMeshEntity, data: IDxf, settings: ResolvedDxfToThreeSettings): THREE.Mesh | null => {
+  const positions: number[] = [];
+  entity.vertices.forEach((vertex) => positions.push(...get3DVector(vertex, settings).toArray()));
+  const indices: number[] = [];
+  for (const face of entity.faces) {
+    if (face.some((index) => index >= entity.vertices.length)) continue;
+    for (let i = 1; i + 1 < face.length; i++) {
+      indices.push(face[0], face[i], face[i + 1]);
+    }
+  }
+  if (indices.length === 0) {
+    reportDiagnostic("error", "mesh without faces => ignoring it");
+    return null;
+  }
+
+  let geometry = new THREE.BufferGeometry();
+  geometry.setAttribute("position", new THREE.Float32BufferAttribute(positions, 3));
+  geometry.setIndex(indices);
+  // meshes without subdivision are faceted, smoothed ones share the normals of their vertices
+  if (entity.subdivisionLevel === 0) {
+    const indexedGeometry = geometry;
+    geometry = indexedGeometry.toNonIndexed();
+    indexedGeometry.dispose();
+  }
+  geometry.computeVertexNormals();
+  return new THREE.Mesh(geometry, getMeshMaterial(entity, data, settings));
+};
+
+// planar face of a body => triangles (counter-clockwise around the normal) in its plane
+const addAcisPlanarFace = (
+  face: AcisPlanarFace,
+  positions: number[],
+  indices: number[],
+  settings: ResolvedDxfToThreeSettings
+): void => {
+  if (face.loops.length === 0) {
+    return;
+  }
+  const normal = new THREE.Vector3(face.normal.x, face.normal.y, face.normal.z).normalize();
+  const xAxis = new THREE.Vector3(1.0, 0.0, 0.0);
+  if (Math.abs(normal.x) > 0.9) {
+    xAxis.set(0.0, 1.0, 0.0);
+  }
+  xAxis.projectOnPlane(normal).normalize();
+  const yAxis = new THREE.Vector3().crossVectors(normal, xAxis);
+  const loops = face.loops.map((loop) => loop.map((point) => new THREE.Vector3(point.x, point.y, point.z)));
+  const loops2d = loops.map((loop) => loop.map((point) => new THREE.Vector2(point.dot(xAxis), point.dot(yAxis))));
+
+  // the loop with the largest area is the boundary, the others are holes
+  const areas = loops2d.map((loop) => Math.abs(THREE.ShapeUtils.area(loop)));
+  const contourIndex = areas.indexOf(Math.max(...areas));
+  const sortedLoops = [loops[contourIndex], ...loops.filter((loop, i) => i !== contourIndex)];
+  const sortedLoops2d = [loops2d[contourIndex], ...loops2d.filter((loop, i) => i !== contourIndex)];
+  sortedLoops2d.forEach((loop, i) => {
+    // the boundary runs counter-clockwise, the holes clockwise
+    if (THREE.ShapeUtils.isClockWise(loop) === (i === 0)) {
+      loop.reverse();
+      sortedLoops[i].reverse();
+    }
+  });
+
+  const offset = positions.length / 3;
+  const triangles = THREE.ShapeUtils.triangulateShape(sortedLoops2d[0], sortedLoops2d.slice(1));
+  sortedLoops.forEach((loop) => loop.forEach((point) => positions.push(...get3DVector(point, settings).toArray())));
+  triangles.forEach((triangle) => indices.push(triangle[0] + offset, triangle[1] + offset, triangle[2] + offset));
+};
+
+// 3DSOLID, REGION and BODY: planar faces => mesh, edges of other faces => lines
+const getModelerGeometry = (
+  entity: IModelerGeometryEntity,
+  data: IDxf,
+  settings: ResolvedDxfToThreeSettings
+): THREE.Mesh | THREE.Line | LineSegments2 | null => {
+  const acis = parseAcisSat(entity.acisData, settings.maxAnglePerArcLineSegment);
+  if (!acis) {
+    reportDiagnostic("error", entity.type + " without SAT data (binary data of AutoCAD 2013 and later) => ignoring it");
+    return null;
+  }
+
+  const edges: THREE.Vector3[] = [];
+  acis.edges.forEach((points) => {
+    const vectors = points.map((point) => get3DVector(point, settings));
+    for (let i = 0; i + 1 < vectors.length; i++) {
+      edges.push(vectors[i], vectors[i + 1]);
+    }
+  });
+  const edgeLines = edges.length > 0 ? getEdgeLines(edges, entity, data, settings) : null;
+
+  const positions: number[] = [];
+  const indices: number[] = [];
+  acis.planarFaces.forEach((face) => addAcisPlanarFace(face, positions, indices, settings));
+  if (indices.length === 0) {
+    return edgeLines;
+  }
+  const indexedGeometry = new THREE.BufferGeometry();
+  indexedGeometry.setAttribute("position", new THREE.Float32BufferAttribute(positions, 3));
+  indexedGeometry.setIndex(indices);
+  // faces are flat => every triangle gets its own normal
+  const geometry = indexedGeometry.toNonIndexed();
+  indexedGeometry.dispose();
+  geometry.computeVertexNormals();
+  const mesh = new THREE.Mesh(geometry, getMeshMaterial(entity, data, settings));
+  if (edgeLines) {
+    mesh.add(edgeLines);
+  }
+  return mesh;
+};
+
+const getArcPoints = (entity: IArcEntity | ICircleEntity, settings: ResolvedDxfToThreeSettings): THREE.Vector3[] => {
+  let startAngle: number = 0.0;
+  let endAngle: number = 0.0;
+  if (entity.type === "CIRCLE") {
+    startAngle = entity.startAngle || 0;
+    endAngle = startAngle + 2 * Math.PI;
+  } else {
+    startAngle = entity.startAngle;
+    endAngle = entity.endAngle;
+  }
+
+  const curve = new THREE.ArcCurve(
+    entity.center.x * settings.scaleFactor,
+    entity.center.y * settings.scaleFactor,
+    entity.radius * settings.scaleFactor,
+    startAngle,
+    endAngle,
+    false
+  ); // Always mathematical positive (= counterclockwise)
+
+  // find out how many segments to to split curve to
+  let numberOfPoints: number;
+  if (settings.chordalTolerance !== undefined) {
+    let angle = endAngle - startAngle;
+    while (angle <= 0.0) angle += 2 * Math.PI;
+    numberOfPoints = getChordalNumberOfSegments(entity.radius * settings.scaleFactor, angle, settings);
+  } else {
+    const arcLength = curve.getLength();
+    const radialArcLength = arcLength / entity.radius;
+    numberOfPoints = getArcNumberOfPoints(arcLength, radialArcLength, settings);
+  }
+
+  // the center is given in the OCS
+  const z = (entity.center.z || 0.0) * settings.scaleFactor;
+  const ocsToWcs = getEntityOcsToWcsMatrix(entity, settings.setAllZsToZero);
+  return curve.getPoints(numberOfPoints).map((point) => new THREE.Vector3(point.x, point.y, z).applyMatrix4(ocsToWcs));
+};
+
+const getArc = (
+  entity: IArcEntity | ICircleEntity,
+  data: IDxf,
+  settings: ResolvedDxfToThreeSettings
+): THREE.Line | LineSegments2 => {
+  return createCurveLine(entity, data, settings, (settings) => getArcPoints(entity, settings));
+};
+
+const getEllipsePoints = (entity: IEllipseEntity, settings: ResolvedDxfToThreeSettings): THREE.Vector3[] => {
+  // center and major axis are given in the WCS => the curve is created with the major axis as x axis
+  // and moved into the plane of the ellipse afterwards
+  const scaleFactor = settings.scaleFactor;
+  const center = entity.center;
+  const majorAxis = entity.majorAxisEndPoint;
+  const xAxis = new THREE.Vector3(majorAxis.x, majorAxis.y, majorAxis.z || 0.0);
+  const xrad = xAxis.length() * scaleFactor;
+  const yrad = xrad * entity.axisRatio;
+  const extrusionDirection = (entity as IExtendedEllipseEntity).extrusionDirection;
+  const normal = extrusionDirection
+    ? new THREE.Vector3(extrusionDirection.x, extrusionDirection.y, extrusionDirection.z || 0.0)
+    : new THREE.Vector3(0.0, 0.0, 1.0);
+  xAxis.normalize();
+  const yAxis = normal.clone().cross(xAxis).normalize();
+  const matrix = new THREE.Matrix4()
+    .makeBasis(xAxis, yAxis, xAxis.clone().cross(yAxis))
+    .setPosition(center.x * scaleFactor, center.y * scaleFactor, (center.z || 0.0) * scaleFactor);
+  if (settings.setAllZsToZero) {
+    matrix.premultiply(new THREE.Matrix4().makeScale(1.0, 1.0, 0.0));
+  }
+
+  const curve = new THREE.EllipseCurve(
+    0.0,
+    0.0,
+    xrad,
+    yrad,
+    entity.startAngle,
+    entity.endAngle,
+    false, // Always mathematical positive (= counterclockwise)
+    0.0
+  );
+
+  // find out how many segments to to split curve to (the ellipse is within the circle with the major radius)
+  let numberOfPoints: number;
+  if (settings.chordalTolerance !== undefined) {
+    let angle = entity.endAngle - entity.startAngle;
+    while (angle <= 0.0) angle += 2 * Math.PI;
+    numberOfPoints = getChordalNumberOfSegments(xrad, angle, settings);
+  } else {
+    const arcLength = curve.getLength();
+    const radialArcLength = arcLength / Math.min(xrad, yrad);
+    numberOfPoints = getArcNumberOfPoints(arcLength, radialArcLength, settings);
+  }
+
+  // return ellipse
+  return curve.getPoints(numberOfPoints).map((point) => new THREE.Vector3(point.x, point.y, 0.0).applyMatrix4(matrix));
+};
+
+const getEllipse = (
+  entity: IEllipseEntity,
+  data: IDxf,
+  settings: ResolvedDxfToThreeSettings
+): THREE.Line | LineSegments2 => {
+  return createCurveLine(entity, data, settings, (settings) => getEllipsePoints(entity, settings));
+};
+
+// NURBS curve => points (scaled), the tolerance is relative to the size of the curve if none is configured
+const getNurbsPoints = (definition: NurbsDefinition, settings: ResolvedDxfToThreeSettings): THREE.Vector3[] => {
+  const scaleFactor = settings.scaleFactor;
+  const curve = createNurbsCurve(definition);
+  let points: IPoint[];
+  if (curve) {
+    const tolerance =
+      settings.chordalTolerance !== undefined
+        ? settings.chordalTolerance / INSERT_SCALE / scaleFactor
+        : getNurbsSize(curve) * DEFAULT_RELATIVE_CHORDAL_TOLERANCE;
+    points = tessellateNurbs(curve, tolerance, settings.interpolationsPerSplineSegment);
+  } else {
+    // degenerated splines are shown as their control or fit points
+    points = definition.controlPoints && definition.controlPoints.length > 1 ? definition.controlPoints : [];
+    points = points.length === 0 && definition.fitPoints ? definition.fitPoints : points;
+  }
+  return points.map((point) => new THREE.Vector3(point.x, point.y, point.z || 0.0).multiplyScalar(scaleFactor));
+};
+
+const getSpline = (
+  entity: IExtendedSplineEntity,
+  data: IDxf,
+  settings: ResolvedDxfToThreeSettings
+): THREE.Line | LineSegments2 | null => {
+  if ((entity.controlPoints || []).length < 2 && (entity.fitPoints || []).length < 2) {
+    return null;
+  }
+  // the control points are given in the WCS
+  const definition = getSplineDefinition(entity);
+  const getPoints = (settings: ResolvedDxfToThreeSettings): THREE.Vector3[] => {
+    const points = getNurbsPoints(definition, settings);
+    if (settings.setAllZsToZero) {
+      points.forEach((point) => (point.z = 0.0));
+    }
+    return points;
+  };
+  return createCurveLine(entity, data, settings, getPoints);
+};
+
+// fonts
+// ------------------------
+
+const getTextStyle = (styleName: string | undefined, data: IDxf): ITextStyle | undefined => {
+  const tables = data.tables as IExtendedTables | undefined;
+  if (!styleName || !tables || !tables.textStyle) {
+    return undefined;
+  }
+  return tables.textStyle.textStyles[styleName];
+};
+
+// fonts can be configured for the name of the text style, the font family (e.g. "Arial") or the font file
+// with or without extension (e.g. "romans.shx" or "romans")
+const getTextStyleFontNames = (styleName: string | undefined, data: IDxf): string[] => {
+  const names: string[] = [];
+  const style = getTextStyle(styleName, data);
+  if (style && style.fontFamily) {
+    names.push(style.fontFamily);
+  }
+  if (style && style.fontFile) {
+    names.push(style.fontFile, style.fontFile.replace(/\.[^.]*$/, ""));
+  }
+  if (styleName) {
+    names.push(styleName);
+  }
+  return names;
+};
+
+const isShxFont = (font: DxfFont | undefined): font is ShxFont =>
+  font !== undefined && typeof font !== "string" && !(font instanceof Font);
+
+// the first configured font of the names, then of the fallbacks, which can be rendered
+// (names are compared case-insensitively)
+const findFont = <T extends DxfFont>(
+  names: string[],
+  settings: ResolvedDxfToThreeSettings,
+  canRender: (font: DxfFont) => font is T
+): T | undefined => {
+  if (!settings.fonts) {
+    return undefined;
+  }
+  const lowerCaseFonts = new Map(Object.entries(settings.fonts).map(([name, font]) => [name.toLowerCase(), font]));
+  for (const name of names.concat(settings.fontFallbacks || [])) {
+    const font = lowerCaseFonts.get(name.toLowerCase());
+    if (font !== undefined && canRender(font)) {
+      return font;
+    }
+  }
+  return undefined;
+};
+
+// TEXT is rendered with any kind of font (undefined => troika's default font)
+const getTextFont = (
+  styleName: string | undefined,
+  data: IDxf,
+  settings: ResolvedDxfToThreeSettings
+): DxfFont | undefined => {
+  const font = findFont(getTextStyleFontNames(styleName, data), settings, (font): font is DxfFont => true);
+  if (font !== undefined) {
+    return font;
+  }
+  return settings.useTroikaForText ? settings.troikaFontUrl : settings.threeFont;
+};
+
+// strokes of the SHX font as pairs of points, the baseline starts at the origin
+// (letter spacing in multiples of the height)
+const getShxTextPositions = (
+  text: string,
+  font: ShxFont,
+  height: number,
+  letterSpacing: number = 0.0
+): { positions: number[]; width: number } => {
+  const { strokes, width } = getShxTextStrokes(font, text, letterSpacing * font.above);
+  const scale = height / font.above;
+  const positions: number[] = [];
+  for (const stroke of strokes) {
+    for (let i = 2; i < stroke.length; i += 2) {
+      positions.push(stroke[i - 2] * scale, stroke[i - 1] * scale, 0.0, stroke[i] * scale, stroke[i + 1] * scale, 0.0);
+    }
+  }
+  return { positions: positions, width: width * scale };
+};
+
+// draw texts
+// ------------------------
+
+// text generation flags
+const TEXT_BACKWARD = 2;
+const TEXT_UPSIDE_DOWN = 4;
+
+// horizontal alignment (72): 0 = left, 1 = center, 2 = right, 3 = aligned, 4 = middle, 5 = fit
+// vertical alignment (73 for TEXT, 74 for ATTRIB/ATTDEF): 0 = baseline, 1 = bottom, 2 = middle, 3 = top
+// all alignments except left/baseline refer to the second alignment point;
+// aligned and fit texts are placed between both alignment points (aligned texts keep their width factor)
+const TEXT_ALIGNED = 3;
+const TEXT_MIDDLE = 4;
+const TEXT_FIT = 5;
+
+// height of capital letters of THREE.Fonts relative to their size
+const THREE_FONT_CAP_HEIGHT = 0.7;
+
+// encoding of %%nnn codes
+const getTextEncoding = (data: IDxf): string => {
+  const header = (data.header || {}) as Record<string, unknown>;
+  return getCodePageEncoding(header["$DWGCODEPAGE"] as string | undefined);
+};
+
+interface TextProperties {
+  height: number;
+  widthFactor: number;
+  obliqueAngle: number;
+  isBackward: boolean;
+  isUpsideDown: boolean;
+  // degrees
+  rotation: number;
+  halign: number;
+  valign: number;
+  position: IPoint;
+  // aligned and fit texts: distance between the alignment points
+  length: number;
+}
+
+// properties which are not given by the entity are taken from its text style
+const getTextProperties = (
+  entity: IExtendedTextEntity,
+  data: IDxf,
+  settings: ResolvedDxfToThreeSettings
+): TextProperties => {
+  const style = getTextStyle(entity.styleName, data);
+  const scaleFactor = settings.scaleFactor;
+  const flags = entity.generationFlags !== undefined ? entity.generationFlags : (style && style.generationFlags) || 0;
+  const properties: TextProperties = {
+    height: (entity.textHeight || (style && style.fixedHeight) || 12) * scaleFactor,
+    widthFactor: entity.xScale || (style && style.widthFactor) || 1.0,
+    obliqueAngle: entity.obliqueAngle !== undefined ? entity.obliqueAngle : (style && style.obliqueAngle) || 0.0,
+    isBackward: (flags & TEXT_BACKWARD) !== 0,
+    isUpsideDown: (flags & TEXT_UPSIDE_DOWN) !== 0,
+    rotation: entity.rotation || 0.0,
+    halign: entity.halign || 0,
+    valign: entity.valign || 0,
+    position: entity.startPoint,
+    length: 0.0,
+  };
+  if (!entity.endPoint || (properties.halign === 0 && properties.valign === 0)) {
+    return properties;
+  }
+  if ((properties.halign === TEXT_ALIGNED || properties.halign === TEXT_FIT) && properties.valign === 0) {
+    const dx = entity.endPoint.x - entity.startPoint.x;
+    const dy = entity.endPoint.y - entity.startPoint.y;
+    properties.length = Math.sqrt(dx * dx + dy * dy) * scaleFactor;
+    if (properties.length > 0.0) {
+      properties.rotation = (Math.atan2(dy, dx) * 180) / Math.PI;
+    }
+  } else {
+    properties.position = entity.endPoint;
+  }
+  return properties;
+};
+
+// translation which moves the alignment point to the origin of the geometry
+const getTextAlignment = (
+  geometry: THREE.BufferGeometry,
+  size: number,
+  halign: number,
+  valign: number
+): THREE.Vector3 => {
+  geometry.computeBoundingBox();
+  const box = geometry.boundingBox!;
+  let x = 0.0;
+  let y = 0.0;
+  if (halign === 1 || halign === TEXT_MIDDLE) {
+    x = -(box.min.x + box.max.x) / 2;
+  } else if (halign === 2) {
+    x = -box.max.x;
+  }
+  if (halign === TEXT_MIDDLE || valign === 2) {
+    y = -size / 2;
+  } else if (valign === 1) {
+    y = -box.min.y;
+  } else if (valign === 3) {
+    y = -size;
+  }
+  return new THREE.Vector3(x, y, 0.0);
+};
+
+// oblique texts are sheared, which is not possible by position, rotation and scale (the shear is applied after a
+// projection of the OCS, see transformOcsObject3D)
+const setObliqueAngle = (object3D: THREE.Object3D, obliqueAngle: number): void => {
+  if (!obliqueAngle) {
+    return;
+  }
+  if (object3D.matrixAutoUpdate) {
+    object3D.updateMatrix();
+  }
+  object3D.matrix.multiply(new THREE.Matrix4().makeShear(0, 0, Math.tan((obliqueAngle * Math.PI) / 180), 0, 0, 0));
+  object3D.matrixAutoUpdate = false;
+};
+
+// the baseline of the geometry starts at the origin; the decorations are transformed along with it
+const transformTextGeometry = (
+  geometry: THREE.BufferGeometry,
+  decorations: THREE.BufferGeometry | undefined,
+  properties: TextProperties
+): void => {
+  const transform = (matrix: THREE.Matrix4): void => {
+    geometry.applyMatrix4(matrix);
+    if (decorations) {
+      decorations.applyMatrix4(matrix);
+    }
+  };
+  if (properties.obliqueAngle) {
+    const shear = Math.tan((properties.obliqueAngle * Math.PI) / 180);
+    transform(new THREE.Matrix4().makeShear(0, 0, shear, 0, 0, 0));
+  }
+  transform(new THREE.Matrix4().makeScale(properties.widthFactor, 1.0, 1.0));
+  if (properties.length > 0.0) {
+    // the characters fill the distance between the alignment points
+    geometry.computeBoundingBox();
+    const box = geometry.boundingBox!;
+    const stretch = properties.length / (box.max.x - box.min.x);
+    transform(new THREE.Matrix4().makeTranslation(-box.min.x, 0.0, 0.0));
+    transform(new THREE.Matrix4().makeScale(stretch, properties.halign === TEXT_ALIGNED ? stretch : 1.0, 1.0));
+  } else {
+    const alignment = getTextAlignment(geometry, properties.height, properties.halign, properties.valign);
+    transform(new THREE.Matrix4().makeTranslation(alignment.x, alignment.y, alignment.z));
+  }
+  // mirrored at the alignment point
+  const mirrorX = properties.isBackward ? -1.0 : 1.0;
+  transform(new THREE.Matrix4().makeScale(mirrorX, properties.isUpsideDown ? -1.0 : 1.0, 1.0));
+  if (properties.rotation) {
+    transform(new THREE.Matrix4().makeRotationZ((properties.rotation * Math.PI) / 180));
+  }
+};
+
+// %%u and %%o: lines below and above the characters, given by [start x, end x, baseline y] per range and line
+const getTextDecorationGeometry = (
+  decoded: DecodedText,
+  getLineRanges: (start: number, end: number) => [number, number, number][],
+  height: number,
+  capHeight: number
+): THREE.BufferGeometry | undefined => {
+  const positions: number[] = [];
+  const addLines = (ranges: [number, number][], offset: number): void =>
+    ranges.forEach(([start, end]) =>
+      getLineRanges(start, end).forEach(([x1, x2, y]) => positions.push(x1, y + offset, 0.0, x2, y + offset, 0.0))
+    );
+  addLines(decoded.underlines, -0.2 * height);
+  addLines(decoded.overlines, capHeight + 0.2 * height);
+  if (positions.length === 0) {
+    return undefined;
+  }
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute("position", new THREE.Float32BufferAttribute(positions, 3));
+  return geometry;
+};
+
+const addTextDecorations = (
+  object3D: THREE.Object3D,
+  decorations: THREE.BufferGeometry | undefined,
+  entity: IEntity,
+  data: IDxf,
+  settings: ResolvedDxfToThreeSettings
+): void => {
+  if (decorations) {
+    object3D.add(createLine(decorations, { ...entity, lineType: "CONTINUOUS" } as IEntity, data, settings, true));
+  }
+};
+
+// advance of the characters as they are placed by THREE.Font (missing characters are replaced by "?")
+const getThreeFontTextWidth = (font: Font, text: string, size: number): number => {
+  const fontData = font.data as unknown as { resolution: number; glyphs: Record<string, { ha: number } | undefined> };
+  const scale = size / fontData.resolution;
+  return Array.from(text).reduce((width, c) => {
+    const glyph = fontData.glyphs[c] || fontData.glyphs["?"];
+    return width + (glyph ? glyph.ha * scale : 0.0);
+  }, 0.0);
+};
+
+const getTextGeometryText = (
+  entity: IExtendedTextEntity,
+  decoded: DecodedText,
+  properties: TextProperties,
+  font: Font,
+  data: IDxf,
+  settings: ResolvedDxfToThreeSettings
+): THREE.Mesh => {
+  const geometry = new TextGeometry(decoded.text, { font: font, height: 0, size: properties.height });
+  const getX = (index: number): number => getThreeFontTextWidth(font, decoded.text.slice(0, index), properties.height);
+  const decorations = getTextDecorationGeometry(
+    decoded,
+    (start, end) => [[getX(start), getX(end), 0.0]],
+    properties.height,
+    THREE_FONT_CAP_HEIGHT * properties.height
+  );
+  transformTextGeometry(geometry, decorations, properties);
+  const mesh = new THREE.Mesh(geometry, getMeshMaterial(entity, data, settings));
+  addTextDecorations(mesh, decorations, entity, data, settings);
+  return mesh;
+};
+
+// the strokes of SHX fonts are drawn with a continuous line type
+const getShxText = (
+  entity: IExtendedTextEntity,
+  decoded: DecodedText,
+  properties: TextProperties,
+  font: ShxFont,
+  data: IDxf,
+  settings: ResolvedDxfToThreeSettings
+): THREE.Line | LineSegments2 => {
+  const geometry = new THREE.BufferGeometry();
+  const { positions } = getShxTextPositions(decoded.text, font, properties.height);
+  geometry.setAttribute("position", new THREE.Float32BufferAttribute(positions, 3));
+  const getX = (index: number): number =>
+    getShxTextPositions(decoded.text.slice(0, index), font, properties.height).width;
+  const decorations = getTextDecorationGeometry(
+    decoded,
+    (start, end) => [[getX(start), getX(end), 0.0]],
+    properties.height,
+    properties.height
+  );
+  transformTextGeometry(geometry, decorations, properties);
+  const line = createLine(geometry, { ...entity, lineType: "CONTINUOUS" } as IEntity, data, settings, true);
+  addTextDecorations(line, decorations, entity, data, settings);
+  return line;
+};
+
+// [start x, end x, baseline y] of the characters of a synchronized troika text, split where troika wraps the text
+const getTroikaTextLineRanges = (text: Text, start: number, end: number): [number, number, number][] => {
+  const info = text.textRenderInfo;
+  const carets: Float32Array | undefined = info.caretPositions;
+  if (!carets) {
+    return [];
+  }
+  // the caret bottom is centered vertically around the middle between ascender and descender
+  const baselineOffset = (info.ascender + info.descender) / 2.0 - info.caretHeight / 2.0;
+  const ranges: [number, number, number][] = [];
+  let rangeStart: number | undefined = undefined;
+  for (let i = start; i < end; i++) {
+    const isLineEnd = i + 1 === end || carets[(i + 1) * 3 + 2] !== carets[i * 3 + 2];
+    rangeStart = rangeStart === undefined ? carets[i * 3] : rangeStart;
+    if (isLineEnd) {
+      ranges.push([rangeStart, carets[i * 3 + 1], carets[i * 3 + 2] - baselineOffset]);
+      rangeStart = undefined;
+    }
+  }
+  return ranges;
+};
+
+// Object3Ds which are completed after their troika texts are synchronized => their pending layout
+const PENDING_TEXT_LAYOUTS = new WeakMap<THREE.Object3D, Promise<void>>();
+
+// synchronizes the texts (asynchronously) and calls the callback once all of them are laid out
+const syncTroikaTexts = (object3D: THREE.Object3D, texts: Text[], callback: () => void): void => {
+  if (texts.length === 0) {
+    callback();
+    return;
+  }
+  let pendingTexts = texts.length;
+  const layout = new Promise<void>((resolve) =>
+    texts.forEach((text) =>
+      text.sync(() => {
+        pendingTexts--;
+        if (pendingTexts === 0) {
+          PENDING_TEXT_LAYOUTS.delete(object3D);
+          callback();
+          resolve();
+        }
+      })
+    )
+  );
+  PENDING_TEXT_LAYOUTS.set(object3D, layout);
+};
+
+// MTEXT and aligned, fit or underlined TEXT rendered with troika-three-text are completed asynchronously (MTEXT
+// groups are empty until then) => wait for them before the Object3Ds are measured, batched or serialized
+export const waitForTextLayouts = async (object3Ds: THREE.Object3D[]): Promise<void> => {
+  const layouts: Promise<void>[] = [];
+  object3Ds.forEach((object3D) =>
+    object3D.traverse((child) => {
+      const layout = PENDING_TEXT_LAYOUTS.get(child);
+      if (layout) {
+        layouts.push(layout);
+      }
+    })
+  );
+  await Promise.all(layouts);
+};
+
+// the size of troika texts is only known after synchronizing => aligned and fit texts are scaled afterwards
+const getTroikaText = (
+  entity: IExtendedTextEntity,
+  decoded: DecodedText,
+  properties: TextProperties,
+  fontUrl: string | undefined,
+  data: IDxf,
+  settings: ResolvedDxfToThreeSettings
+): THREE.Mesh => {
+  const textEnt = new Text();
+  textEnt.text = decoded.text;
+  if (fontUrl !== undefined) {
+    textEnt.font = fontUrl;
+  }
+  textEnt.fontSize = properties.height;
+  const { halign, valign } = properties;
+  textEnt.anchorX = halign === 1 || halign === TEXT_MIDDLE ? "center" : halign === 2 ? "right" : "left";
+  if (halign === TEXT_MIDDLE || valign === 2) {
+    textEnt.anchorY = "middle";
+  } else if (valign === 1) {
+    textEnt.anchorY = "bottom";
+  } else if (valign === 3) {
+    textEnt.anchorY = "top-cap";
+  } else {
+    textEnt.anchorY = "top-baseline";
+  }
+  textEnt.material = getMeshMaterial(entity, data, settings);
+  textEnt.rotation.z = (properties.rotation * Math.PI) / 180;
+  const mirrorX = properties.isBackward ? -1.0 : 1.0;
+  textEnt.scale.set(properties.widthFactor * mirrorX, properties.isUpsideDown ? -1.0 : 1.0, 1.0);
+  const hasDecorations = decoded.underlines.length > 0 || decoded.overlines.length > 0;
+  if (properties.length > 0.0 || hasDecorations) {
+    syncTroikaTexts(textEnt, [textEnt], () => {
+      const info = textEnt.textRenderInfo;
+      const getLineRanges = (start: number, end: number) => getTroikaTextLineRanges(textEnt, start, end);
+      const decorations = getTextDecorationGeometry(decoded, getLineRanges, info.fontSize, info.capHeight);
+      addTextDecorations(textEnt, decorations, entity, data, settings);
+      if (properties.length === 0.0) {
+        return;
+      }
+      const [minX, , maxX] = info.blockBounds;
+      const stretch = properties.length / ((maxX - minX) * properties.widthFactor);
+      textEnt.scale.x *= stretch;
+      if (properties.halign === TEXT_ALIGNED) {
+        textEnt.scale.y *= stretch;
+      }
+      textEnt.matrixAutoUpdate = true;
+      if (isProjectedOcs(entity, settings)) {
+        transformOcsObject3D(textEnt, entity, settings);
+      }
+      setObliqueAngle(textEnt, properties.obliqueAngle);
+    });
+  }
+  return textEnt;
+};
+
+const getText = (
+  entity: ITextEntity,
+  data: IDxf,
+  settings: ResolvedDxfToThreeSettings
+): THREE.Mesh | THREE.Line | LineSegments2 => {
+  const text = entity as IExtendedTextEntity;
+  const properties = getTextProperties(text, data, settings);
+  const decoded = decodeText(text.text, getTextEncoding(data));
+  const font = getTextFont(text.styleName, data, settings);
+  let object3D: THREE.Mesh | THREE.Line | LineSegments2;
+  if (font instanceof Font) {
+    object3D = getTextGeometryText(text, decoded, properties, font, data, settings);
+  } else if (isShxFont(font)) {
+    object3D = getShxText(text, decoded, properties, font, data, settings);
+  } else {
+    object3D = getTroikaText(text, decoded, properties, font, data, settings);
+  }
+  const scaleFactor = settings.scaleFactor;
+  // the text is positioned in the OCS
+  object3D.position.x = properties.position.x * scaleFactor;
+  object3D.position.y = properties.position.y * scaleFactor;
+  object3D.position.z = (properties.position.z || 0.0) * scaleFactor;
+  transformOcsObject3D(object3D, text, settings);
+  // the shear of troika texts (the geometries of the other fonts are sheared)
+  if (object3D instanceof Text) {
+    setObliqueAngle(object3D, properties.obliqueAngle);
+  }
+  return object3D;
+};
+
+// MTEXT
+// ------------------------
+// the runs of a paragraph become one troika text if they only differ in color and lines (=> troika wraps the
+// lines), otherwise every run (or word, if the lines are wrapped) and every stack gets its own text;
+// the sizes of troika texts are only known after synchronizing => the texts are positioned afterwards
+// (texts with SHX fonts are lines, their size is known immediately)
+
+const MTEXT_LINE_SPACING = 5.0 / 3.0; // distance of the baselines relative to the text height (AutoCAD)
+const MTEXT_STACK_SCALE = 0.7; // height of stacked texts relative to the text height
+const MTEXT_DEFAULT_TAB_SIZE = 4.0; // relative to the text height of the entity
+
+// under-/overlined or struck through range of the characters of a troika text
+interface MTextDecoration {
+  start: number;
+  end: number;
+  style: MTextStyle;
+}
+
+interface MTextPiece {
+  object3D: THREE.Object3D;
+  texts: Text[];
+  style: MTextStyle;
+  decorations: MTextDecoration[];
+  isSpace: boolean;
+  isTab: boolean;
+  // paragraph which is wrapped and indented by troika
+  isParagraph: boolean;
+  // set by measure after synchronizing, only pieces wrapped by troika have more than one line
+  // (the width includes trailing spaces, the visible width doesn't)
+  width: number;
+  visibleWidth: number;
+  lineCount: number;
+  measure: () => void;
+}
+
+interface MTextLine {
+  pieces: { piece: MTextPiece; x: number }[];
+  width: number;
+  height: number;
+  lineCount: number;
+}
+
+// colors of \C and \c replace the color of the entity
+const getMTextRunEntity = (entity: IMtextEntity, style: MTextStyle): IEntity => {
+  if (style.trueColor !== undefined) {
+    const runEntity = { ...entity, color: style.trueColor, trueColor: style.trueColor } as ITrueColorEntity;
+    delete (runEntity as Partial<IEntity>).colorIndex;
+    return runEntity;
+  }
+  if (style.colorIndex === undefined || style.colorIndex === COLOR_INDEX_BYBLOCK) {
+    return entity;
+  }
+  if (style.colorIndex === COLOR_INDEX_BYLAYER) {
+    return { ...entity, colorIndex: COLOR_INDEX_BYLAYER, trueColor: undefined } as ITrueColorEntity;
+  }
+  const color = getAciColor(style.colorIndex);
+  return { ...entity, colorIndex: style.colorIndex, color: color, trueColor: undefined } as ITrueColorEntity;
+};
+
+const isMTextFont = (font: DxfFont): font is string | ShxFont => !(font instanceof Font);
+
+// the font family of \f (e.g. "arial bold italic", "arial bold" and "arial") or the font of the text style
+// (undefined => troika's default font)
+const getMTextFont = (
+  style: MTextStyle,
+  entity: IExtendedMtextEntity,
+  data: IDxf,
+  settings: ResolvedDxfToThreeSettings
+): string | ShxFont | undefined => {
+  const names: string[] = [];
+  if (style.font) {
+    names.push(
+      style.font + (style.bold ? " bold" : "") + (style.italic ? " italic" : ""),
+      style.font + (style.bold ? " bold" : ""),
+      style.font
+    );
+  }
+  const font = findFont(names.concat(getTextStyleFontNames(entity.styleName, data)), settings, isMTextFont);
+  return font !== undefined ? font : settings.troikaFontUrl;
+};
+
+// the baseline of the first line is at y = 0 (stacks of SHX fonts are rendered with troikaFontUrl)
+const createMTextText = (
+  text: string,
+  style: MTextStyle,
+  height: number,
+  entity: IExtendedMtextEntity,
+  data: IDxf,
+  settings: ResolvedDxfToThreeSettings
+): Text => {
+  const textEnt = new Text();
+  textEnt.text = text;
+  const font = getMTextFont(style, entity, data, settings);
+  const fontUrl = isShxFont(font) ? settings.troikaFontUrl : font;
+  if (fontUrl !== undefined) {
+    textEnt.font = fontUrl;
+  }
+  textEnt.fontSize = height * settings.scaleFactor;
+  textEnt.anchorX = "left";
+  textEnt.anchorY = "top-baseline";
+  textEnt.lineHeight = MTEXT_LINE_SPACING * (entity.lineSpacingFactor || 1.0);
+  // tracking factor 1.0 => normal spacing (troika's letter spacing is given in multiples of the font size)
+  textEnt.letterSpacing = (style.tracking - 1.0) / 2.0;
+  textEnt.scale.x = style.widthFactor;
+  textEnt.material = getMeshMaterial(getMTextRunEntity(entity, style), data, settings);
+  return textEnt;
+};
+
+const hasMTextDecoration = (style: MTextStyle): boolean => style.underline || style.overline || style.strikeThrough;
+
+const measureMTextText = (piece: MTextPiece, text: Text): void => {
+  const info = text.textRenderInfo;
+  const [minX, minY, maxX, maxY] = info.blockBounds;
+  piece.lineCount = Math.max(1, Math.round((maxY - minY) / info.lineHeight));
+  piece.visibleWidth = (maxX - minX) * text.scale.x;
+  piece.width = piece.visibleWidth;
+  if (piece.lineCount === 1 && info.caretPositions && text.text.length > 0) {
+    // troika's bounds don't contain trailing spaces
+    piece.width = (info.caretPositions[(text.text.length - 1) * 3 + 1] - minX) * text.scale.x;
+  }
+};
+
+const createMTextTextPiece = (
+  text: string,
+  style: MTextStyle,
+  entity: IExtendedMtextEntity,
+  data: IDxf,
+  settings: ResolvedDxfToThreeSettings
+): MTextPiece => {
+  const textEnt = createMTextText(text, style, style.height, entity, data, settings);
+  const piece: MTextPiece = {
+    object3D: textEnt,
+    texts: [textEnt],
+    style: style,
+    decorations: hasMTextDecoration(style) ? [{ start: 0, end: text.length, style: style }] : [],
+    isSpace: text.trim().length === 0,
+    isTab: false,
+    isParagraph: false,
+    width: 0.0,
+    visibleWidth: 0.0,
+    lineCount: 1,
+    measure: () => measureMTextText(piece, textEnt),
+  };
+  return piece;
+};
+
+// SHX texts are drawn as lines including their under-/overlines
+const createMTextShxPiece = (
+  text: string,
+  style: MTextStyle,
+  font: ShxFont,
+  entity: IExtendedMtextEntity,
+  data: IDxf,
+  settings: ResolvedDxfToThreeSettings
+): MTextPiece => {
+  const height = style.height * settings.scaleFactor;
+  const letterSpacing = (style.tracking - 1.0) / 2.0;
+  const { positions, width } = getShxTextPositions(text, font, height, letterSpacing);
+  const offsets: number[] = [];
+  if (style.underline) offsets.push(-0.2 * height);
+  if (style.strikeThrough) offsets.push(height / 2.0);
+  if (style.overline) offsets.push(1.2 * height);
+  offsets.forEach((offset) => positions.push(0.0, offset, 0.0, width, offset, 0.0));
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute("position", new THREE.Float32BufferAttribute(positions, 3));
+  const lineEntity = { ...getMTextRunEntity(entity, style), lineType: "CONTINUOUS" } as IEntity;
+  const line = createLine(geometry, lineEntity, data, settings, true);
+  line.scale.x = style.widthFactor;
+  const visibleWidth = getShxTextPositions(text.trimEnd(), font, height, letterSpacing).width;
+  return {
+    object3D: line,
+    texts: [],
+    style: style,
+    decorations: [],
+    isSpace: text.trim().length === 0,
+    isTab: false,
+    isParagraph: false,
+    width: width * style.widthFactor,
+    visibleWidth: visibleWidth * style.widthFactor,
+    lineCount: 1,
+    measure: () => {},
+  };
+};
+
+// paragraph which is wrapped and aligned by troika, the colors of the runs are given as color ranges
+const createMTextParagraphPiece = (
+  paragraph: MTextParagraph,
+  maxWidth: number,
+  entity: IExtendedMtextEntity,
+  data: IDxf,
+  settings: ResolvedDxfToThreeSettings
+): MTextPiece => {
+  const runs = paragraph.runs as MTextTextRun[];
+  const style = runs[0].style;
+  const textEnt = createMTextText(runs.map((run) => run.text).join(""), style, style.height, entity, data, settings);
+  const scaleFactor = settings.scaleFactor;
+  if (isFinite(maxWidth)) {
+    textEnt.maxWidth = maxWidth / style.widthFactor;
+  }
+  textEnt.textIndent = (paragraph.style.indent * entity.height * scaleFactor) / style.widthFactor;
+  textEnt.textAlign = paragraph.style.alignment;
+
+  const decorations: MTextDecoration[] = [];
+  const colorRanges: Record<number, number> = {};
+  const entityColor = getColor(entity, data, settings);
+  let start = 0;
+  for (const run of runs) {
+    const color = settings.defaultColor
+      ? settings.defaultColor
+      : getColor(getMTextRunEntity(entity, run.style), data, settings);
+    if (color !== entityColor || Object.keys(colorRanges).length > 0) {
+      colorRanges[start] = color;
+    }
+    if (hasMTextDecoration(run.style)) {
+      decorations.push({ start: start, end: start + run.text.length, style: run.style });
+    }
+    start += run.text.length;
+  }
+  if (Object.keys(colorRanges).length > 0 && !settings.defaultColor) {
+    colorRanges[0] = colorRanges[0] !== undefined ? colorRanges[0] : entityColor;
+    textEnt.colorRanges = colorRanges;
+  }
+
+  const piece: MTextPiece = {
+    object3D: textEnt,
+    texts: [textEnt],
+    style: style,
+    decorations: decorations,
+    isSpace: false,
+    isTab: false,
+    isParagraph: true,
+    width: 0.0,
+    visibleWidth: 0.0,
+    lineCount: 1,
+    measure: () => measureMTextText(piece, textEnt),
+  };
+  return piece;
+};
+
+// stacked texts at MTEXT_STACK_SCALE of the text height: above each other or side by side separated by a slash
+const createMTextStackPiece = (
+  run: MTextStackRun,
+  entity: IExtendedMtextEntity,
+  data: IDxf,
+  settings: ResolvedDxfToThreeSettings
+): MTextPiece => {
+  const height = run.style.height * settings.scaleFactor;
+  const stackStyle = { ...run.style, widthFactor: 1.0 };
+  const upper = createMTextText(run.upper, stackStyle, run.style.height * MTEXT_STACK_SCALE, entity, data, settings);
+  const lower = createMTextText(run.lower, stackStyle, run.style.height * MTEXT_STACK_SCALE, entity, data, settings);
+  const group = new THREE.Group();
+  group.add(upper, lower);
+  group.scale.x = run.style.widthFactor;
+
+  const piece: MTextPiece = {
+    object3D: group,
+    texts: [upper, lower],
+    style: run.style,
+    decorations: [],
+    isSpace: false,
+    isTab: false,
+    isParagraph: false,
+    width: 0.0,
+    visibleWidth: 0.0,
+    lineCount: 1,
+    measure: () => {
+      const getWidth = (text: Text): number => text.textRenderInfo.blockBounds[2] - text.textRenderInfo.blockBounds[0];
+      const upperWidth = getWidth(upper);
+      const lowerWidth = getWidth(lower);
+      const capHeight = lower.textRenderInfo.capHeight;
+      const barY = height * 0.4;
+      const points: THREE.Vector3[] = [];
+      let width = Math.max(upperWidth, lowerWidth);
+      if (run.stackType === "#") {
+        const slashWidth = capHeight;
+        upper.position.set(0.0, barY - capHeight / 2.0, 0.0);
+        lower.position.set(upperWidth + slashWidth, 0.0, 0.0);
+        points.push(new THREE.Vector3(upperWidth, -0.1 * height, 0.0));
+        points.push(new THREE.Vector3(upperWidth + slashWidth, height, 0.0));
+        width = upperWidth + slashWidth + lowerWidth;
+      } else {
+        const gap = run.stackType === "/" ? 0.15 * height : 0.1 * height;
+        upper.position.set((width - upperWidth) / 2.0, barY + gap, 0.0);
+        lower.position.set((width - lowerWidth) / 2.0, barY - gap - capHeight, 0.0);
+        if (run.stackType === "/") {
+          points.push(new THREE.Vector3(0.0, barY, 0.0), new THREE.Vector3(width, barY, 0.0));
+        }
+      }
+      if (points.length > 0) {
+        const lineEntity = { ...getMTextRunEntity(entity, run.style), lineType: "CONTINUOUS" } as IEntity;
+        group.add(createLine(new THREE.BufferGeometry().setFromPoints(points), lineEntity, data, settings, true));
+      }
+      piece.width = width * run.style.widthFactor;
+      piece.visibleWidth = piece.width;
+    },
+  };
+  return piece;
+};
+
+const createMTextTabPiece = (run: MTextTabRun): MTextPiece => ({
+  object3D: new THREE.Object3D(),
+  texts: [],
+  style: run.style,
+  decorations: [],
+  isSpace: true,
+  isTab: true,
+  isParagraph: false,
+  width: 0.0,
+  visibleWidth: 0.0,
+  lineCount: 1,
+  measure: () => {},
+});
+
+// a paragraph is wrapped by troika if all of its runs have the same font, size, oblique angle, tracking and alignment
+const isUniformMTextParagraph = (paragraph: MTextParagraph): boolean => {
+  const getKey = (style: MTextStyle): string =>
+    [style.font, style.bold, style.italic, style.height, style.widthFactor]
+      .concat([style.obliqueAngle, style.tracking, style.alignment])
+      .join("|");
+  const key = paragraph.runs.length > 0 ? getKey(paragraph.runs[0].style) : "";
+  return paragraph.runs.every((run) => run.type === "text" && getKey(run.style) === key);
+};
+
+const createMTextPieces = (
+  paragraph: MTextParagraph,
+  maxWidth: number,
+  entity: IExtendedMtextEntity,
+  data: IDxf,
+  settings: ResolvedDxfToThreeSettings
+): MTextPiece[] => {
+  if (paragraph.runs.length === 0) {
+    return [];
+  }
+  const getFont = (style: MTextStyle) => getMTextFont(style, entity, data, settings);
+  if (isUniformMTextParagraph(paragraph) && !isShxFont(getFont(paragraph.runs[0].style))) {
+    return [createMTextParagraphPiece(paragraph, maxWidth, entity, data, settings)];
+  }
+  const pieces: MTextPiece[] = [];
+  for (const run of paragraph.runs) {
+    if (run.type === "tab") {
+      pieces.push(createMTextTabPiece(run));
+    } else if (run.type === "stack") {
+      pieces.push(createMTextStackPiece(run, entity, data, settings));
+    } else {
+      // lines can only be wrapped between the pieces
+      const words = isFinite(maxWidth) ? run.text.match(/\S+\s*|\s+/g) || [] : [run.text];
+      const font = getFont(run.style);
+      words.forEach((word) =>
+        pieces.push(
+          isShxFont(font)
+            ? createMTextShxPiece(word, run.style, font, entity, data, settings)
+            : createMTextTextPiece(word, run.style, entity, data, settings)
+        )
+      );
+    }
+  }
+  return pieces;
+};
+
+const getMTextLines = (
+  paragraph: MTextParagraph,
+  pieces: MTextPiece[],
+  maxWidth: number,
+  entity: IExtendedMtextEntity,
+  settings: ResolvedDxfToThreeSettings
+): MTextLine[] => {
+  const scaleFactor = settings.scaleFactor;
+  const entityHeight = entity.height * scaleFactor;
+  const left = paragraph.style.left * entityHeight;
+  const emptyLine = (): MTextLine => ({ pieces: [], width: 0.0, height: 0.0, lineCount: 1 });
+  const lines = [emptyLine()];
+  // the indent of paragraphs wrapped by troika is its text indent
+  let x = pieces.length === 1 && pieces[0].isParagraph ? 0.0 : paragraph.style.indent * entityHeight;
+  for (const piece of pieces) {
+    let line = lines[lines.length - 1];
+    if (piece.isTab) {
+      // tab stops are measured from the left side of the text
+      const tabs = paragraph.style.tabs.map((tab) => tab * entityHeight - left).filter((tab) => tab > x + 1e-9);
+      const tabSize = MTEXT_DEFAULT_TAB_SIZE * entityHeight;
+      x = tabs.length > 0 ? tabs[0] : (Math.floor((x + left) / tabSize) + 1) * tabSize - left;
+      continue;
+    }
+    if (line.pieces.length > 0 && !piece.isSpace && x + piece.visibleWidth > maxWidth) {
+      line = emptyLine();
+      lines.push(line);
+      x = 0.0;
+    }
+    if (line.pieces.length === 0 && piece.isSpace && lines.length > 1) {
+      continue;
+    }
+    line.pieces.push({ piece: piece, x: x });
+    if (!piece.isSpace) {
+      line.width = x + piece.visibleWidth;
+    }
+    x += piece.width;
+    line.height = Math.max(line.height, piece.style.height * scaleFactor);
+    line.lineCount = Math.max(line.lineCount, piece.lineCount);
+  }
+  lines.forEach((line) => line.height === 0.0 && (line.height = paragraph.height * scaleFactor));
+  return lines;
+};
+
+// lines along the characters of the decorated ranges, split where troika wraps the text
+const addMTextDecorations = (
+  content: THREE.Group,
+  piece: MTextPiece,
+  entity: IExtendedMtextEntity,
+  data: IDxf,
+  settings: ResolvedDxfToThreeSettings
+): void => {
+  const text = piece.texts[0];
+  const info = text.textRenderInfo;
+  if (text.matrixAutoUpdate) {
+    text.updateMatrix();
+  }
+  for (const decoration of piece.decorations) {
+    const offsets: number[] = [];
+    if (decoration.style.underline) offsets.push(-0.2 * info.fontSize);
+    if (decoration.style.strikeThrough) offsets.push(info.capHeight / 2.0);
+    if (decoration.style.overline) offsets.push(info.capHeight + 0.2 * info.fontSize);
+    const points: THREE.Vector3[] = [];
+    for (const [start, end, baseline] of getTroikaTextLineRanges(text, decoration.start, decoration.end)) {
+      offsets.forEach((offset) =>
+        points.push(
+          new THREE.Vector3(start, baseline + offset, 0.0).applyMatrix4(text.matrix),
+          new THREE.Vector3(end, baseline + offset, 0.0).applyMatrix4(text.matrix)
+        )
+      );
+    }
+    if (points.length > 0) {
+      const lineEntity = { ...getMTextRunEntity(entity, decoration.style), lineType: "CONTINUOUS" } as IEntity;
+      content.add(createLine(new THREE.BufferGeometry().setFromPoints(points), lineEntity, data, settings, true));
+    }
+  }
+};
+
+// positions all pieces once they are measured; the top left corner of the first column is at the origin
+const layoutMText = (
+  content: THREE.Group,
+  columns: MTextPiece[][][],
+  paragraphs: MTextParagraph[][],
+  entity: IExtendedMtextEntity,
+  data: IDxf,
+  settings: ResolvedDxfToThreeSettings
+): void => {
+  const scaleFactor = settings.scaleFactor;
+  const entityHeight = entity.height * scaleFactor;
+  const columnWidth = (entity.columnWidth || entity.width || 0.0) * scaleFactor;
+  const gutter = (entity.columnGutter || 0.0) * scaleFactor;
+  const lineSpacing = MTEXT_LINE_SPACING * (entity.lineSpacingFactor || 1.0);
+
+  // dynamic columns: lines which don't fit into a column flow into the next one
+  const columnHeight = (column: number): number => {
+    const height = entity.columnHeights[column] || entity.definedHeight;
+    return entity.columnType === 2 && height ? height * scaleFactor : Infinity;
+  };
+
+  let column = 0;
+  let columnX = 0.0;
+  let contentWidth = 0.0;
+  let contentHeight = 0.0;
+  columns.forEach((columnPieces, columnIndex) => {
+    let y: number | undefined = undefined;
+    const columnLines: { line: MTextLine; paragraph: MTextParagraph; x: number; y: number }[] = [];
+    let usedWidth = 0.0;
+    columnPieces.forEach((pieces, paragraphIndex) => {
+      const paragraph = paragraphs[columnIndex][paragraphIndex];
+      const margins = (paragraph.style.left + paragraph.style.right) * entityHeight;
+      const maxWidth = columnWidth > 0.0 ? columnWidth - margins : Infinity;
+      pieces.forEach((piece) => piece.measure());
+      for (const line of getMTextLines(paragraph, pieces, maxWidth, entity, settings)) {
+        let baseline: number = y === undefined ? -line.height : y - lineSpacing * line.height;
+        if (y !== undefined && -baseline > columnHeight(column)) {
+          column++;
+          columnX += columnWidth + gutter;
+          baseline = -line.height;
+        }
+        columnLines.push({ line: line, paragraph: paragraph, x: columnX, y: baseline });
+        y = baseline - (line.lineCount - 1) * lineSpacing * line.height;
+        usedWidth = Math.max(usedWidth, paragraph.style.left * entityHeight + line.width);
+        contentHeight = Math.max(contentHeight, -y);
+      }
+    });
+
+    // without a width the paragraphs are aligned relative to the widest line
+    const alignmentWidth = columnWidth > 0.0 ? columnWidth : usedWidth;
+    for (const { line, paragraph, x, y } of columnLines) {
+      const left = paragraph.style.left * entityHeight;
+      const free = alignmentWidth - left - paragraph.style.right * entityHeight - line.width;
+      const offset =
+        paragraph.style.alignment === "center" ? free / 2.0 : paragraph.style.alignment === "right" ? free : 0.0;
+      for (const { piece, x: pieceX } of line.pieces) {
+        // \A: characters smaller than the line are aligned at the bottom, center or top of the line
+        const alignmentY = (piece.style.alignment * (line.height - piece.style.height * scaleFactor)) / 2.0;
+        piece.object3D.position.set(x + left + Math.max(offset, 0.0) + pieceX, y + alignmentY, 0.0);
+        setObliqueAngle(piece.object3D, piece.style.obliqueAngle);
+        if (!piece.isTab) {
+          content.add(piece.object3D);
+        }
+        if (piece.decorations.length > 0) {
+          addMTextDecorations(content, piece, entity, data, settings);
+        }
+      }
+    }
+    contentWidth = Math.max(contentWidth, columnX + alignmentWidth);
+    column++;
+    columnX += (columnWidth > 0.0 ? columnWidth : usedWidth) + gutter;
+  });
+
+  // attachment point: 1-3 = top, 4-6 = middle, 7-9 = bottom and left, center, right
+  const attachment = entity.attachmentPoint - 1;
+  content.position.x = -((attachment % 3) * contentWidth) / 2.0;
+  content.position.y = (Math.floor(attachment / 3) * contentHeight) / 2.0;
+};
+
+const getMtext = (entity: IMtextEntity, data: IDxf, settings: ResolvedDxfToThreeSettings): THREE.Group | null => {
+  let mtext = entity as IExtendedMtextEntity;
+  if (!mtext.text) {
+    reportDiagnostic("warning", "text of entity is empty => ignoring it");
+    return null;
+  }
+  if (!(mtext.attachmentPoint >= 1 && mtext.attachmentPoint <= 9)) {
+    reportDiagnostic("error", "unknown attachment point for text => ignoring it");
+    return null;
+  }
+  if (!mtext.columnHeights) {
+    // MTEXT parsed by dxf-parser or created for other entities (the entity of the caller is not changed)
+    mtext = { ...mtext, columnHeights: [] };
+  }
+
+  const scaleFactor = settings.scaleFactor;
+  const group = new THREE.Group();
+  group.position.x = mtext.position.x * scaleFactor;
+  group.position.y = mtext.position.y * scaleFactor;
+  group.position.z = (settings.setAllZsToZero ? 0.0 : mtext.position.z || 0.0) * scaleFactor;
+  if (mtext.rotation) {
+    group.rotation.z = (mtext.rotation * Math.PI) / 180;
+  }
+  if (mtext.directionVector) {
+    group.rotation.z = Math.atan2(mtext.directionVector.y, mtext.directionVector.x);
+  }
+  if (mtext.extrusionDirection) {
+    // the text lies in the plane of its normal, its x axis is the direction vector (WCS) or the rotated x axis
+    // of the OCS
+    const ocsToWcs = getOcsToWcsMatrix(mtext.extrusionDirection);
+    const zAxis = new THREE.Vector3().setFromMatrixColumn(ocsToWcs, 2);
+    const xAxis = mtext.directionVector
+      ? new THREE.Vector3(mtext.directionVector.x, mtext.directionVector.y, mtext.directionVector.z || 0.0)
+      : new THREE.Vector3(Math.cos(group.rotation.z), Math.sin(group.rotation.z), 0.0).applyMatrix4(ocsToWcs);
+    xAxis.projectOnPlane(zAxis).normalize();
+    const yAxis = zAxis.clone().cross(xAxis);
+    group.quaternion.setFromRotationMatrix(new THREE.Matrix4().makeBasis(xAxis, yAxis, zAxis));
+  }
+  const content = new THREE.Group();
+  group.add(content);
+
+  const columnWidth = (mtext.columnWidth || mtext.width || 0.0) * scaleFactor;
+  const columns = parseMText(mtext.text, mtext.height, getTextEncoding(data));
+  const paragraphs = columns.map((column) => column.paragraphs);
+  const pieces = paragraphs.map((columnParagraphs) =>
+    columnParagraphs.map((paragraph) => {
+      const margins = (paragraph.style.left + paragraph.style.right) * mtext.height * scaleFactor;
+      return createMTextPieces(paragraph, columnWidth > 0.0 ? columnWidth - margins : Infinity, mtext, data, settings);
+    })
+  );
+
+  if (pieces.flat(2).length === 0) {
+    return null;
+  }
+  const texts = pieces.flat(2).flatMap((piece) => piece.texts);
+  syncTroikaTexts(group, texts, () => layoutMText(content, pieces, paragraphs, mtext, data, settings));
+  return group;
+};
+
+const addTriangleFacingCamera = (
+  verts: THREE.Vector3[],
+  p0: THREE.Vector3,
+  p1: THREE.Vector3,
+  p2: THREE.Vector3
+): void => {
+  // Calculate which direction the points are facing (clockwise or counter-clockwise)
+  var vector1 = new THREE.Vector3();
+  var vector2 = new THREE.Vector3();
+  vector1.subVectors(p1, p0);
+  vector2.subVectors(p2, p0);
+  vector1.cross(vector2);
+
+  var v0 = new THREE.Vector3(p0.x, p0.y, p0.z);
+  var v1 = new THREE.Vector3(p1.x, p1.y, p1.z);
+  var v2 = new THREE.Vector3(p2.x, p2.y, p2.z);
+
+  // If z < 0 then we must draw these in reverse order
+  if (vector1.z < 0) {
+    verts.push(v2, v1, v0);
+  } else verts.push(v0, v1, v2);
+};
+
+const getSolid = (entity: ISolidEntity, data: IDxf, settings: ResolvedDxfToThreeSettings): THREE.Mesh => {
+  const geometry = new THREE.BufferGeometry();
+  const scaleFactor = settings.scaleFactor;
+  // the points are given in the OCS
+  var points = entity.points;
+  // verts = geometry.vertices;
+  const verts: THREE.Vector3[] = [];
+  const point0 = new THREE.Vector3(
+    points[0].x * scaleFactor,
+    points[0].y * scaleFactor,
+    (points[0].z || 0.0) * scaleFactor
+  );
+  const point1 = new THREE.Vector3(
+    points[1].x * scaleFactor,
+    points[1].y * scaleFactor,
+    (points[1].z || 0.0) * scaleFactor
+  );
+  const point2 = new THREE.Vector3(
+    points[2].x * scaleFactor,
+    points[2].y * scaleFactor,
+    (points[2].z || 0.0) * scaleFactor
+  );
+  addTriangleFacingCamera(verts, point0, point1, point2);
+  if (points.length > 3) {
+    const point3 = new THREE.Vector3(
+      points[3].x * scaleFactor,
+      points[3].y * scaleFactor,
+      (points[3].z || 0.0) * scaleFactor
+    );
+    addTriangleFacingCamera(verts, point1, point2, point3);
+  }
+  geometry.setFromPoints(verts);
+  transformOcsMesh(geometry, entity, settings);
+  const material = getMeshMaterial(entity, data, settings);
+  return new THREE.Mesh(geometry, material);
+};
+
+// hatches
+// ------------------------
+
+const getHatchEdgePoints = (edge: IHatchEdge, settings: ResolvedDxfToThreeSettings): THREE.Vector2[] => {
+  const scaleFactor = settings.scaleFactor;
+  if (edge.type === "line") {
+    return [
+      new THREE.Vector2(edge.start.x * scaleFactor, edge.start.y * scaleFactor),
+      new THREE.Vector2(edge.end.x * scaleFactor, edge.end.y * scaleFactor),
+    ];
+  } else if (edge.type === "arc" || edge.type === "ellipse") {
+    // clockwise edges store their angles mirrored at the x-axis
+    let startAngle = (edge.startAngle * Math.PI) / 180;
+    let endAngle = (edge.endAngle * Math.PI) / 180;
+    if (edge.isCounterClockwise) {
+      while (endAngle <= startAngle) endAngle += 2 * Math.PI;
+    } else {
+      startAngle = -startAngle;
+      endAngle = -endAngle;
+      while (endAngle >= startAngle) endAngle -= 2 * Math.PI;
+    }
+
+    const center = new THREE.Vector2(edge.center.x * scaleFactor, edge.center.y * scaleFactor);
+    let majorAxis: THREE.Vector2;
+    let minorAxis: THREE.Vector2;
+    if (edge.type === "arc") {
+      majorAxis = new THREE.Vector2(edge.radius * scaleFactor, 0.0);
+      minorAxis = new THREE.Vector2(0.0, edge.radius * scaleFactor);
+    } else {
+      majorAxis = new THREE.Vector2(edge.majorAxisEndPoint.x * scaleFactor, edge.majorAxisEndPoint.y * scaleFactor);
+      minorAxis = new THREE.Vector2(-majorAxis.y * edge.axisRatio, majorAxis.x * edge.axisRatio);
+    }
+
+    // approximate the arc length by the one of the circle with the major radius
+    const radialArcLength = Math.abs(endAngle - startAngle);
+    const numberOfPoints =
+      settings.chordalTolerance !== undefined
+        ? getChordalNumberOfSegments(majorAxis.length(), radialArcLength, settings)
+        : getArcNumberOfPoints(radialArcLength * majorAxis.length(), radialArcLength, settings);
+    const points: THREE.Vector2[] = [];
+    for (let i = 0; i <= numberOfPoints; i++) {
+      const angle = startAngle + ((endAngle - startAngle) * i) / numberOfPoints;
+      points.push(
+        center.clone().addScaledVector(majorAxis, Math.cos(angle)).addScaledVector(minorAxis, Math.sin(angle))
+      );
+    }
+    return points;
+  } else {
+    return getNurbsPoints(
+      {
+        degree: edge.degree,
+        controlPoints: edge.controlPoints,
+        knots: edge.knotValues,
+        weights: edge.rational ? edge.weights : undefined,
+        periodic: edge.periodic,
+        fitPoints: edge.fitPoints,
+        startTangent: edge.startTangent,
+        endTangent: edge.endTangent,
+      },
+      settings
+    ).map((point) => new THREE.Vector2(point.x, point.y));
+  }
+};
+
+const getHatchBoundaryLoops = (entity: IHatchEntity, settings: ResolvedDxfToThreeSettings): THREE.Vector2[][] => {
+  const scaleFactor = settings.scaleFactor;
+  const loops: THREE.Vector2[][] = [];
+  for (const path of entity.boundaryPaths) {
+    const loop: THREE.Vector2[] = [];
+    if (path.polyline) {
+      const vertices = path.polyline;
+      for (let i = 0; i < vertices.length; i++) {
+        const vertex = vertices[i];
+        if (vertex.bulge !== 0.0) {
+          const nextVertex = vertices[(i + 1) % vertices.length];
+          const bulgePoints = getBulgeCurvePoints2d(vertex, nextVertex, vertex.bulge, settings);
+          bulgePoints.forEach((point) => loop.push(new THREE.Vector2(point.x, point.y)));
+        } else {
+          loop.push(new THREE.Vector2(vertex.x * scaleFactor, vertex.y * scaleFactor));
+        }
+      }
+    } else if (path.edges) {
+      for (const edge of path.edges) {
+        for (const point of getHatchEdgePoints(edge, settings)) {
+          if (loop.length === 0 || !loop[loop.length - 1].equals(point)) {
+            loop.push(point);
+          }
+        }
+      }
+    }
+    if (loop.length > 1 && loop[0].distanceTo(loop[loop.length - 1]) < 1e-9 * scaleFactor) {
+      loop.pop();
+    }
+    if (loop.length >= 3) {
+      loops.push(loop);
+    }
+  }
+  return loops;
+};
+
+const isPointInPolygon2d = (point: THREE.Vector2, polygon: THREE.Vector2[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const pi = polygon[i];
+    const pj = polygon[j];
+    if (pi.y > point.y !== pj.y > point.y && point.x < ((pj.x - pi.x) * (point.y - pi.y)) / (pj.y - pi.y) + pi.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+const getHatchSolidGeometry = (loops: THREE.Vector2[][], depths: number[], z: number): THREE.BufferGeometry => {
+  const positions: number[] = [];
+  const indices: number[] = [];
+  for (let i = 0; i < loops.length; i++) {
+    // every loop with an even depth is filled, its direct children are its holes
+    if (depths[i] % 2 !== 0) continue;
+    let contour = loops[i].slice();
+    if (THREE.ShapeUtils.isClockWise(contour)) contour.reverse();
+    const holes: THREE.Vector2[][] = [];
+    for (let j = 0; j < loops.length; j++) {
+      if (depths[j] === depths[i] + 1 && isPointInPolygon2d(loops[j][0], loops[i])) {
+        const hole = loops[j].slice();
+        if (!THREE.ShapeUtils.isClockWise(hole)) hole.reverse();
+        holes.push(hole);
+      }
+    }
+
+    const offset = positions.length / 3;
+    const faces = THREE.ShapeUtils.triangulateShape(contour, holes);
+    [contour, ...holes].forEach((points) => points.forEach((point) => positions.push(point.x, point.y, z)));
+    faces.forEach((face) => indices.push(face[0] + offset, face[1] + offset, face[2] + offset));
+  }
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute("position", new THREE.Float32BufferAttribute(positions, 3));
+  geometry.setIndex(indices);
+  return geometry;
+};
+
+const getHatchPatternLines = (entity: IHatchEntity): IHatchPatternLine[] => {
+  // pattern lines stored in the DXF are already rotated and scaled
+  if (entity.patternLines.length > 0) {
+    return entity.patternLines;
+  }
+
+  const rotate = (x: number, y: number, angle: number) => {
+    const radians = (angle * Math.PI) / 180;
+    return {
+      x: x * Math.cos(radians) - y * Math.sin(radians),
+      y: x * Math.sin(radians) + y * Math.cos(radians),
+      z: 0.0,
+    };
+  };
+
+  const patternLines: IHatchPatternLine[] = [];
+  if (entity.patternType === 0) {
+    // user-defined: parallel lines with the pattern scale as spacing
+    const angles = entity.patternDouble ? [entity.patternAngle, entity.patternAngle + 90] : [entity.patternAngle];
+    for (const angle of angles) {
+      patternLines.push({
+        angle: angle,
+        basePoint: { x: 0.0, y: 0.0, z: 0.0 },
+        offset: rotate(0.0, entity.patternScale, angle),
+        dashes: [],
+      });
+    }
+    return patternLines;
+  }
+
+  const definition = PREDEFINED_HATCH_PATTERNS[entity.patternName.toUpperCase()];
+  if (definition === undefined) {
+    reportDiagnostic("warning", "Unsupported hatch pattern: " + entity.patternName);
+    return patternLines;
+  }
+  const scale = entity.patternScale;
+  for (const line of definition) {
+    const angle = line[0] + entity.patternAngle;
+    patternLines.push({
+      angle: angle,
+      basePoint: rotate(line[1] * scale, line[2] * scale, entity.patternAngle),
+      offset: rotate(line[3] * scale, line[4] * scale, angle),
+      dashes: line.slice(5).map((dash) => dash * scale),
+    });
+  }
+  return patternLines;
+};
+
+const getHatchPatternGeometry = (
+  patternLines: IHatchPatternLine[],
+  loops: THREE.Vector2[][],
+  z: number,
+  scaleFactor: number
+): THREE.BufferGeometry | null => {
+  const boundingBox = new THREE.Box2();
+  loops.forEach((loop) => loop.forEach((point) => boundingBox.expandByPoint(point)));
+  const corners = [
+    boundingBox.min,
+    boundingBox.max,
+    new THREE.Vector2(boundingBox.min.x, boundingBox.max.y),
+    new THREE.Vector2(boundingBox.max.x, boundingBox.min.y),
+  ];
+
+  const positions: number[] = [];
+  let numberOfLines = 0;
+  for (const patternLine of patternLines) {
+    const radians = (patternLine.angle * Math.PI) / 180;
+    const direction = new THREE.Vector2(Math.cos(radians), Math.sin(radians));
+    const normal = new THREE.Vector2(-direction.y, direction.x);
+    const basePoint = new THREE.Vector2(patternLine.basePoint.x * scaleFactor, patternLine.basePoint.y * scaleFactor);
+    const offset = new THREE.Vector2(patternLine.offset.x * scaleFactor, patternLine.offset.y * scaleFactor);
+    const dashes = patternLine.dashes.map((dash) => dash * scaleFactor);
+    const patternLength = dashes.reduce((sum, dash) => sum + Math.abs(dash), 0.0);
+
+    // find all parallel lines (base point + k * offset) crossing the bounding box
+    const spacing = offset.dot(normal);
+    if (Math.abs(spacing) < 1e-9 * scaleFactor) continue;
+    const ks = corners.map((corner) => corner.clone().sub(basePoint).dot(normal) / spacing);
+    const kMin = Math.ceil(Math.min(...ks));
+    const kMax = Math.floor(Math.max(...ks));
+    numberOfLines += kMax - kMin + 1;
+    if (numberOfLines > MAX_HATCH_PATTERN_LINES) {
+      reportDiagnostic("warning", "hatch pattern too dense => ignoring it");
+      return null;
+    }
+
+    for (let k = kMin; k <= kMax; k++) {
+      const origin = basePoint.clone().addScaledVector(offset, k);
+
+      // intersect the line with all boundaries (even-odd rule)
+      const ts: number[] = [];
+      for (const loop of loops) {
+        for (let i = 0; i < loop.length; i++) {
+          const a = loop[i];
+          const b = loop[(i + 1) % loop.length];
+          const da = a.clone().sub(origin).dot(normal);
+          const db = b.clone().sub(origin).dot(normal);
+          if (da >= 0 !== db >= 0) {
+            const intersection = a.clone().lerp(b, da / (da - db));
+            ts.push(intersection.sub(origin).dot(direction));
+          }
+        }
+      }
+      ts.sort((t1, t2) => t1 - t2);
+
+      for (let i = 0; i + 1 < ts.length; i += 2) {
+        const tStart = ts[i];
+        const tEnd = ts[i + 1];
+        if (dashes.length === 0 || patternLength < 1e-9 * scaleFactor) {
+          positions.push(...origin.clone().addScaledVector(direction, tStart).toArray(), z);
+          positions.push(...origin.clone().addScaledVector(direction, tEnd).toArray(), z);
+          continue;
+        }
+
+        // the dash pattern starts at the origin of the line; dots can't be drawn as segments
+        let position = Math.floor(tStart / patternLength) * patternLength;
+        while (position < tEnd) {
+          for (const dash of dashes) {
+            const dashStart = Math.max(position, tStart);
+            const dashEnd = Math.min(position + Math.abs(dash), tEnd);
+            if (dash > 0 && dashStart < dashEnd) {
+              positions.push(...origin.clone().addScaledVector(direction, dashStart).toArray(), z);
+              positions.push(...origin.clone().addScaledVector(direction, dashEnd).toArray(), z);
+            }
+            position += Math.abs(dash);
+          }
+        }
+      }
+    }
+  }
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute("position", new THREE.Float32BufferAttribute(positions, 3));
+  return geometry;
+};
+
+const getHatch = (
+  entity: IHatchEntity,
+  data: IDxf,
+  settings: ResolvedDxfToThreeSettings
+): THREE.Mesh | THREE.Line | LineSegments2 | null => {
+  // the boundary is given in the OCS at the elevation of the hatch
+  const scaleFactor = settings.scaleFactor;
+  const z = (entity.elevationPoint.z || 0.0) * scaleFactor;
+  const loops = getHatchBoundaryLoops(entity, settings);
+  if (loops.length === 0) {
+    reportDiagnostic("error", "hatch without boundary => ignoring it");
+    return null;
+  }
+
+  // nesting depth of every loop; the hatch style decides which islands are used
+  const maxDepth = entity.hatchStyle === 2 ? 0 : entity.hatchStyle === 1 ? 1 : Infinity;
+  let depths = loops.map((loop, i) => loops.filter((other, j) => i !== j && isPointInPolygon2d(loop[0], other)).length);
+  const usedLoops = loops.filter((_, i) => depths[i] <= maxDepth);
+  depths = depths.filter((depth) => depth <= maxDepth);
+
+  if (entity.solidFill || entity.gradientFill) {
+    const geometry = getHatchSolidGeometry(usedLoops, depths, z);
+    transformOcsMesh(geometry, entity, settings);
+    const material = getMeshMaterial(entity, data, settings);
+    return new THREE.Mesh(geometry, material);
+  } else {
+    const geometry = getHatchPatternGeometry(getHatchPatternLines(entity), usedLoops, z, scaleFactor);
+    if (!geometry) {
+      return null;
+    }
+    geometry.applyMatrix4(getEntityOcsToWcsMatrix(entity, settings.setAllZsToZero));
+    return createLine(geometry, entity, data, settings, true);
+  }
+};
+
+// children of a block on layer "0" or with BYBLOCK color/linetype inherit these properties from the insert
+const inheritFromInsert = (entity: IEntity, insert: IInsertEntity, data: IDxf): IEntity => {
+  const inherited = { ...entity };
+  if (entity.layer === "0") {
+    inherited.layer = insert.layer;
+  }
+  if (entity.colorIndex === COLOR_INDEX_BYBLOCK) {
+    // inserts inside of blocks are already resolved => BYBLOCK is only passed on by top level inserts
+    inherited.colorIndex = insert.colorIndex;
+    inherited.color = insert.color;
+    (inherited as ITrueColorEntity).trueColor = (insert as IEntity as ITrueColorEntity).trueColor;
+    if (insert.colorIndex === COLOR_INDEX_BYLAYER || insert.color === undefined || insert.color === null) {
+      // the color of the insert's layer becomes a fixed color of the child (ACI 7 stays the foreground color)
+      delete (inherited as Partial<IEntity>).colorIndex;
+      inherited.color = getLayerColor(insert.layer, data);
+      if (isForegroundLayerColor(insert.layer, data)) {
+        inherited.colorIndex = COLOR_INDEX_FOREGROUND;
+      }
+    }
+  }
+  if (entity.lineType && entity.lineType.toUpperCase() === "BYBLOCK") {
+    const lineType = getLineType(insert, data);
+    inherited.lineType = lineType ? lineType.name : "CONTINUOUS";
+  }
+  if (entity.lineweight === -2) {
+    inherited.lineweight = getLineweight(insert, data) as IEntity["lineweight"];
+  }
+  return inherited;
+};
+
+// the children of every block definition are only converted once per conversion; their geometries
+// and materials are then shared by all inserts with the same inherited properties
+interface CachedBlockChild {
+  entity: IEntity;
+  object3D: THREE.Points | THREE.Line | THREE.Mesh | THREE.Group | null;
+}
+let CACHED_BLOCK_CONTENTS = new Map<string, CachedBlockChild[]>();
+// largest scale of the inserts the converted entities are part of (the chordal tolerance applies to the drawing)
+let INSERT_SCALE = 1.0;
+const getBlockContent = (entity: IInsertEntity, data: IDxf, settings: ResolvedDxfToThreeSettings): THREE.Group => {
+  // content of the block is moved so that its base point is at the origin
+  const block = data.blocks[entity.name];
+  const scaleFactor = settings.scaleFactor;
+  const content = new THREE.Group();
+  if (block.position) {
+    content.position.x = -block.position.x * scaleFactor;
+    content.position.y = -block.position.y * scaleFactor;
+    content.position.z = -(settings.setAllZsToZero ? 0.0 : block.position.z || 0.0) * scaleFactor;
+  }
+
+  // the chordal tolerance of the children is reduced by the scale of the insert => the geometries of inserts with
+  // different scales aren't shared (retessellateCurves updates the shared geometries in place)
+  const insertScale = INSERT_SCALE;
+  const blockInsertScale =
+    insertScale *
+    Math.max(Math.abs(entity.xScale || 1.0), Math.abs(entity.yScale || 1.0), Math.abs(entity.zScale || 1.0));
+
+  // everything the children may inherit from the insert (see inheritFromInsert): its layer (children on layer "0"),
+  // color and line type (BYBLOCK) and its resolved lineweight (BYBLOCK lineweight -2)
+  const cacheKey = [
+    entity.name,
+    entity.layer,
+    entity.colorIndex,
+    entity.color,
+    entity.lineType,
+    getLineweight(entity, data),
+    blockInsertScale,
+  ].join("|");
+  INSERT_SCALE = blockInsertScale;
+  try {
+    const cachedChildren = CACHED_BLOCK_CONTENTS.get(cacheKey);
+    if (cachedChildren === undefined) {
+      const children = block.entities.map((childEntity) => {
+        const inheritedEntity = inheritFromInsert(childEntity, entity, data);
+        return { entity: inheritedEntity, object3D: getVisibleGeometry(inheritedEntity, data, settings) };
+      });
+      CACHED_BLOCK_CONTENTS.set(cacheKey, children);
+      children.forEach((child) => child.object3D && content.add(child.object3D));
+    } else {
+      for (const child of cachedChildren) {
+        // groups (nested inserts use the cache themselves) and troika texts (aligned after sync) can't be cloned
+        const object3D =
+          child.object3D instanceof THREE.Group || child.object3D instanceof Text
+            ? getVisibleGeometry(child.entity, data, settings)
+            : child.object3D && child.object3D.clone();
+        if (object3D) {
+          content.add(object3D);
+        }
+      }
+    }
+  } finally {
+    INSERT_SCALE = insertScale;
+  }
+  setBlockNameUserData(content, entity.name);
+  return content;
+};
+
+// ATTRIBs of inserts and constant ATTDEFs of blocks are drawn like TEXT, invisible ones are not drawn at all
+// (the other ATTDEFs are only templates of the ATTRIBs)
+const getAttribute = (
+  entity: IAttribEntity,
+  data: IDxf,
+  settings: ResolvedDxfToThreeSettings
+): THREE.Mesh | THREE.Line | LineSegments2 | null => {
+  if (entity.invisible || (entity.type === "ATTDEF" && !entity.constant) || !entity.text) {
+    return null;
+  }
+  const text: IExtendedTextEntity = {
+    ...entity,
+    xScale: entity.scale,
+    halign: entity.horizontalJustification,
+    valign: entity.verticalJustification,
+    styleName: entity.textStyle,
+    generationFlags: (entity.backwards ? TEXT_BACKWARD : 0) | (entity.mirrored ? TEXT_UPSIDE_DOWN : 0),
+    extrusionDirection: getExtrusionDirection(entity),
+  };
+  return getText(text, data, settings);
+};
+
+// the ATTRIBs are positioned in the coordinate system of the insert's parent, not in the one of the block
+// => they are siblings of the transformed block content
+// MINSERT: the attributes are given for the first cell and repeated for the other ones (offsets of the cells)
+const addAttributes = (
+  group: THREE.Group,
+  entity: IInsertEntity,
+  data: IDxf,
+  settings: ResolvedDxfToThreeSettings,
+  cellOffsets?: THREE.Vector3[]
+): THREE.Group => {
+  const attributes = (entity as IExtendedInsertEntity).attributes;
+  if (!attributes || attributes.length === 0) {
+    return group;
+  }
+  const addAttributeObject3Ds = (parent: THREE.Group): void => {
+    for (const attribute of attributes) {
+      const object3D = getVisibleGeometry(inheritFromInsert(attribute, entity, data), data, settings);
+      if (object3D) {
+        parent.add(object3D);
+      }
+    }
+  };
+  const insert = new THREE.Group();
+  insert.add(group);
+  if (!cellOffsets) {
+    addAttributeObject3Ds(insert);
+    return insert;
+  }
+  for (const offset of cellOffsets) {
+    const cellAttributes = new THREE.Group();
+    cellAttributes.position.copy(offset);
+    addAttributeObject3Ds(cellAttributes);
+    insert.add(cellAttributes);
+  }
+  return insert;
+};
+
+// the common properties (layer, color, line type, ...) of an entity => entities created for its parts
+const getCommonEntityProperties = (entity: IEntity): ITrueColorEntity => ({
+  type: entity.type,
+  handle: entity.handle,
+  ownerHandle: entity.ownerHandle,
+  layer: entity.layer,
+  lineType: entity.lineType,
+  lineTypeScale: entity.lineTypeScale,
+  lineweight: entity.lineweight,
+  colorIndex: entity.colorIndex,
+  color: entity.color,
+  trueColor: (entity as ITrueColorEntity).trueColor,
+  visible: entity.visible,
+  inPaperSpace: entity.inPaperSpace,
+  materialObjectHandle: entity.materialObjectHandle,
+  extendedData: entity.extendedData,
+});
+
+// insert of a block which is referenced by another entity (e.g. the block of a dimension) => the content inherits
+// the BYBLOCK properties of the entity
+const createInsertEntity = (
+  entity: IEntity,
+  name: string,
+  position: IPoint,
+  scale: IPoint | undefined,
+  rotation: number,
+  extrusionDirection: IPoint | undefined
+): IInsertEntity => ({
+  ...getCommonEntityProperties(entity),
+  type: "INSERT",
+  name: name,
+  position: position,
+  xScale: scale ? scale.x : 1.0,
+  yScale: scale ? scale.y : 1.0,
+  zScale: scale ? scale.z : 1.0,
+  rotation: rotation,
+  columnCount: 1,
+  rowCount: 1,
+  columnSpacing: 0.0,
+  rowSpacing: 0.0,
+  extrusionDirection: extrusionDirection || { x: 0.0, y: 0.0, z: 1.0 },
+});
+
+const getBlock = (entity: IInsertEntity, data: IDxf, settings: ResolvedDxfToThreeSettings): THREE.Group | null => {
+  const block = data.blocks[entity.name];
+  if (!block) {
+    reportDiagnostic("error", "block " + entity.name + " not found => ignoring it");
+    return null;
+  }
+  if (!block.entities) {
+    return null;
+  }
+
+  // insertion point and rotation are given in the OCS of the insert
+  const scaleFactor = settings.scaleFactor;
+  const group = new THREE.Group();
+  if (entity.rotation) {
+    group.rotation.z = (entity.rotation * Math.PI) / 180;
+  }
+  if (entity.position) {
+    group.position.x = entity.position.x * scaleFactor;
+    group.position.y = entity.position.y * scaleFactor;
+    group.position.z = (entity.position.z || 0.0) * scaleFactor;
+  }
+
+  const scale = new THREE.Vector3(1.0, 1.0, 1.0);
+  if (entity.xScale) {
+    scale.x = entity.xScale;
+  }
+  if (entity.yScale) {
+    scale.y = entity.yScale;
+  }
+  if (entity.zScale) {
+    scale.z = entity.zScale;
+  }
+
+  // MINSERT: the spacing of rows and columns is not affected by the scale of the insert
+  const columnCount = entity.columnCount || 1;
+  const rowCount = entity.rowCount || 1;
+  if (columnCount === 1 && rowCount === 1) {
+    group.scale.copy(scale);
+    transformOcsObject3D(group, entity, settings);
+    group.add(getBlockContent(entity, data, settings));
+    return addAttributes(group, entity, data, settings);
+  }
+  transformOcsObject3D(group, entity, settings);
+  if (group.matrixAutoUpdate) {
+    group.updateMatrix();
+  }
+  const groupRotation = new THREE.Matrix3().setFromMatrix4(group.matrix);
+  const cellOffsets: THREE.Vector3[] = [];
+  for (let row = 0; row < rowCount; row++) {
+    for (let column = 0; column < columnCount; column++) {
+      const cell = new THREE.Group();
+      cell.position.x = column * (entity.columnSpacing || 0.0) * scaleFactor;
+      cell.position.y = row * (entity.rowSpacing || 0.0) * scaleFactor;
+      cell.scale.copy(scale);
+      cell.add(getBlockContent(entity, data, settings));
+      group.add(cell);
+      // the attributes are not part of the rotated group
+      const offset = cell.position.clone().applyMatrix3(groupRotation);
+      if (settings.setAllZsToZero) {
+        offset.z = 0.0;
+      }
+      cellOffsets.push(offset);
     }
   }
-  return {
-    text: text.join(),
-    style: activeStyle,
-  };
+  return addAttributes(group, entity, data, settings, cellOffsets);
+};
+
+// dimensions
+// ------------------------
+
+type DimStyleVariables = { [K in keyof Omit<IDimStyle, "name">]-?: NonNullable<IDimStyle[K]> };
+
+// AutoCAD's defaults, used if neither the dimension style nor the header contains a variable
+const DEFAULT_DIM_STYLE: DimStyleVariables = {
+  dimpost: "",
+  dimscale: 1.0,
+  dimasz: 0.18,
+  dimexo: 0.0625,
+  dimexe: 0.18,
+  dimtxt: 0.18,
+  dimcen: 0.09,
+  dimtsz: 0.0,
+  dimlfac: 1.0,
+  dimgap: 0.09,
+  dimtad: 0,
+  dimdec: 4,
+  dimadec: 0,
+};
+
+const getDimStyle = (entity: IExtendedDimensionEntity | ILeaderEntity, data: IDxf): DimStyleVariables => {
+  const tables = data.tables as IExtendedTables | undefined;
+  const header = (data.header || {}) as Record<string, unknown>;
+  const styleName = entity.styleName || (header["$DIMSTYLE"] as string | undefined) || "STANDARD";
+  const dimStyle = tables && tables.dimStyle ? tables.dimStyle.dimStyles[styleName] : undefined;
+  const variables: Record<string, unknown> = { ...DEFAULT_DIM_STYLE };
+  Object.keys(DEFAULT_DIM_STYLE).forEach((key) => {
+    const styleValue = dimStyle ? dimStyle[key as keyof DimStyleVariables] : undefined;
+    const headerValue = header["$" + key.toUpperCase()];
+    if (styleValue !== undefined) {
+      variables[key] = styleValue;
+    } else if (headerValue !== undefined) {
+      variables[key] = headerValue;
+    }
+  });
+  return variables as DimStyleVariables;
+};
+
+// lines (pairs of points), arrow heads (triangles) and the measurement text of a dimension
+interface DimensionDrawing {
+  lines: THREE.Vector3[];
+  triangles: THREE.Vector3[];
+  text: string;
+  textPosition: THREE.Vector3;
+  textRotation: number;
+}
+
+// sizes of the dimension style in scaled drawing units
+interface DimensionSizes {
+  arrowSize: number;
+  tickSize: number;
+  extensionOffset: number;
+  extensionExtension: number;
+  textHeight: number;
+  textGap: number;
+}
+
+// "<>" in the text of the entity or in DIMPOST is replaced by the measurement, a single space hides the text
+const getDimensionText = (
+  entity: IExtendedDimensionEntity,
+  dimStyle: DimStyleVariables,
+  measurement: number,
+  decimals: number,
+  prefix: string = "",
+  suffix: string = ""
+): string => {
+  let text = prefix + measurement.toFixed(Math.max(Math.min(decimals, 8), 0)) + suffix;
+  if (dimStyle.dimpost) {
+    text = dimStyle.dimpost.includes("<>") ? dimStyle.dimpost.replace("<>", text) : text + dimStyle.dimpost;
+  }
+  if (entity.text === undefined || entity.text === "") {
+    return text;
+  } else if (entity.text === " ") {
+    return "";
+  }
+  return entity.text.replace("<>", text);
+};
+
+// texts along lines are rotated so that they are readable from below or from the right
+const getReadableAngle = (angle: number): number => {
+  let readableAngle = Math.atan2(Math.sin(angle), Math.cos(angle)); // -PI..PI
+  if (readableAngle > Math.PI / 2 + 1e-9) {
+    readableAngle -= Math.PI;
+  } else if (readableAngle <= -Math.PI / 2 + 1e-9) {
+    readableAngle += Math.PI;
+  }
+  return readableAngle;
+};
+
+// the tip of the arrow is at the given point, direction points towards the tip
+const addDimensionArrow = (
+  drawing: DimensionDrawing,
+  tip: THREE.Vector3,
+  direction: THREE.Vector3,
+  sizes: DimensionSizes
+): void => {
+  const normal = new THREE.Vector3(-direction.y, direction.x, 0.0);
+  if (sizes.tickSize > 0.0) {
+    // oblique stroke instead of an arrow head
+    const stroke = direction
+      .clone()
+      .add(normal)
+      .normalize()
+      .multiplyScalar(sizes.tickSize / 2);
+    drawing.lines.push(tip.clone().sub(stroke), tip.clone().add(stroke));
+    return;
+  }
+  const base = tip.clone().addScaledVector(direction, -sizes.arrowSize);
+  drawing.triangles.push(
+    tip.clone(),
+    base.clone().addScaledVector(normal, sizes.arrowSize / 6),
+    base.clone().addScaledVector(normal, -sizes.arrowSize / 6)
+  );
+};
+
+// extension line from its origin (at the given distance from the base along the direction) to the dimension line
+const addDimensionExtensionLine = (
+  drawing: DimensionDrawing,
+  base: THREE.Vector3,
+  direction: THREE.Vector3,
+  originDistance: number,
+  lineDistance: number,
+  sizes: DimensionSizes
+): void => {
+  const sign = lineDistance >= originDistance ? 1.0 : -1.0;
+  if (Math.abs(lineDistance - originDistance) <= sizes.extensionOffset) {
+    return;
+  }
+  drawing.lines.push(
+    base.clone().addScaledVector(direction, originDistance + sign * sizes.extensionOffset),
+    base.clone().addScaledVector(direction, lineDistance + sign * sizes.extensionExtension)
+  );
+};
+
+// default text position: in the middle of the dimension line or above it (DIMTAD)
+const getDefaultDimensionTextPosition = (
+  middle: THREE.Vector3,
+  angle: number,
+  dimStyle: DimStyleVariables,
+  sizes: DimensionSizes
+): THREE.Vector3 => {
+  if (!dimStyle.dimtad) {
+    return middle.clone();
+  }
+  const readableAngle = getReadableAngle(angle);
+  const up = new THREE.Vector3(-Math.sin(readableAngle), Math.cos(readableAngle), 0.0);
+  return middle.clone().addScaledVector(up, sizes.textHeight / 2 + sizes.textGap);
+};
+
+// rotated, horizontal, vertical and aligned dimensions
+const getLinearDimensionDrawing = (
+  entity: IExtendedDimensionEntity,
+  dimStyle: DimStyleVariables,
+  sizes: DimensionSizes,
+  toVector3: (point: IPoint) => THREE.Vector3,
+  scaleFactor: number
+): DimensionDrawing | null => {
+  if (!entity.linearOrAngularPoint1 || !entity.linearOrAngularPoint2 || !entity.anchorPoint) {
+    return null;
+  }
+  const origin1 = toVector3(entity.linearOrAngularPoint1);
+  const origin2 = toVector3(entity.linearOrAngularPoint2);
+  const linePoint = toVector3(entity.anchorPoint);
+  const isAligned = (entity.dimensionType & 7) === 1;
+  const angle = isAligned
+    ? Math.atan2(origin2.y - origin1.y, origin2.x - origin1.x)
+    : ((entity.angle || 0.0) * Math.PI) / 180;
+  const direction = new THREE.Vector3(Math.cos(angle), Math.sin(angle), 0.0);
+
+  // the dimension line goes through the definition point
+  const end1 = linePoint.clone().addScaledVector(direction, origin1.clone().sub(linePoint).dot(direction));
+  const end2 = linePoint.clone().addScaledVector(direction, origin2.clone().sub(linePoint).dot(direction));
+  const drawing: DimensionDrawing = {
+    lines: [end1, end2],
+    triangles: [],
+    text: "",
+    textPosition: end1,
+    textRotation: 0,
+  };
+  for (const [origin, end] of [
+    [origin1, end1],
+    [origin2, end2],
+  ]) {
+    const distance = origin.distanceTo(end);
+    if (distance > 0.0) {
+      const extensionDirection = end.clone().sub(origin).divideScalar(distance);
+      addDimensionExtensionLine(drawing, origin, extensionDirection, 0.0, distance, sizes);
+    }
+  }
+  const length = end1.distanceTo(end2);
+  if (length > 0.0) {
+    addDimensionArrow(drawing, end1, end1.clone().sub(end2).divideScalar(length), sizes);
+    addDimensionArrow(drawing, end2, end2.clone().sub(end1).divideScalar(length), sizes);
+  }
+
+  const measurement = (length / scaleFactor) * dimStyle.dimlfac;
+  drawing.text = getDimensionText(entity, dimStyle, measurement, dimStyle.dimdec);
+  drawing.textRotation = getReadableAngle(angle);
+  drawing.textPosition = entity.middleOfText
+    ? toVector3(entity.middleOfText)
+    : getDefaultDimensionTextPosition(end1.clone().lerp(end2, 0.5), angle, dimStyle, sizes);
+  return drawing;
+};
+
+// angular dimensions between two lines and 3 point angular dimensions
+const getAngularDimensionDrawing = (
+  entity: IExtendedDimensionEntity,
+  dimStyle: DimStyleVariables,
+  sizes: DimensionSizes,
+  toVector3: (point: IPoint) => THREE.Vector3
+): DimensionDrawing | null => {
+  const angleOf = (vector: THREE.Vector3) => Math.atan2(vector.y, vector.x);
+  const normalizeAngle = (angle: number) => ((angle % (2 * Math.PI)) + 2 * Math.PI) % (2 * Math.PI);
+
+  // the arc goes from the start ray counterclockwise to the end ray and through the arc point
+  let vertex: THREE.Vector3;
+  let arcPoint: THREE.Vector3;
+  let rays: { angle: number; points: THREE.Vector3[] }[];
+  if ((entity.dimensionType & 7) === 5) {
+    if (!entity.diameterOrRadiusPoint || !entity.linearOrAngularPoint1 || !entity.linearOrAngularPoint2) {
+      return null;
+    }
+    vertex = toVector3(entity.diameterOrRadiusPoint);
+    arcPoint = entity.anchorPoint ? toVector3(entity.anchorPoint) : vertex;
+    const point1 = toVector3(entity.linearOrAngularPoint1);
+    const point2 = toVector3(entity.linearOrAngularPoint2);
+    rays = [
+      { angle: angleOf(point1.clone().sub(vertex)), points: [point1] },
+      { angle: angleOf(point2.clone().sub(vertex)), points: [point2] },
+    ];
+  } else {
+    if (
+      !entity.linearOrAngularPoint1 ||
+      !entity.linearOrAngularPoint2 ||
+      !entity.anchorPoint ||
+      !entity.diameterOrRadiusPoint
+    ) {
+      return null;
+    }
+    const line1 = [toVector3(entity.linearOrAngularPoint1), toVector3(entity.linearOrAngularPoint2)];
+    const line2 = [toVector3(entity.anchorPoint), toVector3(entity.diameterOrRadiusPoint)];
+    const direction1 = line1[1].clone().sub(line1[0]);
+    const direction2 = line2[1].clone().sub(line2[0]);
+    const denominator = direction1.x * direction2.y - direction1.y * direction2.x;
+    if (Math.abs(denominator) < 1e-12) {
+      reportDiagnostic("error", "angular dimension with parallel lines => ignoring it");
+      return null;
+    }
+    const s = ((line2[0].x - line1[0].x) * direction2.y - (line2[0].y - line1[0].y) * direction2.x) / denominator;
+    vertex = line1[0].clone().addScaledVector(direction1, s);
+    arcPoint = entity.arcPoint ? toVector3(entity.arcPoint) : line1[1].clone().lerp(line2[1], 0.5);
+    // every line bounds two sectors => the rays in both directions of both lines
+    rays = [line1, line2].flatMap((line) => {
+      const angle = angleOf(line[1].clone().sub(line[0]));
+      return [
+        { angle: angle, points: line },
+        { angle: angle + Math.PI, points: line },
+      ];
+    });
+  }
+
+  // the sector containing the arc point is bounded by the nearest rays before and after it
+  const arcAngle = normalizeAngle(angleOf(arcPoint.clone().sub(vertex)));
+  let startRay = rays[0];
+  let endRay = rays[1];
+  rays.forEach((ray) => {
+    if (normalizeAngle(arcAngle - ray.angle) < normalizeAngle(arcAngle - startRay.angle)) {
+      startRay = ray;
+    }
+    if (normalizeAngle(ray.angle - arcAngle) < normalizeAngle(endRay.angle - arcAngle)) {
+      endRay = ray;
+    }
+  });
+  const startAngle = startRay.angle;
+  const sweep = normalizeAngle(endRay.angle - startAngle);
+  const radius = arcPoint.distanceTo(vertex);
+  const drawing: DimensionDrawing = { lines: [], triangles: [], text: "", textPosition: vertex, textRotation: 0 };
+
+  const numberOfSegments = Math.max(Math.ceil(sweep / (Math.PI / 36)), 2);
+  const pointAt = (angle: number, distance: number) =>
+    vertex.clone().add(new THREE.Vector3(Math.cos(angle) * distance, Math.sin(angle) * distance, 0.0));
+  for (let i = 0; i < numberOfSegments; i++) {
+    drawing.lines.push(
+      pointAt(startAngle + (sweep * i) / numberOfSegments, radius),
+      pointAt(startAngle + (sweep * (i + 1)) / numberOfSegments, radius)
+    );
+  }
+  for (const ray of [startRay, endRay]) {
+    const direction = new THREE.Vector3(Math.cos(ray.angle), Math.sin(ray.angle), 0.0);
+    const originDistance = Math.max(0.0, ...ray.points.map((point) => point.clone().sub(vertex).dot(direction)));
+    addDimensionExtensionLine(drawing, vertex, direction, originDistance, radius, sizes);
+  }
+  const endAngle = startAngle + sweep;
+  addDimensionArrow(
+    drawing,
+    pointAt(startAngle, radius),
+    new THREE.Vector3(Math.sin(startAngle), -Math.cos(startAngle), 0.0),
+    sizes
+  );
+  addDimensionArrow(
+    drawing,
+    pointAt(endAngle, radius),
+    new THREE.Vector3(-Math.sin(endAngle), Math.cos(endAngle), 0.0),
+    sizes
+  );
+
+  const middleAngle = startAngle + sweep / 2;
+  drawing.text = getDimensionText(entity, dimStyle, (sweep * 180) / Math.PI, dimStyle.dimadec, "", "°");
+  drawing.textRotation = getReadableAngle(middleAngle - Math.PI / 2);
+  drawing.textPosition = entity.middleOfText
+    ? toVector3(entity.middleOfText)
+    : getDefaultDimensionTextPosition(pointAt(middleAngle, radius), middleAngle - Math.PI / 2, dimStyle, sizes);
+  return drawing;
 };
 
-const createTextForScene = (
-  text: string,
-  style: { horizontalAlignment: string; textHeight: number },
-  entity: IMtextEntity,
-  data: IDxf,
-  settings: DxfToThreeSettings
-): THREE.Mesh | null => {
-  if (text.length === 0) {
-    console.log("text of entity is empty => ignoring it");
+// diameter and radius dimensions
+const getRadialDimensionDrawing = (
+  entity: IExtendedDimensionEntity,
+  dimStyle: DimStyleVariables,
+  sizes: DimensionSizes,
+  toVector3: (point: IPoint) => THREE.Vector3,
+  scaleFactor: number
+): DimensionDrawing | null => {
+  if (!entity.anchorPoint || !entity.diameterOrRadiusPoint) {
+    return null;
+  }
+  const isDiameter = (entity.dimensionType & 7) === 3;
+  // diameter: both points are on the circle, radius: center and point on the circle
+  const point = toVector3(entity.diameterOrRadiusPoint);
+  const otherPoint = toVector3(entity.anchorPoint);
+  const length = point.distanceTo(otherPoint);
+  if (length === 0.0) {
     return null;
   }
+  const center = isDiameter ? point.clone().lerp(otherPoint, 0.5) : otherPoint;
+  const direction = point.clone().sub(otherPoint).divideScalar(length);
+  const angle = Math.atan2(direction.y, direction.x);
+  const drawing: DimensionDrawing = {
+    lines: [otherPoint, point],
+    triangles: [],
+    text: "",
+    textPosition: center,
+    textRotation: getReadableAngle(angle),
+  };
+  addDimensionArrow(drawing, point, direction, sizes);
+  if (isDiameter) {
+    addDimensionArrow(drawing, otherPoint, direction.clone().negate(), sizes);
+  }
 
-  const textEnt = new Text();
-  textEnt.text = text.replaceAll("\\P", "\n").replaceAll("\\X", "\n");
-
-  const scaleFactor = settings.scaleFactor!;
-  if (settings.troikaFontUrl !== undefined) {
-    textEnt.font = settings.troikaFontUrl;
-  }
-  textEnt.fontSize = style.textHeight * scaleFactor;
-  textEnt.maxWidth = entity.width * scaleFactor;
-  textEnt.position.x = entity.position.x * scaleFactor;
-  textEnt.position.y = entity.position.y * scaleFactor;
-  textEnt.position.z = (settings.setAllZsToZero ? 0.0 : entity.position.z || 0.0) * scaleFactor;
-  textEnt.textAlign = style.horizontalAlignment;
-  textEnt.material = getMeshMaterial(entity, data, settings);
-  if (entity.rotation) {
-    textEnt.rotation.z = (entity.rotation * Math.PI) / 180;
-  }
-  if (entity.directionVector) {
-    const dv = entity.directionVector;
-    textEnt.rotation.z = new THREE.Vector3(1, 0, 0).angleTo(new THREE.Vector3(dv.x, dv.y, dv.z));
-  }
-  switch (entity.attachmentPoint) {
-    case 1:
-      // Top Left
-      textEnt.anchorX = "left";
-      textEnt.anchorY = "top";
-      break;
-    case 2:
-      // Top Center
-      textEnt.anchorX = "center";
-      textEnt.anchorY = "top";
-      break;
-    case 3:
-      // Top Right
-      textEnt.anchorX = "right";
-      textEnt.anchorY = "top";
-      break;
-
-    case 4:
-      // Middle Left
-      textEnt.anchorX = "left";
-      textEnt.anchorY = "middle";
-      break;
-    case 5:
-      // Middle Center
-      textEnt.anchorX = "center";
-      textEnt.anchorY = "middle";
-      break;
-    case 6:
-      // Middle Right
-      textEnt.anchorX = "right";
-      textEnt.anchorY = "middle";
-      break;
-
-    case 7:
-      // Bottom Left
-      textEnt.anchorX = "left";
-      textEnt.anchorY = "bottom";
-      break;
-    case 8:
-      // Bottom Center
-      textEnt.anchorX = "center";
-      textEnt.anchorY = "bottom";
-      break;
-    case 9:
-      // Bottom Right
-      textEnt.anchorX = "right";
-      textEnt.anchorY = "bottom";
-      break;
-
-    default:
-      console.log("unknown attachment point for text => ignoring it");
-      return null;
+  const measurement = (length / scaleFactor) * dimStyle.dimlfac;
+  drawing.text = getDimensionText(entity, dimStyle, measurement, dimStyle.dimdec, isDiameter ? "Ø" : "R");
+  drawing.textPosition = entity.middleOfText
+    ? toVector3(entity.middleOfText)
+    : getDefaultDimensionTextPosition(center.clone().lerp(point, 0.5), angle, dimStyle, sizes);
+  // a text outside of the circle is connected to the dimension line
+  const radius = isDiameter ? length / 2 : length;
+  if (drawing.textPosition.distanceTo(center) > radius) {
+    const nearestPoint =
+      drawing.textPosition.distanceTo(point) <= drawing.textPosition.distanceTo(otherPoint) ? point : otherPoint;
+    drawing.lines.push(nearestPoint.clone(), drawing.textPosition.clone());
   }
+  return drawing;
+};
 
-  textEnt.sync(() => {
-    if (textEnt.textAlign !== "left") {
-      textEnt.geometry.computeBoundingBox();
-      const textWidth = textEnt.geometry.boundingBox.max.x - textEnt.geometry.boundingBox.min.x;
-      if (textEnt.textAlign === "center") {
-        textEnt.position.x += (entity.width * scaleFactor - textWidth) / 2.0;
-      }
-      if (textEnt.textAlign === "right") {
-        textEnt.position.x += entity.width * scaleFactor - textWidth;
-      }
-    }
-  });
+const getOrdinateDimensionDrawing = (
+  entity: IExtendedDimensionEntity,
+  dimStyle: DimStyleVariables,
+  sizes: DimensionSizes,
+  toVector3: (point: IPoint) => THREE.Vector3,
+  scaleFactor: number
+): DimensionDrawing | null => {
+  if (!entity.anchorPoint || !entity.linearOrAngularPoint1 || !entity.linearOrAngularPoint2) {
+    return null;
+  }
+  // bit 64: ordinate of x (otherwise y)
+  const isXOrdinate = (entity.dimensionType & 64) !== 0;
+  const origin = toVector3(entity.anchorPoint);
+  const feature = toVector3(entity.linearOrAngularPoint1);
+  const leaderEnd = toVector3(entity.linearOrAngularPoint2);
+  const length = feature.distanceTo(leaderEnd);
+  const drawing: DimensionDrawing = { lines: [], triangles: [], text: "", textPosition: leaderEnd, textRotation: 0 };
+  if (length > sizes.extensionOffset) {
+    const direction = leaderEnd.clone().sub(feature).divideScalar(length);
+    drawing.lines.push(feature.clone().addScaledVector(direction, sizes.extensionOffset), leaderEnd.clone());
+  }
 
-  return textEnt;
+  const measurement =
+    (Math.abs(isXOrdinate ? feature.x - origin.x : feature.y - origin.y) / scaleFactor) * dimStyle.dimlfac;
+  drawing.text = getDimensionText(entity, dimStyle, measurement, dimStyle.dimdec);
+  drawing.textRotation = isXOrdinate ? Math.PI / 2 : 0.0;
+  drawing.textPosition = entity.middleOfText ? toVector3(entity.middleOfText) : leaderEnd.clone();
+  return drawing;
 };
 
-const getMtext = (entity: IMtextEntity, data: IDxf, settings: DxfToThreeSettings): THREE.Mesh | null => {
-  //Note: We currently only support a single format applied to all the mtext text
-  let textAndControlChars = parseDxfMTextContent(entity.text);
-  if (textAndControlChars.length > 0 && typeof textAndControlChars.at(0)! === "string") {
-    const firstItem = textAndControlChars.at(0) as string;
-    if (
-      firstItem.startsWith("pxqc;") ||
-      firstItem.startsWith("pxql;") ||
-      firstItem.startsWith("pxqr;") ||
-      firstItem.startsWith("pxqj;")
-    ) {
-      textAndControlChars = [];
-      textAndControlChars.push(firstItem.substring(0, 5));
-      textAndControlChars.push(firstItem.substring(5));
-    }
+const createDimensionDrawingGroup = (
+  drawing: DimensionDrawing,
+  textHeight: number,
+  entity: IEntity,
+  data: IDxf,
+  settings: ResolvedDxfToThreeSettings
+): THREE.Group => {
+  const group = new THREE.Group();
+  if (drawing.lines.length > 0) {
+    const geometry = new THREE.BufferGeometry().setFromPoints(drawing.lines);
+    group.add(createLine(geometry, entity, data, settings, true));
   }
-  const content = mtextContentAndFormattingToTextAndStyle(textAndControlChars, entity);
-  return createTextForScene(content.text, content.style, entity, data, settings);
+  if (drawing.triangles.length > 0) {
+    const geometry = new THREE.BufferGeometry().setFromPoints(drawing.triangles);
+    group.add(new THREE.Mesh(geometry, getMeshMaterial(entity, data, settings)));
+  }
+  if (drawing.text.length > 0 && textHeight > 0.0) {
+    // the text is centered at its position; texts of dimensions may contain MTEXT codes (e.g. \X: text above and
+    // below the dimension line), they are drawn without formatting
+    const plainText = getMTextPlainText(drawing.text, getTextEncoding(data));
+    const geometry = new TextGeometry(plainText, { font: settings.threeFont, height: 0, size: textHeight });
+    geometry.computeBoundingBox();
+    const boundingBox = geometry.boundingBox!;
+    const y = plainText.includes("\n") ? -(boundingBox.min.y + boundingBox.max.y) / 2 : -textHeight / 2;
+    geometry.translate(-(boundingBox.min.x + boundingBox.max.x) / 2, y, 0.0);
+    geometry.rotateZ(drawing.textRotation);
+    const text = new THREE.Mesh(geometry, getMeshMaterial(entity, data, settings));
+    text.position.copy(drawing.textPosition);
+    group.add(text);
+  }
+  return group;
 };
 
-const addTriangleFacingCamera = (
-  verts: THREE.Vector3[],
-  p0: THREE.Vector3,
-  p1: THREE.Vector3,
-  p2: THREE.Vector3
-): void => {
-  // Calculate which direction the points are facing (clockwise or counter-clockwise)
-  var vector1 = new THREE.Vector3();
-  var vector2 = new THREE.Vector3();
-  vector1.subVectors(p1, p0);
-  vector2.subVectors(p2, p0);
-  vector1.cross(vector2);
+// dimension without its block: rendered from the definition points and the dimension style
+const getNativeDimension = (
+  entity: IExtendedDimensionEntity,
+  data: IDxf,
+  settings: ResolvedDxfToThreeSettings
+): THREE.Group | null => {
+  const scaleFactor = settings.scaleFactor;
+  const dimStyle = getDimStyle(entity, data);
+  const dimScale = (dimStyle.dimscale || 1.0) * scaleFactor;
+  const sizes: DimensionSizes = {
+    arrowSize: dimStyle.dimasz * dimScale,
+    tickSize: dimStyle.dimtsz * dimScale,
+    extensionOffset: dimStyle.dimexo * dimScale,
+    extensionExtension: dimStyle.dimexe * dimScale,
+    textHeight: dimStyle.dimtxt * dimScale,
+    textGap: Math.abs(dimStyle.dimgap) * dimScale,
+  };
+  const toVector3 = (point: IPoint) => new THREE.Vector3(point.x * scaleFactor, point.y * scaleFactor, 0.0);
 
-  var v0 = new THREE.Vector3(p0.x, p0.y, p0.z);
-  var v1 = new THREE.Vector3(p1.x, p1.y, p1.z);
-  var v2 = new THREE.Vector3(p2.x, p2.y, p2.z);
+  const dimensionType = entity.dimensionType & 7;
+  let drawing: DimensionDrawing | null = null;
+  if (dimensionType === 0 || dimensionType === 1) {
+    drawing = getLinearDimensionDrawing(entity, dimStyle, sizes, toVector3, scaleFactor);
+  } else if (dimensionType === 2 || dimensionType === 5) {
+    drawing = getAngularDimensionDrawing(entity, dimStyle, sizes, toVector3);
+  } else if (dimensionType === 3 || dimensionType === 4) {
+    drawing = getRadialDimensionDrawing(entity, dimStyle, sizes, toVector3, scaleFactor);
+  } else if (dimensionType === 6) {
+    drawing = getOrdinateDimensionDrawing(entity, dimStyle, sizes, toVector3, scaleFactor);
+  } else {
+    reportDiagnostic("error", "Unsupported Dimension type: " + dimensionType);
+  }
+  if (!drawing) {
+    return null;
+  }
 
-  // If z < 0 then we must draw these in reverse order
-  if (vector1.z < 0) {
-    verts.push(v2, v1, v0);
-  } else verts.push(v0, v1, v2);
+  drawing.textRotation += ((entity.textRotation || 0.0) * Math.PI) / 180;
+  return createDimensionDrawingGroup(drawing, sizes.textHeight, entity, data, settings);
 };
 
-const getSolid = (entity: ISolidEntity, data: IDxf, settings: DxfToThreeSettings): THREE.Mesh => {
-  const geometry = new THREE.BufferGeometry();
-  const scaleFactor = settings.scaleFactor!;
-  const setAllZsToZero = settings.setAllZsToZero!;
-  var points = entity.points;
-  // verts = geometry.vertices;
-  const verts: THREE.Vector3[] = [];
-  const point0 = new THREE.Vector3(
-    points[0].x * scaleFactor,
-    points[0].y * scaleFactor,
-    (setAllZsToZero ? 0.0 : points[0].z || 0.0) * scaleFactor
-  );
-  const point1 = new THREE.Vector3(
-    points[1].x * scaleFactor,
-    points[1].y * scaleFactor,
-    (setAllZsToZero ? 0.0 : points[1].z || 0.0) * scaleFactor
-  );
-  const point2 = new THREE.Vector3(
-    points[2].x * scaleFactor,
-    points[2].y * scaleFactor,
-    (setAllZsToZero ? 0.0 : points[2].z || 0.0) * scaleFactor
-  );
-  addTriangleFacingCamera(verts, point0, point1, point2);
-  if (points.length > 3) {
-    const point3 = new THREE.Vector3(
-      points[3].x * scaleFactor,
-      points[3].y * scaleFactor,
-      (setAllZsToZero ? 0.0 : points[3].z || 0.0) * scaleFactor
-    );
-    addTriangleFacingCamera(verts, point1, point2, point3);
+const getDimension = (
+  entity: IExtendedDimensionEntity,
+  data: IDxf,
+  settings: ResolvedDxfToThreeSettings
+): THREE.Group | null => {
+  const block = entity.block ? data.blocks[entity.block] : undefined;
+  if (!block || !block.entities) {
+    return getNativeDimension(entity, data, settings);
   }
-  geometry.setFromPoints(verts);
-  const material = getMeshMaterial(entity, data, settings);
-  return new THREE.Mesh(geometry, material);
+
+  // the block contains the dimension as rendered by the CAD program; it is inserted like an INSERT
+  // at the insertion point (usually the origin) => the children inherit BYBLOCK properties of the dimension
+  const position = entity.insertionPoint || { x: 0.0, y: 0.0, z: 0.0 };
+  const insert = createInsertEntity(entity, entity.block, position, undefined, 0.0, entity.extrusionDirection);
+  return getBlock(insert, data, settings);
 };
 
-const getBlock = (entity: IInsertEntity, data: IDxf, settings: DxfToThreeSettings): THREE.Group | null => {
-  const block = data.blocks[entity.name];
-  if (!block.entities) {
-    return null;
-  }
+// leaders
+// ------------------------
 
-  const group = new THREE.Group();
-  if (entity.xScale) {
-    group.scale.x = entity.xScale;
-  }
-  if (entity.yScale) {
-    group.scale.y = entity.yScale;
+// splines are approximated by a centripetal Catmull-Rom curve through the vertices
+const getLeaderPathPoints = (
+  vertices: THREE.Vector3[],
+  isSpline: boolean,
+  settings: ResolvedDxfToThreeSettings
+): THREE.Vector3[] => {
+  if (!isSpline || vertices.length < 3) {
+    return vertices;
   }
-  if (entity.rotation) {
-    group.rotation.z = (entity.rotation * Math.PI) / 180;
+  const curve = new THREE.CatmullRomCurve3(vertices, false, "centripetal");
+  return curve.getPoints((vertices.length - 1) * settings.interpolationsPerSplineSegment);
+};
+
+// the arrow head is at the first point of the path
+const addLeaderPath = (
+  drawing: DimensionDrawing,
+  points: THREE.Vector3[],
+  hasArrowhead: boolean,
+  sizes: DimensionSizes
+): void => {
+  for (let i = 1; i < points.length; i++) {
+    drawing.lines.push(points[i - 1], points[i]);
   }
-  const scaleFactor = settings.scaleFactor!;
-  const setAllZsToZero = settings.setAllZsToZero!;
-  if (entity.position) {
-    group.position.x = entity.position.x * scaleFactor;
-    group.position.y = entity.position.y * scaleFactor;
-    group.position.z = (setAllZsToZero ? 0.0 : entity.position.z || 0.0) * scaleFactor;
+  const direction = points.length > 1 ? points[0].clone().sub(points[1]) : new THREE.Vector3();
+  if (hasArrowhead && direction.lengthSq() > 0.0) {
+    addDimensionArrow(drawing, points[0], direction.normalize(), sizes);
   }
+};
 
-  for (let i = 0; i < block.entities.length; i++) {
-    const childEntity = getGeometry(block.entities[i], data, settings);
-    if (childEntity) {
-      group.add(childEntity);
-    }
-  }
-  return group;
+const getLeaderSizes = (arrowSize: number): DimensionSizes => {
+  return {
+    arrowSize: arrowSize,
+    tickSize: 0.0,
+    extensionOffset: 0.0,
+    extensionExtension: 0.0,
+    textHeight: 0.0,
+    textGap: 0.0,
+  };
 };
 
-const getDimension = (entity: IDimensionEntity, data: IDxf, settings: DxfToThreeSettings): THREE.Group | null => {
-  const block = data.blocks[entity.block];
-  if (!block || !block.entities) {
+// the annotation of a LEADER is a separate entity (usually MTEXT)
+const getLeader = (entity: ILeaderEntity, data: IDxf, settings: ResolvedDxfToThreeSettings): THREE.Group | null => {
+  if (!entity.vertices || entity.vertices.length < 2) {
     return null;
   }
+  const scaleFactor = settings.scaleFactor;
+  const dimStyle = getDimStyle(entity, data);
+  const sizes = getLeaderSizes(dimStyle.dimasz * (dimStyle.dimscale || 1.0) * scaleFactor);
+  const vertices = entity.vertices.map(
+    (vertex) => new THREE.Vector3(vertex.x * scaleFactor, vertex.y * scaleFactor, 0.0)
+  );
+  const drawing: DimensionDrawing = {
+    lines: [],
+    triangles: [],
+    text: "",
+    textPosition: vertices[0],
+    textRotation: 0.0,
+  };
+  addLeaderPath(drawing, getLeaderPathPoints(vertices, entity.isSpline, settings), entity.hasArrowhead, sizes);
+  return createDimensionDrawingGroup(drawing, 0.0, entity, data, settings);
+};
 
-  const group = new THREE.Group();
-  // const scaleFactor = settings.scaleFactor;
-  // const setAllZsToZero = settings.setAllZsToZero;
-  // if (entity.anchorPoint) {
-  //     group.position.x = entity.anchorPoint.x * scaleFactor;
-  //     group.position.y = entity.anchorPoint.y * scaleFactor;
-  //     group.position.z = (setAllZsToZero ? 0.0 : entity.anchorPoint.z || 0.0) * scaleFactor;
-  // }
+// leader lines with dogleg and arrow heads plus MTEXT or block content
+const getMultiLeader = (entity: IMultiLeaderEntity, data: IDxf, settings: ResolvedDxfToThreeSettings): THREE.Group => {
+  const scaleFactor = settings.scaleFactor;
+  const toVector3 = (point: IPoint) => new THREE.Vector3(point.x * scaleFactor, point.y * scaleFactor, 0.0);
+  const sizes = getLeaderSizes(entity.arrowheadSize * scaleFactor);
+  const drawing: DimensionDrawing = {
+    lines: [],
+    triangles: [],
+    text: "",
+    textPosition: new THREE.Vector3(),
+    textRotation: 0.0,
+  };
+  for (const leader of entity.leaderLineType !== 0 ? entity.leaders : []) {
+    for (const line of leader.lines) {
+      const vertices = line.vertices.map(toVector3);
+      if (leader.lastLeaderLinePoint) {
+        vertices.push(toVector3(leader.lastLeaderLinePoint));
+      }
+      addLeaderPath(drawing, getLeaderPathPoints(vertices, entity.leaderLineType === 2, settings), true, sizes);
+    }
+    // the dogleg (landing) connects the leader lines with the content
+    const doglegLength = leader.doglegLength !== undefined ? leader.doglegLength : entity.doglegLength;
+    if (entity.hasDogleg && leader.lastLeaderLinePoint && leader.doglegVector && doglegLength) {
+      const start = toVector3(leader.lastLeaderLinePoint);
+      const direction = new THREE.Vector3(leader.doglegVector.x, leader.doglegVector.y, 0.0).normalize();
+      drawing.lines.push(start, start.clone().addScaledVector(direction, doglegLength * scaleFactor));
+    }
+  }
+  const group = createDimensionDrawingGroup(drawing, 0.0, entity, data, settings);
 
-  for (let i = 0; i < block.entities.length; i++) {
-    const childEntity = getGeometry(block.entities[i], data, settings);
-    if (childEntity) {
-      group.add(childEntity);
+  if (entity.contentType === 2 && entity.text && entity.textLocation) {
+    // the alignment (1 = left, 2 = center, 3 = right) of the text is at the top of the text
+    const mtext: IExtendedMtextEntity = {
+      ...getCommonEntityProperties(entity),
+      type: "MTEXT",
+      text: entity.text,
+      position: entity.textLocation,
+      directionVector: entity.textDirection || {
+        x: Math.cos(entity.textRotation),
+        y: Math.sin(entity.textRotation),
+        z: 0.0,
+      },
+      height: entity.textHeight,
+      width: entity.textWidth,
+      rotation: (entity.textRotation * 180) / Math.PI,
+      attachmentPoint: entity.textAlignment >= 1 && entity.textAlignment <= 3 ? entity.textAlignment : 1,
+      drawingDirection: 1,
+      styleName: undefined,
+      lineSpacingFactor: undefined,
+      definedHeight: undefined,
+      columnType: undefined,
+      columnCount: undefined,
+      columnWidth: undefined,
+      columnGutter: undefined,
+      columnHeights: [],
+      extrusionDirection: undefined,
+    };
+    const text = getMtext(mtext, data, settings);
+    if (text) {
+      group.add(text);
+    }
+  } else if (entity.contentType === 1 && entity.blockHandle && entity.blockLocation) {
+    // the content references the BLOCK_RECORD which owns the block
+    const blockName = Object.keys(data.blocks).find((name) => data.blocks[name].ownerHandle === entity.blockHandle);
+    if (blockName) {
+      const rotation = (entity.blockRotation * 180) / Math.PI;
+      const insert = createInsertEntity(
+        entity,
+        blockName,
+        entity.blockLocation,
+        entity.blockScale,
+        rotation,
+        undefined
+      );
+      const block = getBlock(insert, data, settings);
+      if (block) {
+        group.add(block);
+      }
+    } else {
+      reportDiagnostic("warning", "block content of multileader not found => ignoring it");
     }
   }
   return group;
@@ -744,19 +3836,31 @@ const getDimension = (entity: IDimensionEntity, data: IDxf, settings: DxfToThree
 // get geometry for entity
 // ------------------------
 
-const getGeometry = (
+const getEntityGeometry = (
   entity: IEntity,
   data: IDxf,
-  settings: DxfToThreeSettings
+  settings: ResolvedDxfToThreeSettings
 ): THREE.Points | THREE.Line | THREE.Mesh | THREE.Group | null => {
   if (entity.type === "POINT") {
     return getPoint(entity as IPointEntity, data, settings);
-  } else if (entity.type === "LINE" || entity.type === "POLYLINE") {
+  } else if (entity.type === "LINE") {
     return getLine(entity as ILineEntity, data, settings);
   } else if (entity.type === "POLYLINE") {
-    return getPolyLine(entity as IPolylineEntity, data, settings);
+    const polyline = entity as IExtendedPolylineEntity;
+    if (polyline.isPolyfaceMesh) {
+      return getPolyfaceMesh(polyline, data, settings);
+    } else if (polyline.is3dPolygonMesh) {
+      return getPolygonMesh(polyline, data, settings);
+    } else {
+      return getPolyLine(polyline, data, settings);
+    }
   } else if (entity.type === "LWPOLYLINE") {
-    return getPolyLine(entity as ILwpolylineEntity, data, settings);
+    const polyline = entity as ILwpolylineEntity;
+    if (settings.useFatLines && hasPolyLineWidth(polyline)) {
+      return getWidePolyLine(polyline, data, settings);
+    } else {
+      return getPolyLine(polyline, data, settings);
+    }
   } else if (entity.type === "ARC") {
     return getArc(entity as IArcEntity, data, settings);
   } else if (entity.type === "CIRCLE") {
@@ -764,29 +3868,148 @@ const getGeometry = (
   } else if (entity.type === "ELLIPSE") {
     return getEllipse(entity as IEllipseEntity, data, settings);
   } else if (entity.type === "SPLINE") {
-    return getSpline(entity as ISplineEntity, data, settings);
+    return getSpline(entity as IExtendedSplineEntity, data, settings);
   } else if (entity.type === "TEXT") {
     return getText(entity as ITextEntity, data, settings);
   } else if (entity.type === "MTEXT") {
     return getMtext(entity as IMtextEntity, data, settings);
   } else if (entity.type === "SOLID") {
     return getSolid(entity as ISolidEntity, data, settings);
+  } else if (entity.type === "3DFACE") {
+    return get3DFace(entity as I3DFaceEntity, data, settings);
+  } else if (entity.type === "MESH") {
+    return getMesh(entity as IMeshEntity, data, settings);
+  } else if (entity.type === "3DSOLID" || entity.type === "REGION" || entity.type === "BODY") {
+    return getModelerGeometry(entity as IModelerGeometryEntity, data, settings);
+  } else if (entity.type === "HATCH") {
+    return getHatch(entity as IHatchEntity, data, settings);
   } else if (entity.type === "INSERT") {
     return getBlock(entity as IInsertEntity, data, settings);
+  } else if (entity.type === "ATTRIB" || entity.type === "ATTDEF") {
+    return getAttribute(entity as IAttribEntity, data, settings);
   } else if (entity.type === "DIMENSION") {
-    const dimTypeEnum = (entity as IDimensionEntity).dimensionType & 7;
-    if (dimTypeEnum === 0) {
-      return getDimension(entity as IDimensionEntity, data, settings);
-    } else {
-      console.log("Unsupported Dimension type: " + dimTypeEnum);
-      return null;
-    }
+    return getDimension(entity as IExtendedDimensionEntity, data, settings);
+  } else if (entity.type === "LEADER") {
+    return getLeader(entity as ILeaderEntity, data, settings);
+  } else if (entity.type === "MULTILEADER") {
+    return getMultiLeader(entity as IMultiLeaderEntity, data, settings);
   } else {
-    console.log("Unsupported Entity Type: " + entity.type);
+    reportDiagnostic("error", "Unsupported Entity Type: " + entity.type);
     return null;
   }
 };
 
+// parts of an Object3D which already belong to another entity (e.g. children of blocks) keep their user data
+const setEntityUserData = (object3D: THREE.Object3D, entity: IEntity): void => {
+  object3D.traverse((child) => {
+    if (child.userData.entityType !== undefined) {
+      return;
+    }
+    const userData: DxfEntityUserData = {
+      handle: entity.handle !== undefined ? String(entity.handle) : undefined,
+      entityType: entity.type,
+      layer: entity.layer,
+      ownerHandle: entity.ownerHandle,
+      blockName: undefined,
+    };
+    Object.assign(child.userData, userData);
+  });
+};
+
+// the block name is only set once => nested blocks keep the name of the innermost block
+const setBlockNameUserData = (content: THREE.Group, blockName: string): void => {
+  content.children.forEach((child) =>
+    child.traverse((part) => {
+      if (part.userData.entityType !== undefined && part.userData.blockName === undefined) {
+        part.userData.blockName = blockName;
+      }
+    })
+  );
+};
+
+const getGeometry = (
+  entity: IEntity,
+  data: IDxf,
+  settings: ResolvedDxfToThreeSettings
+): THREE.Points | THREE.Line | THREE.Mesh | THREE.Group | null => {
+  // problems are reported for the innermost entity
+  DIAGNOSTICS_CONTEXT.entities.push(entity);
+  let object3D: THREE.Points | THREE.Line | THREE.Mesh | THREE.Group | null;
+  try {
+    object3D = getEntityGeometry(entity, data, settings);
+  } finally {
+    DIAGNOSTICS_CONTEXT.entities.pop();
+  }
+  countEntity(entity.type, object3D ? "converted" : "skipped");
+  if (object3D) {
+    setEntityUserData(object3D, entity);
+  }
+  return object3D;
+};
+
+// resolve settings
+// ------------------------
+
+const validatePositiveSetting = (name: string, value: undefined | number): void => {
+  if (value !== undefined && !(value > 0.0 && Number.isFinite(value))) {
+    throw new Error("invalid setting " + name + ": " + value + " (must be a positive number)");
+  }
+};
+
+const validateSettings = (settings: ResolvedDxfToThreeSettings): void => {
+  validatePositiveSetting("scaleFactor", settings.scaleFactor);
+  validatePositiveSetting("maxLengthOfArcLineSegment", settings.maxLengthOfArcLineSegment);
+  validatePositiveSetting("maxAnglePerArcLineSegment", settings.maxAnglePerArcLineSegment);
+  validatePositiveSetting("interpolationsPerSplineSegment", settings.interpolationsPerSplineSegment);
+  validatePositiveSetting("chordalTolerance", settings.chordalTolerance);
+  validatePositiveSetting("lineweightScale", settings.lineweightScale);
+  if (!["log", "collect", "throw"].includes(settings.diagnostics)) {
+    throw new Error("invalid setting diagnostics: " + settings.diagnostics + ' (must be "log", "collect" or "throw")');
+  }
+};
+
+const resolveSetting = <T>(value: undefined | T, defaultValue: T): T => {
+  return value !== undefined ? value : defaultValue;
+};
+
+// settings which are not given (or undefined) get their defaults, the given settings are not changed
+const resolveSettings = (settings: undefined | Partial<DxfToThreeSettings>): ResolvedDxfToThreeSettings => {
+  const given = settings || {};
+  const resolved: ResolvedDxfToThreeSettings = {
+    threeFont: given.threeFont || new FontLoader().parse(roboto),
+    troikaFontUrl: given.troikaFontUrl,
+    fonts: given.fonts,
+    fontFallbacks: given.fontFallbacks,
+    useTroikaForText: resolveSetting(given.useTroikaForText, DEFAULT_USE_TROIKA_FOR_TEXT),
+    scaleFactor: resolveSetting(given.scaleFactor, DEFAULT_SCALE_FACTOR),
+    reuseMaterials: resolveSetting(given.reuseMaterials, DEFAULT_REUSE_MATERIALS),
+    setAllZsToZero: resolveSetting(given.setAllZsToZero, DEFAULT_SET_ALL_ZS_TO_ZERO),
+    extrudeThickness: resolveSetting(given.extrudeThickness, DEFAULT_EXTRUDE_THICKNESS),
+    defaultColor: given.defaultColor,
+    backgroundColor: resolveSetting(given.backgroundColor, DEFAULT_BACKGROUND_COLOR),
+    adaptColorsToBackground: resolveSetting(given.adaptColorsToBackground, DEFAULT_ADAPT_COLORS_TO_BACKGROUND),
+    defaultPointMaterial: given.defaultPointMaterial,
+    defaultLayer: given.defaultLayer,
+    layerMapping: given.layerMapping,
+    includeHiddenLayers: resolveSetting(given.includeHiddenLayers, DEFAULT_INCLUDE_HIDDEN_LAYERS),
+    groupByLayer: resolveSetting(given.groupByLayer, DEFAULT_GROUP_BY_LAYER),
+    batchObjects: resolveSetting(given.batchObjects, DEFAULT_BATCH_OBJECTS),
+    diagnostics: resolveSetting(given.diagnostics, DEFAULT_DIAGNOSTICS_MODE),
+    maxLengthOfArcLineSegment: resolveSetting(given.maxLengthOfArcLineSegment, DEFAULT_MAX_LENGTH_OF_ARC_LINE_SEGMENT),
+    maxAnglePerArcLineSegment: resolveSetting(given.maxAnglePerArcLineSegment, DEFAULT_MAX_ANGLE_PER_ARC_LINE_SEGMENT),
+    interpolationsPerSplineSegment: resolveSetting(
+      given.interpolationsPerSplineSegment,
+      DEFAULT_INTERPOLATIONS_PER_SPLINE_SEGMENT
+    ),
+    chordalTolerance: given.chordalTolerance,
+    useFatLines: resolveSetting(given.useFatLines, DEFAULT_USE_FAT_LINES),
+    lineweightsInWorldUnits: resolveSetting(given.lineweightsInWorldUnits, DEFAULT_LINEWEIGHTS_IN_WORLD_UNITS),
+    lineweightScale: given.lineweightScale,
+  };
+  validateSettings(resolved);
+  return resolved;
+};
+
 // convert all entities to THREE.Object3Ds
 // ------------------------
 
@@ -796,65 +4019,318 @@ const setLayerTo = (object3D: THREE.Object3D, layer: number) => {
   object3D.children.forEach((child) => setLayerTo(child, layer));
 };
 
-export const dxfToThreeObject3Ds = (
+const getThreeLayer = (layerName: string, settings: ResolvedDxfToThreeSettings): number | undefined => {
+  if (settings.layerMapping && settings.layerMapping[layerName] !== undefined) {
+    return settings.layerMapping[layerName];
+  }
+  return settings.defaultLayer;
+};
+
+// entities on layers which are switched off or frozen are not shown
+const isLayerVisible = (layerName: string, data: IDxf): boolean => {
+  if (!data.tables || !data.tables.layer || !data.tables.layer.layers[layerName]) {
+    return true;
+  }
+  const layer = data.tables.layer.layers[layerName];
+  return layer.visible !== false && !layer.frozen;
+};
+
+const getVisibleGeometry = (
+  entity: IEntity,
   data: IDxf,
-  settings: undefined | DxfToThreeSettings
-): (THREE.Points | THREE.Line | THREE.Mesh | THREE.Group)[] => {
-  // initialize default settings
-  if (settings === undefined) {
-    settings = {
-      threeFont: new FontLoader().parse(roboto),
-      troikaFontUrl: undefined,
-      scaleFactor: DEFAULT_SCALE_FACTOR,
-      reuseMaterials: DEFAULT_REUSE_MATERIALS,
-      setAllZsToZero: DEFAULT_SET_ALL_ZS_TO_ZERO,
-      defaultColor: undefined,
-      defaultPointMaterial: undefined,
-      defaultLayer: undefined,
-      maxLengthOfArcLineSegment: DEFAULT_MAX_LENGTH_OF_ARC_LINE_SEGMENT,
-      maxAnglePerArcLineSegment: DEFAULT_MAX_ANGLE_PER_ARC_LINE_SEGMENT,
-      interpolationsPerSplineSegment: DEFAULT_INTERPOLATIONS_PER_SPLINE_SEGMENT,
-    };
-  } else if (settings.threeFont === undefined) {
-    settings.threeFont = new FontLoader().parse(roboto);
-  } else if (settings.scaleFactor === undefined) {
-    settings.scaleFactor = DEFAULT_SCALE_FACTOR;
-  } else if (settings.reuseMaterials === undefined) {
-    settings.reuseMaterials = DEFAULT_REUSE_MATERIALS;
-  } else if (settings.setAllZsToZero === undefined) {
-    settings.setAllZsToZero = DEFAULT_SET_ALL_ZS_TO_ZERO;
-  } else if (settings.maxLengthOfArcLineSegment === undefined) {
-    settings.maxLengthOfArcLineSegment = DEFAULT_MAX_LENGTH_OF_ARC_LINE_SEGMENT;
-  } else if (settings.maxAnglePerArcLineSegment === undefined) {
-    settings.maxLengthOfArcLineSegment = DEFAULT_MAX_ANGLE_PER_ARC_LINE_SEGMENT;
-  } else if (settings.maxAnglePerArcLineSegment === undefined) {
-    settings.maxLengthOfArcLineSegment = DEFAULT_INTERPOLATIONS_PER_SPLINE_SEGMENT;
+  settings: ResolvedDxfToThreeSettings
+): THREE.Points | THREE.Line | THREE.Mesh | THREE.Group | null => {
+  const visible = isLayerVisible(entity.layer, data);
+  if (!visible && !settings.includeHiddenLayers) {
+    countEntity(entity.type, "hidden");
+    return null;
   }
+  const object3D = getGeometry(entity, data, settings);
+  if (object3D && !visible) {
+    object3D.visible = false;
+  }
+  return object3D;
+};
 
-  // create Object3Ds
-  const threeObject3Ds: (THREE.Points | THREE.Line | THREE.Mesh | THREE.Group)[] = [];
-  for (let i = 0; i < data.entities.length; i++) {
-    const entity = data.entities[i];
-    const object3D = getGeometry(entity, data, settings);
+const createLayerGroup = (layerName: string, data: IDxf, settings: ResolvedDxfToThreeSettings): THREE.Group => {
+  const group = new THREE.Group();
+  group.name = layerName;
+  group.visible = isLayerVisible(layerName, data);
+  const layer =
+    data.tables && data.tables.layer ? (data.tables.layer.layers[layerName] as IExtendedLayer | undefined) : undefined;
+  group.userData = {
+    layerName: layerName,
+    color: getLayerColor(layerName, data),
+    lineType: layer && layer.lineType ? layer.lineType : "CONTINUOUS",
+    visible: layer ? layer.visible !== false : true,
+    frozen: layer ? !!layer.frozen : false,
+  };
+  const threeLayer = getThreeLayer(layerName, settings);
+  if (threeLayer !== undefined) {
+    setLayerTo(group, threeLayer);
+  }
+  return group;
+};
+
+// converts an entity and adds its Object3D to the result (or to the group of its layer)
+const addEntityObject3D = (
+  entity: IEntity,
+  data: IDxf,
+  settings: ResolvedDxfToThreeSettings,
+  threeObject3Ds: (THREE.Points | THREE.Line | THREE.Mesh | THREE.Group)[],
+  layerGroups: Map<string, THREE.Group>
+): void => {
+  if (!settings.groupByLayer) {
+    const object3D = getVisibleGeometry(entity, data, settings);
     if (object3D) {
-      if (settings.defaultLayer !== undefined) {
-        setLayerTo(object3D, settings.defaultLayer);
+      const threeLayer = getThreeLayer(entity.layer, settings);
+      if (threeLayer !== undefined) {
+        setLayerTo(object3D, threeLayer);
       }
       threeObject3Ds.push(object3D);
     }
+    return;
+  }
+
+  // the visibility of the layer is set on its group
+  if (!isLayerVisible(entity.layer, data) && !settings.includeHiddenLayers) {
+    countEntity(entity.type, "hidden");
+    return;
+  }
+  const object3D = getGeometry(entity, data, settings);
+  if (object3D) {
+    let layerGroup = layerGroups.get(entity.layer);
+    if (layerGroup === undefined) {
+      layerGroup = createLayerGroup(entity.layer, data, settings);
+      layerGroups.set(entity.layer, layerGroup);
+      threeObject3Ds.push(layerGroup);
+    }
+    const threeLayer = getThreeLayer(entity.layer, settings);
+    if (threeLayer !== undefined) {
+      setLayerTo(object3D, threeLayer);
+    }
+    layerGroup.add(object3D);
+  }
+};
+
+// block contents and diagnostics only belong to the running conversion
+const resetConversionContext = (): void => {
+  CACHED_BLOCK_CONTENTS = new Map();
+  INSERT_SCALE = 1.0;
+  DIAGNOSTICS_CONTEXT = createDiagnosticsContext(DEFAULT_DIAGNOSTICS_MODE);
+};
+
+export interface DxfConversionResult {
+  object3Ds: (THREE.Points | THREE.Line | THREE.Mesh | THREE.Group)[];
+  // entity counts and problems of the conversion (see settings.diagnostics)
+  report: DxfConversionReport;
+  // handle of a DXF entity => its Object3Ds (see getObject3DsByHandle), listed before batching: with
+  // settings.batchObjects they are no longer part of object3Ds (their geometries and world matrices are still valid),
+  // the batches contain them as entityIds (see getBatchedEntityId)
+  object3DsByHandle: Map<string, THREE.Object3D[]>;
+}
+
+export const convertDxfToThree = (
+  data: IDxf,
+  settings: undefined | Partial<DxfToThreeSettings>
+): DxfConversionResult => {
+  const resolvedSettings = resolveSettings(settings);
+
+  // create Object3Ds
+  const threeObject3Ds: (THREE.Points | THREE.Line | THREE.Mesh | THREE.Group)[] = [];
+  const layerGroups = new Map<string, THREE.Group>();
+  const diagnosticsContext = createDiagnosticsContext(resolvedSettings.diagnostics);
+  DIAGNOSTICS_CONTEXT = diagnosticsContext;
+  CACHED_BLOCK_CONTENTS = new Map();
+  try {
+    for (const entity of data.entities) {
+      addEntityObject3D(entity, data, resolvedSettings, threeObject3Ds, layerGroups);
+    }
+  } finally {
+    // also if the conversion throws (e.g. diagnostics "throw")
+    resetConversionContext();
+  }
+  const object3DsByHandle = getObject3DsByHandle(threeObject3Ds);
+  return {
+    object3Ds: resolvedSettings.batchObjects ? batchObject3Ds(threeObject3Ds) : threeObject3Ds,
+    report: diagnosticsContext.report,
+    object3DsByHandle: object3DsByHandle,
+  };
+};
+
+export const dxfToThreeObject3Ds = (
+  data: IDxf,
+  settings: undefined | Partial<DxfToThreeSettings>
+): (THREE.Points | THREE.Line | THREE.Mesh | THREE.Group)[] => {
+  return convertDxfToThree(data, settings).object3Ds;
+};
+
+export interface DxfConversionOptions {
+  // number of entities converted before yielding to the event loop (default is 500)
+  chunkSize: undefined | number;
+  // called after every chunk with the number of converted entities
+  onProgress: undefined | ((done: number, total: number) => void);
+  // aborts the conversion => the promise is rejected with the reason of the signal
+  signal: undefined | AbortSignal;
+}
+
+// same as convertDxfToThree, but converts the entities in chunks and yields to the event loop in between
+// => the browser stays responsive, runs in workers and node as well
+export const convertDxfToThreeAsync = async (
+  data: IDxf,
+  settings: undefined | Partial<DxfToThreeSettings>,
+  options?: Partial<DxfConversionOptions>
+): Promise<DxfConversionResult> => {
+  const resolvedSettings = resolveSettings(settings);
+  const chunkSize = options && options.chunkSize && options.chunkSize > 0 ? options.chunkSize : DEFAULT_CHUNK_SIZE;
+  const signal = options && options.signal;
+  const onProgress = options && options.onProgress;
+
+  const threeObject3Ds: (THREE.Points | THREE.Line | THREE.Mesh | THREE.Group)[] = [];
+  const layerGroups = new Map<string, THREE.Group>();
+  // other conversions may run between the chunks => each conversion has its own block contents and diagnostics
+  const blockContents = new Map<string, CachedBlockChild[]>();
+  const diagnosticsContext = createDiagnosticsContext(resolvedSettings.diagnostics);
+  // the Object3Ds converted so far are disposed, they are never returned
+  const throwIfAborted = (): void => {
+    if (signal && signal.aborted) {
+      disposeObject3Ds(threeObject3Ds);
+      throw signal.reason;
+    }
+  };
+  const total = data.entities.length;
+  for (let start = 0; start < total || start === 0; start += chunkSize) {
+    throwIfAborted();
+    CACHED_BLOCK_CONTENTS = blockContents;
+    DIAGNOSTICS_CONTEXT = diagnosticsContext;
+    const end = Math.min(start + chunkSize, total);
+    try {
+      for (let i = start; i < end; i++) {
+        addEntityObject3D(data.entities[i], data, resolvedSettings, threeObject3Ds, layerGroups);
+      }
+    } finally {
+      resetConversionContext();
+    }
+    if (onProgress) {
+      onProgress(end, total);
+    }
+    await new Promise((resolve) => setTimeout(resolve, 0));
   }
-  return threeObject3Ds;
+  throwIfAborted();
+  const object3DsByHandle = getObject3DsByHandle(threeObject3Ds);
+  return {
+    object3Ds: resolvedSettings.batchObjects ? batchObject3Ds(threeObject3Ds) : threeObject3Ds,
+    report: diagnosticsContext.report,
+    object3DsByHandle: object3DsByHandle,
+  };
+};
+
+export const dxfToThreeObject3DsAsync = async (
+  data: IDxf,
+  settings: undefined | Partial<DxfToThreeSettings>,
+  options?: Partial<DxfConversionOptions>
+): Promise<(THREE.Points | THREE.Line | THREE.Mesh | THREE.Group)[]> => {
+  return (await convertDxfToThreeAsync(data, settings, options)).object3Ds;
+};
+
+// handle of a DXF entity => Object3Ds created for it (entities of blocks are created once per insert)
+export const getObject3DsByHandle = (object3Ds: THREE.Object3D[]): Map<string, THREE.Object3D[]> => {
+  const object3DsByHandle = new Map<string, THREE.Object3D[]>();
+  object3Ds.forEach((object3D) =>
+    object3D.traverse((child) => {
+      const handle = (child.userData as Partial<DxfEntityUserData>).handle;
+      // only the topmost Object3D of an entity is listed, not its parts
+      if (handle === undefined || (child.parent && child.parent.userData.handle === handle)) {
+        return;
+      }
+      const handleObject3Ds = object3DsByHandle.get(handle);
+      if (handleObject3Ds) {
+        handleObject3Ds.push(child);
+      } else {
+        object3DsByHandle.set(handle, [child]);
+      }
+    })
+  );
+  return object3DsByHandle;
 };
 
-const disposeObject3D = (object3D: THREE.Object3D): void => {
-  if (object3D instanceof THREE.Points || object3D instanceof THREE.Line || object3D instanceof THREE.Mesh) {
-    object3D.geometry.dispose();
-    object3D.material.dispose();
-  } else if (object3D instanceof THREE.Group) {
-    object3D.children.forEach((object3D) => disposeObject3D(object3D));
+// attributes of inserts
+// ------------------------
+
+export interface DxfInsertAttributes {
+  handle: string;
+  blockName: string;
+  // handles of the inserts containing the insert (outermost first), empty for inserts of the model space
+  // => nested inserts are listed once per insert of their parent block
+  parentHandles: string[];
+  // tag => value (including the constant attributes of the block definition)
+  attributes: Record<string, string>;
+}
+
+const collectInsertAttributes = (
+  entities: IEntity[],
+  data: IDxf,
+  parentHandles: string[],
+  blockNames: string[],
+  insertAttributes: DxfInsertAttributes[]
+): void => {
+  for (const entity of entities) {
+    if (entity.type !== "INSERT") {
+      continue;
+    }
+    const insert = entity as IExtendedInsertEntity;
+    const attributes: Record<string, string> = {};
+    const block = data.blocks[insert.name];
+    if (block && block.entities) {
+      block.entities
+        .filter((child) => child.type === "ATTDEF" && (child as IAttribEntity).constant)
+        .forEach((child) => (attributes[(child as IAttribEntity).tag] = (child as IAttribEntity).text || ""));
+    }
+    if (insert.attributes) {
+      insert.attributes.forEach((attribute) => (attributes[attribute.tag] = attribute.text || ""));
+    }
+    const handle = String(insert.handle);
+    insertAttributes.push({
+      handle: handle,
+      blockName: insert.name,
+      parentHandles: parentHandles,
+      attributes: attributes,
+    });
+    // blocks which (indirectly) insert themselves are not followed
+    if (block && block.entities && !blockNames.includes(insert.name)) {
+      const path = [...parentHandles, handle];
+      collectInsertAttributes(block.entities, data, path, [...blockNames, insert.name], insertAttributes);
+    }
   }
 };
 
+// attribute values of all inserts of the model space and the inserts nested in their blocks (e.g. for parts lists),
+// invisible attributes included
+export const getInsertAttributes = (data: IDxf): DxfInsertAttributes[] => {
+  const insertAttributes: DxfInsertAttributes[] = [];
+  collectInsertAttributes(data.entities, data, [], [], insertAttributes);
+  return insertAttributes;
+};
+
+const collectDisposables = (
+  object3D: THREE.Object3D,
+  geometries: Set<THREE.BufferGeometry>,
+  materials: Set<THREE.Material>
+): void => {
+  object3D.traverse((child) => {
+    if (child instanceof THREE.Points || child instanceof THREE.Line || child instanceof THREE.Mesh) {
+      geometries.add(child.geometry);
+      const childMaterials: THREE.Material[] = Array.isArray(child.material) ? child.material : [child.material];
+      childMaterials.forEach((material) => materials.add(material));
+    }
+  });
+};
+
 export const disposeObject3Ds = (object3Ds: (THREE.Points | THREE.Line | THREE.Mesh | THREE.Group)[]): void => {
-  object3Ds.forEach((object3D) => disposeObject3D(object3D));
+  // geometries and materials may be shared (e.g. by inserts of the same block) => dispose each only once
+  const geometries = new Set<THREE.BufferGeometry>();
+  const materials = new Set<THREE.Material>();
+  object3Ds.forEach((object3D) => collectDisposables(object3D, geometries, materials));
+  geometries.forEach((geometry) => geometry.dispose());
+  materials.forEach((material) => material.dispose());
 };
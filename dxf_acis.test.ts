@@ -0,0 +1,38 @@
+// Node test of the SAT data of 3DSOLID entities
+//   npx esbuild dxf_acis.test.ts --bundle --platform=node --outfile=build/dxf_acis.test.js
+//   node --test build/dxf_acis.test.js
+import DxfParser from "dxf-parser";
+import * as assert from "node:assert";
+import { readFileSync } from "node:fs";
+import { test } from "node:test";
+
+import { parseAcisSat } from "./dxf_acis";
+import { IModelerGeometryEntity, registerDxfParserEntities } from "./dxf_parser_entities";
+
+// 3DSOLID of an AutoCAD 2000 (AC1015) file: a 10x10x10 box in ACIS 4.00 format with encrypted SAT lines and a name
+// attribute "Box # 10mm" (upper case letters and "@" are only decrypted correctly with 159 - code, the "#" in the
+// string must not end the record)
+test("encrypted SAT data of AutoCAD 2000 is decoded", () => {
+  const parser = new DxfParser();
+  registerDxfParserEntities(parser);
+  const dxf = parser.parseSync(readFileSync("sample/solid_r2000.dxf", "utf8"))!;
+  const solid = dxf.entities[0] as IModelerGeometryEntity;
+  assert.strictEqual(solid.type, "3DSOLID");
+  assert.ok(!/^\s*\d/.test(solid.acisData[0]));
+
+  const acis = parseAcisSat(solid.acisData, Math.PI / 18.0)!;
+  assert.strictEqual(acis.edges.length, 0);
+  assert.strictEqual(acis.planarFaces.length, 6);
+  const normals = acis.planarFaces.map(({ normal }) => [normal.x, normal.y, normal.z].join(",")).sort();
+  assert.deepStrictEqual(normals, ["-1,0,0", "0,-1,0", "0,0,-1", "0,0,1", "0,1,0", "1,0,0"]);
+  for (const { normal, loops } of acis.planarFaces) {
+    assert.strictEqual(loops.length, 1);
+    assert.strictEqual(loops[0].length, 4);
+    for (const point of loops[0]) {
+      assert.ok([point.x, point.y, point.z].every((value) => value === 0 || value === 10));
+    }
+    // the face lies on the side of the box its normal points to
+    const offset = normal.x * loops[0][0].x + normal.y * loops[0][0].y + normal.z * loops[0][0].z;
+    assert.strictEqual(offset, normal.x + normal.y + normal.z > 0 ? 10 : 0);
+  }
+});
@@ -0,0 +1,260 @@
+// ACIS SAT data of 3DSOLID, REGION and BODY entities => planar faces and edges
+// DXF files up to AutoCAD 2010 contain the SAT text in the entity (encrypted character by character), later ones
+// store binary SAB data in the ACDSDATA section, which is not supported.
+// Only the topology (face => loop => coedge => edge => vertex => point) and the geometry of planes, lines and
+// ellipses are evaluated: faces on planes become polygons, the edges of all other faces are returned as polylines.
+// The fields of the records differ between the ACIS versions, therefore references are identified by the type of
+// the referenced record instead of their position.
+import { IPoint } from "dxf-parser";
+
+export interface AcisPlanarFace {
+  // normal of the face (pointing outwards of solids)
+  normal: IPoint;
+  // outer boundary and holes (in no particular order), without closing points
+  loops: IPoint[][];
+}
+
+export interface AcisModel {
+  planarFaces: AcisPlanarFace[];
+  // edges which don't belong to a planar face (faces on other surfaces and wires)
+  edges: IPoint[][];
+}
+
+interface SatRecord {
+  type: string;
+  tokens: string[];
+}
+
+// every character except the space is replaced by the one with the code 159 - code
+const decryptSat = (line: string): string =>
+  Array.from(line)
+    .map((c) => (c === " " ? c : String.fromCharCode(159 - c.charCodeAt(0))))
+    .join("");
+
+// records are terminated by "#", strings are written as "@<length> <characters>"
+const parseSatRecords = (text: string): SatRecord[] => {
+  const records: SatRecord[] = [];
+  let tokens: string[] = [];
+  let i = 0;
+  while (i < text.length) {
+    while (i < text.length && /\s/.test(text[i])) {
+      i++;
+    }
+    let end = i;
+    while (end < text.length && !/\s/.test(text[end])) {
+      end++;
+    }
+    let token = text.slice(i, end);
+    i = end;
+    if (/^@\d+$/.test(token)) {
+      token = text.slice(i + 1, i + 1 + parseInt(token.slice(1), 10));
+      i += 1 + token.length;
+    }
+    if (token === "#") {
+      // records may start with their index (e.g. "-12 face ...")
+      const start = tokens.length > 0 && /^-\d+$/.test(tokens[0]) ? 1 : 0;
+      records.push({ type: tokens[start] || "", tokens: tokens.slice(start + 1) });
+      tokens = [];
+    } else if (token === "End-of-ACIS-data") {
+      break;
+    } else if (token) {
+      tokens.push(token);
+    }
+  }
+  return records;
+};
+
+// vectors
+// ------------------------
+
+const add = (a: IPoint, b: IPoint): IPoint => ({ x: a.x + b.x, y: a.y + b.y, z: a.z + b.z });
+const subtract = (a: IPoint, b: IPoint): IPoint => ({ x: a.x - b.x, y: a.y - b.y, z: a.z - b.z });
+const scale = (a: IPoint, factor: number): IPoint => ({ x: a.x * factor, y: a.y * factor, z: a.z * factor });
+const dot = (a: IPoint, b: IPoint): number => a.x * b.x + a.y * b.y + a.z * b.z;
+const cross = (a: IPoint, b: IPoint): IPoint => ({
+  x: a.y * b.z - a.z * b.y,
+  y: a.z * b.x - a.x * b.z,
+  z: a.x * b.y - a.y * b.x,
+});
+const length = (a: IPoint): number => Math.sqrt(dot(a, a));
+const isSamePoint = (a: IPoint, b: IPoint): boolean => length(subtract(a, b)) < 1e-9;
+
+// topology
+// ------------------------
+
+// the referenced records of a record with the given type, e.g. "loop" or "-surface" (=> all kinds of surfaces)
+const getReferences = (records: SatRecord[], record: SatRecord, type: string): SatRecord[] => {
+  const isType = (referenced: SatRecord): boolean =>
+    type.startsWith("-") ? referenced.type.endsWith(type) : referenced.type === type;
+  return record.tokens
+    .filter((token) => /^\$\d+$/.test(token))
+    .map((token) => records[parseInt(token.slice(1), 10)])
+    .filter((referenced) => referenced && isType(referenced));
+};
+
+const getReference = (records: SatRecord[], record: SatRecord, type: string): SatRecord | undefined =>
+  getReferences(records, record, type)[0];
+
+// numbers following the last reference
+const getNumbers = (record: SatRecord): number[] => {
+  const last = record.tokens.map((token) => token.startsWith("$")).lastIndexOf(true);
+  const values: number[] = [];
+  for (const token of record.tokens.slice(last + 1)) {
+    if (!/^[-+]?(\d|\.\d)/.test(token)) break;
+    values.push(parseFloat(token));
+  }
+  return values;
+};
+
+const isReversed = (record: SatRecord): boolean =>
+  record.tokens.find((token) => token === "forward" || token === "reversed") === "reversed";
+
+const getVertexPoint = (records: SatRecord[], vertex: SatRecord | undefined): IPoint | undefined => {
+  const point = vertex && getReference(records, vertex, "point");
+  const values = point ? getNumbers(point) : [];
+  return values.length >= 3 ? { x: values[0], y: values[1], z: values[2] } : undefined;
+};
+
+// points from the start to the end vertex, straight lines for other curves than ellipses
+const getEdgePoints = (records: SatRecord[], edge: SatRecord, maxAnglePerSegment: number): IPoint[] => {
+  const vertices = getReferences(records, edge, "vertex");
+  const start = getVertexPoint(records, vertices[0]);
+  const end = getVertexPoint(records, vertices[1] || vertices[0]);
+  if (!start || !end) {
+    return [];
+  }
+  const curve = getReference(records, edge, "-curve");
+  const values = curve && curve.type === "ellipse-curve" ? getNumbers(curve) : [];
+  if (values.length < 10) {
+    return isSamePoint(start, end) ? [] : [start, end];
+  }
+  // center, normal, major axis (its length is the major radius) and ratio of the radii
+  const center = { x: values[0], y: values[1], z: values[2] };
+  const normal = { x: values[3], y: values[4], z: values[5] };
+  const majorAxis = { x: values[6], y: values[7], z: values[8] };
+  const minorAxis = scale(cross(normal, majorAxis), values[9] / length(normal));
+  const getAngle = (point: IPoint): number => {
+    const offset = subtract(point, center);
+    return Math.atan2(
+      dot(offset, minorAxis) / dot(minorAxis, minorAxis),
+      dot(offset, majorAxis) / dot(majorAxis, majorAxis)
+    );
+  };
+  // edges in the direction of the curve run counter-clockwise around the normal
+  const direction = isReversed(edge) ? -1.0 : 1.0;
+  const startAngle = getAngle(start);
+  let sweep = direction * (getAngle(end) - startAngle);
+  while (sweep <= 1e-9) {
+    sweep += 2.0 * Math.PI;
+  }
+  const segments = Math.max(2, Math.ceil(sweep / maxAnglePerSegment));
+  const points: IPoint[] = [];
+  for (let i = 0; i <= segments; i++) {
+    const angle = startAngle + (direction * sweep * i) / segments;
+    points.push(add(center, add(scale(majorAxis, Math.cos(angle)), scale(minorAxis, Math.sin(angle)))));
+  }
+  return points;
+};
+
+// the coedges of a loop are linked by their first coedge reference
+const getLoopEdges = (records: SatRecord[], loop: SatRecord): { edge: SatRecord; isReversed: boolean }[] => {
+  const edges: { edge: SatRecord; isReversed: boolean }[] = [];
+  const first = getReference(records, loop, "coedge");
+  let coedge = first;
+  while (coedge && edges.length < records.length) {
+    const edge = getReference(records, coedge, "edge");
+    if (edge) {
+      edges.push({ edge: edge, isReversed: isReversed(coedge) });
+    }
+    coedge = getReference(records, coedge, "coedge");
+    if (coedge === first) break;
+  }
+  return edges;
+};
+
+const getFaceLoops = (records: SatRecord[], face: SatRecord): SatRecord[] => {
+  const loops: SatRecord[] = [];
+  let loop = getReference(records, face, "loop");
+  while (loop && !loops.includes(loop)) {
+    loops.push(loop);
+    loop = getReference(records, loop, "loop");
+  }
+  return loops;
+};
+
+// transformation of the body: 3x3 matrix (row vectors), translation and scale
+// (newer versions write an additional number in front of them)
+const getBodyTransform = (records: SatRecord[]): ((point: IPoint) => IPoint) => {
+  const body = records.find((record) => record.type === "body");
+  const transform = body && getReference(records, body, "transform");
+  const values = transform ? getNumbers(transform).slice(-13) : [];
+  if (values.length < 13) {
+    return (point) => point;
+  }
+  const factor = values[12];
+  return (point) => ({
+    x: (point.x * values[0] + point.y * values[3] + point.z * values[6]) * factor + values[9],
+    y: (point.x * values[1] + point.y * values[4] + point.z * values[7]) * factor + values[10],
+    z: (point.x * values[2] + point.y * values[5] + point.z * values[8]) * factor + values[11],
+  });
+};
+
+// joins the points of the edges (in the direction of the coedges) to a polygon without closing point
+const getLoopPolygon = (records: SatRecord[], loop: SatRecord, maxAnglePerSegment: number): IPoint[] => {
+  const polygon: IPoint[] = [];
+  for (const { edge, isReversed } of getLoopEdges(records, loop)) {
+    const points = getEdgePoints(records, edge, maxAnglePerSegment);
+    if (isReversed) {
+      points.reverse();
+    }
+    points.forEach((point) => {
+      if (polygon.length === 0 || !isSamePoint(polygon[polygon.length - 1], point)) {
+        polygon.push(point);
+      }
+    });
+  }
+  if (polygon.length > 1 && isSamePoint(polygon[0], polygon[polygon.length - 1])) {
+    polygon.pop();
+  }
+  return polygon;
+};
+
+// SAT lines of the entity => planar faces and edges, undefined if there is no SAT data
+export const parseAcisSat = (lines: string[], maxAnglePerSegment: number): AcisModel | undefined => {
+  if (lines.length === 0) {
+    return undefined;
+  }
+  // unencrypted data starts with the version number
+  const text = (/^\s*\d/.test(lines[0]) ? lines : lines.map(decryptSat)).join("\n");
+  // the header consists of three lines: version and counts, product and date, units and tolerances
+  const headerEnd = text.split("\n", 3).join("\n").length;
+  const records = parseSatRecords(text.slice(headerEnd));
+  const transform = getBodyTransform(records);
+  const origin = transform({ x: 0.0, y: 0.0, z: 0.0 });
+
+  const acis: AcisModel = { planarFaces: [], edges: [] };
+  const planarEdges = new Set<SatRecord>();
+  for (const face of records.filter((record) => record.type === "face")) {
+    const surface = getReference(records, face, "-surface");
+    const values = surface && surface.type === "plane-surface" ? getNumbers(surface) : [];
+    if (values.length < 6) {
+      continue;
+    }
+    const normal = subtract(transform({ x: values[3], y: values[4], z: values[5] }), origin);
+    const loops = getFaceLoops(records, face);
+    acis.planarFaces.push({
+      normal: scale(normal, isReversed(face) ? -1.0 : 1.0),
+      loops: loops
+        .map((loop) => getLoopPolygon(records, loop, maxAnglePerSegment).map(transform))
+        .filter((polygon) => polygon.length >= 3),
+    });
+    loops.forEach((loop) => getLoopEdges(records, loop).forEach(({ edge }) => planarEdges.add(edge)));
+  }
+  for (const edge of records.filter((record) => record.type === "edge" && !planarEdges.has(record))) {
+    const points = getEdgePoints(records, edge, maxAnglePerSegment);
+    if (points.length >= 2) {
+      acis.edges.push(points.map(transform));
+    }
+  }
+  return acis;
+};
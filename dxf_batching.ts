@@ -0,0 +1,248 @@
+// Batched output (settings.batchObjects): the Object3Ds of all entities are merged to a few draw calls
+//   - lines with the same material => one THREE.LineSegments with indexed geometry
+//   - meshes (solids, hatches, texts, 3D faces, ...) with the same material => one THREE.Mesh
+// The materials are shared via the material caches (settings.reuseMaterials), i.e. there is one batch per color,
+// linetype and THREE layer. Points, fat lines and troika texts are kept as they are, i.e. also the parts which are
+// added to MTEXT (and aligned TEXT) after the layout of their troika texts (see waitForTextLayouts).
+// Every vertex has the index of its entity in the "entityId" attribute, the user data of the batch lists the
+// entities and the index ranges of their segments or triangles:
+//   const hit = raycaster.intersectObjects(object3Ds, true)[0];
+//   const entityId = getBatchedEntityId(hit);
+//   const highlight = createBatchedEntityHighlight(hit.object, entityId, highlightMaterial);
+// Snapping and retessellateCurves need the Object3Ds of the entities, i.e. they don't work with batches.
+import * as THREE from "three";
+import { LineSegments2 } from "three/examples/jsm/lines/LineSegments2.js";
+import { Text } from "troika-three-text";
+
+import { DxfEntityUserData } from "./dfx_to_three";
+
+export interface DxfBatchUserData {
+  // user data of the entities, their index is the value of the "entityId" attribute
+  entities: DxfEntityUserData[];
+  // per entity: first index and number of indices (ranges of the index of the geometry)
+  ranges: [number, number][];
+}
+
+interface Batch {
+  kind: "line" | "mesh";
+  material: THREE.Material;
+  layers: number;
+  positions: number[];
+  lineDistances: number[] | undefined;
+  indices: number[];
+  entityIds: number[];
+  userData: DxfBatchUserData;
+}
+
+const isBatchable = (object3D: THREE.Object3D): object3D is THREE.Line | THREE.Mesh => {
+  if (object3D instanceof THREE.Line) {
+    return !Array.isArray(object3D.material);
+  }
+  return (
+    object3D instanceof THREE.Mesh &&
+    !(object3D instanceof LineSegments2) &&
+    !(object3D instanceof Text) &&
+    !Array.isArray(object3D.material)
+  );
+};
+
+// pairs of vertex indices of the segments of lines, triples of the triangles of meshes
+const getElementIndices = (object3D: THREE.Line | THREE.Mesh, matrix: THREE.Matrix4): number[] => {
+  const geometry = object3D.geometry;
+  const count = geometry.index ? geometry.index.count : geometry.getAttribute("position").count;
+  const getIndex = (i: number): number => (geometry.index ? geometry.index.getX(i) : i);
+  const indices: number[] = [];
+  if (object3D instanceof THREE.LineSegments) {
+    for (let i = 0; i + 1 < count; i += 2) {
+      indices.push(getIndex(i), getIndex(i + 1));
+    }
+  } else if (object3D instanceof THREE.Line) {
+    for (let i = 0; i + 1 < count; i++) {
+      indices.push(getIndex(i), getIndex(i + 1));
+    }
+    if (object3D instanceof THREE.LineLoop && count > 2) {
+      indices.push(getIndex(count - 1), getIndex(0));
+    }
+  } else {
+    // mirrored meshes (negative determinant) keep facing the same side
+    const isMirrored = matrix.determinant() < 0.0;
+    for (let i = 0; i + 2 < count; i += 3) {
+      indices.push(
+        getIndex(i),
+        isMirrored ? getIndex(i + 2) : getIndex(i + 1),
+        isMirrored ? getIndex(i + 1) : getIndex(i + 2)
+      );
+    }
+  }
+  return indices;
+};
+
+const addToBatch = (batch: Batch, object3D: THREE.Line | THREE.Mesh, matrix: THREE.Matrix4): void => {
+  const geometry = object3D.geometry;
+  const position = geometry.getAttribute("position");
+  const lineDistance = geometry.getAttribute("lineDistance");
+  const offset = batch.positions.length / 3;
+  const point = new THREE.Vector3();
+  for (let i = 0; i < position.count; i++) {
+    point.fromBufferAttribute(position, i).applyMatrix4(matrix);
+    batch.positions.push(point.x, point.y, point.z);
+    batch.entityIds.push(batch.userData.entities.length);
+    if (batch.lineDistances) {
+      batch.lineDistances.push(lineDistance ? lineDistance.getX(i) : 0.0);
+    }
+  }
+  const start = batch.indices.length;
+  getElementIndices(object3D, matrix).forEach((index) => batch.indices.push(offset + index));
+  batch.userData.ranges.push([start, batch.indices.length - start]);
+  batch.userData.entities.push({ ...(object3D.userData as DxfEntityUserData) });
+};
+
+const createBatchObject3D = (batch: Batch): THREE.LineSegments | THREE.Mesh => {
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute("position", new THREE.Float32BufferAttribute(batch.positions, 3));
+  geometry.setAttribute("entityId", new THREE.Float32BufferAttribute(batch.entityIds, 1));
+  if (batch.lineDistances) {
+    geometry.setAttribute("lineDistance", new THREE.Float32BufferAttribute(batch.lineDistances, 1));
+  }
+  geometry.setIndex(batch.indices);
+  const object3D =
+    batch.kind === "line" ? new THREE.LineSegments(geometry, batch.material) : new THREE.Mesh(geometry, batch.material);
+  object3D.layers.mask = batch.layers;
+  object3D.userData = batch.userData;
+  return object3D;
+};
+
+// removes a batched Object3D, its (not batched) children take its place
+const removeBatched = (object3D: THREE.Object3D): void => {
+  const parent = object3D.parent!;
+  for (const child of [...object3D.children]) {
+    child.applyMatrix4(object3D.matrix);
+    parent.add(child);
+  }
+  parent.remove(object3D);
+};
+
+// groups which are empty after batching their content are removed (except the groups of layers)
+// => groups which are still empty (e.g. MTEXT before the layout of its texts) are kept
+const pruneEmptyGroups = (object3D: THREE.Object3D, batchedParents: Set<THREE.Object3D>): boolean => {
+  object3D.children
+    .filter((child) => pruneEmptyGroups(child, batchedParents))
+    .forEach((child) => object3D.remove(child));
+  return (
+    object3D instanceof THREE.Group &&
+    object3D.children.length === 0 &&
+    object3D.userData.layerName === undefined &&
+    batchedParents.has(object3D)
+  );
+};
+
+// visible lines and meshes are moved into batches, the batches are added to the root (e.g. the group of a layer)
+const batchRoot = (root: THREE.Object3D): THREE.Object3D[] => {
+  const batches = new Map<string, Batch>();
+  const materialIds = new Map<THREE.Material, number>();
+  const batched: (THREE.Line | THREE.Mesh)[] = [];
+  const rootInverse = root.matrixWorld.clone().invert();
+  const matrix = new THREE.Matrix4();
+  const collect = (object3D: THREE.Object3D): void => {
+    // invisible parts stay as they are, invisible layers are batched nevertheless
+    if (!object3D.visible && object3D !== root) {
+      return;
+    }
+    if (object3D !== root && isBatchable(object3D)) {
+      const material = object3D.material as THREE.Material;
+      if (!materialIds.has(material)) {
+        materialIds.set(material, materialIds.size);
+      }
+      const kind = object3D instanceof THREE.Line ? "line" : "mesh";
+      const key = [kind, materialIds.get(material), object3D.layers.mask].join("|");
+      let batch = batches.get(key);
+      if (batch === undefined) {
+        batch = {
+          kind: kind,
+          material: material,
+          layers: object3D.layers.mask,
+          positions: [],
+          lineDistances: material instanceof THREE.LineDashedMaterial ? [] : undefined,
+          indices: [],
+          entityIds: [],
+          userData: { entities: [], ranges: [] },
+        };
+        batches.set(key, batch);
+      }
+      addToBatch(batch, object3D, matrix.multiplyMatrices(rootInverse, object3D.matrixWorld));
+      batched.push(object3D);
+    }
+    object3D.children.forEach(collect);
+  };
+  collect(root);
+
+  // the ancestors of batched Object3Ds may become empty
+  const batchedParents = new Set<THREE.Object3D>();
+  batched.forEach((object3D) => object3D.traverseAncestors((ancestor) => batchedParents.add(ancestor)));
+  // children before their parents => only the not batched children have to be kept
+  batched.reverse().forEach(removeBatched);
+  pruneEmptyGroups(root, batchedParents);
+  return Array.from(batches.values()).map(createBatchObject3D);
+};
+
+export const batchObject3Ds = (
+  object3Ds: (THREE.Points | THREE.Line | THREE.Mesh | THREE.Group)[]
+): (THREE.Points | THREE.Line | THREE.Mesh | THREE.Group)[] => {
+  const layerGroups = object3Ds.filter((object3D) => object3D.userData.layerName !== undefined);
+  object3Ds.forEach((object3D) => object3D.updateMatrixWorld(true));
+  // groups of layers keep their batches (=> their visibility still switches the layer)
+  layerGroups.forEach((layerGroup) => batchRoot(layerGroup).forEach((batch) => layerGroup.add(batch)));
+  const scene = new THREE.Group();
+  object3Ds.filter((object3D) => !layerGroups.includes(object3D)).forEach((object3D) => scene.add(object3D));
+  const batches = batchRoot(scene);
+  const remaining = [...layerGroups, ...scene.children, ...batches];
+  scene.clear();
+  return remaining as (THREE.Points | THREE.Line | THREE.Mesh | THREE.Group)[];
+};
+
+// picking
+// ------------------------
+
+// index of the entity of an intersection with a batch (see DxfBatchUserData), undefined for other Object3Ds
+export const getBatchedEntityId = (intersection: THREE.Intersection): number | undefined => {
+  const object3D = intersection.object;
+  if (!(object3D instanceof THREE.LineSegments || object3D instanceof THREE.Mesh)) {
+    return undefined;
+  }
+  const entityId = object3D.geometry.getAttribute("entityId");
+  if (!entityId) {
+    return undefined;
+  }
+  // lines report the index of the segment's first index, meshes their face
+  const index = object3D.geometry.index;
+  const vertex =
+    object3D instanceof THREE.LineSegments
+      ? index && intersection.index !== undefined
+        ? index.getX(intersection.index)
+        : intersection.index
+      : intersection.face
+      ? intersection.face.a
+      : undefined;
+  return vertex !== undefined ? entityId.getX(vertex) : undefined;
+};
+
+// the segments or triangles of one entity of a batch, e.g. with another material for highlighting
+// (the attributes are shared with the batch, i.e. don't dispose the geometry of the highlight)
+export const createBatchedEntityHighlight = (
+  batch: THREE.LineSegments | THREE.Mesh,
+  entityId: number,
+  material: THREE.Material
+): THREE.LineSegments | THREE.Mesh => {
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute("position", batch.geometry.getAttribute("position"));
+  geometry.setIndex(batch.geometry.index);
+  const [start, count] = (batch.userData as DxfBatchUserData).ranges[entityId];
+  geometry.setDrawRange(start, count);
+  const highlight =
+    batch instanceof THREE.LineSegments
+      ? new THREE.LineSegments(geometry, material)
+      : new THREE.Mesh(geometry, material);
+  highlight.matrix.copy(batch.matrixWorld);
+  highlight.matrixAutoUpdate = false;
+  return highlight;
+};
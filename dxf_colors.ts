@@ -0,0 +1,85 @@
+// Color resolution of entities the way CAD programs do it:
+//   ACI (AutoCAD Color Index) 1..255 => RGB
+//   ACI 0   => BYBLOCK (color of the INSERT, white/black outside of blocks)
+//   ACI 256 => BYLAYER (color of the layer, the default if no color is given)
+//   group code 420 => true color (24 bit RGB), colors of color books (group code 430) are stored as true colors too
+// Only ACI 7 (the foreground color) is adapted to the background, true colors are drawn as they are.
+import { IDxf, IEntity } from "dxf-parser";
+import ACI_COLORS from "dxf-parser/dist/AutoCadColorIndex";
+
+import { ITrueColorEntity } from "./dxf_parser_entities";
+import { IExtendedLayer } from "./dxf_parser_tables";
+
+export const COLOR_INDEX_BYBLOCK = 0;
+export const COLOR_INDEX_BYLAYER = 256;
+// white on dark backgrounds, black on light backgrounds
+export const COLOR_INDEX_FOREGROUND = 7;
+
+const WHITE = 0xffffff;
+const BLACK = 0x000000;
+
+// indices outside of 1..255 are shown with the foreground color
+const isForegroundColorIndex = (colorIndex: number): boolean => {
+  const index = Math.abs(colorIndex);
+  return index < 1 || index > 255 || index === COLOR_INDEX_FOREGROUND;
+};
+
+export const getAciColor = (colorIndex: number): number => {
+  return isForegroundColorIndex(colorIndex) ? ACI_COLORS[COLOR_INDEX_FOREGROUND] : ACI_COLORS[Math.abs(colorIndex)];
+};
+
+export const isForegroundLayerColor = (layerName: string, data: IDxf): boolean => {
+  if (!data.tables || !data.tables.layer || !data.tables.layer.layers[layerName]) {
+    return true;
+  }
+  const layer = data.tables.layer.layers[layerName] as IExtendedLayer;
+  return layer.trueColor === undefined && (layer.colorIndex === undefined || isForegroundColorIndex(layer.colorIndex));
+};
+
+export const getLayerColor = (layerName: string, data: IDxf): number => {
+  if (!data.tables || !data.tables.layer || !data.tables.layer.layers[layerName]) {
+    return ACI_COLORS[COLOR_INDEX_FOREGROUND];
+  }
+  const layer = data.tables.layer.layers[layerName] as IExtendedLayer;
+  if (layer.trueColor !== undefined) {
+    return layer.trueColor;
+  }
+  // negative color indices mark layers which are switched off
+  return layer.colorIndex !== undefined ? getAciColor(layer.colorIndex) : ACI_COLORS[COLOR_INDEX_FOREGROUND];
+};
+
+// children of blocks are resolved by getBlock (see inheritFromInsert) before they are converted,
+// so BYBLOCK is only left for entities outside of blocks
+export const resolveEntityColor = (entity: IEntity, data: IDxf): number => {
+  if (entity.colorIndex === COLOR_INDEX_BYBLOCK) {
+    return ACI_COLORS[COLOR_INDEX_FOREGROUND];
+  }
+  if (entity.colorIndex === COLOR_INDEX_BYLAYER || entity.color === undefined || entity.color === null) {
+    return getLayerColor(entity.layer, data);
+  }
+  // dxf-parser stores true colors (420) and ACI colors (62) in the same property
+  return entity.color;
+};
+
+// entities with ACI 7 (also via BYLAYER and BYBLOCK), but not with a true color
+export const isForegroundColor = (entity: IEntity, data: IDxf): boolean => {
+  if (entity.colorIndex === COLOR_INDEX_BYBLOCK) {
+    return true;
+  }
+  if (entity.colorIndex === COLOR_INDEX_BYLAYER || entity.color === undefined || entity.color === null) {
+    return isForegroundLayerColor(entity.layer, data);
+  }
+  return entity.colorIndex === COLOR_INDEX_FOREGROUND && (entity as ITrueColorEntity).trueColor === undefined;
+};
+
+const getLuminance = (color: number): number => {
+  const r = (color >> 16) & 0xff;
+  const g = (color >> 8) & 0xff;
+  const b = color & 0xff;
+  return (0.299 * r + 0.587 * g + 0.114 * b) / 255;
+};
+
+// the foreground color (ACI 7) is black on light and white on dark backgrounds
+export const getForegroundColor = (backgroundColor: number): number => {
+  return getLuminance(backgroundColor) >= 0.5 ? BLACK : WHITE;
+};
@@ -0,0 +1,339 @@
+// MTEXT content => columns of paragraphs with formatted runs
+// The content is parsed by @dxfom/mtext; the codes which it doesn't know are replaced by placeholders before:
+//   \p...;  paragraph properties (indents, alignment, tabs), e.g. \pxi-3,l3,t3; or \pxqc;
+//   \c...;  true color (24 bit BGR)
+//   \N      column break
+//   \~      non-breaking space
+//   \X      line break of dimension texts (text above/below the dimension line)
+// Control characters are encoded with a caret in DXF files (^I = tab, ^J = line feed).
+// Special characters (%%c, \U+XXXX, ...) are decoded before (see dxf_text_codes.ts), %%u and %%o become \L and \O.
+import { DxfMTextContentElement, parseDxfMTextContent } from "@dxfom/mtext";
+
+import { readTextCode } from "./dxf_text_codes";
+
+export interface MTextStyle {
+  // font family of \f (undefined => font of the entity)
+  font: string | undefined;
+  bold: boolean;
+  italic: boolean;
+  height: number;
+  widthFactor: number;
+  // in degrees
+  obliqueAngle: number;
+  // 1.0 => normal spacing between the characters
+  tracking: number;
+  // ACI of \C (undefined => color of the entity)
+  colorIndex: number | undefined;
+  // 24 bit RGB of \c, overrides colorIndex
+  trueColor: number | undefined;
+  underline: boolean;
+  overline: boolean;
+  strikeThrough: boolean;
+  // vertical alignment of the characters in a line: 0 = bottom, 1 = center, 2 = top
+  alignment: number;
+}
+
+// indents and tab stops in multiples of the text height of the entity
+export interface MTextParagraphStyle {
+  // indent of the first line relative to left
+  indent: number;
+  left: number;
+  right: number;
+  alignment: "left" | "center" | "right" | "justify";
+  tabs: number[];
+}
+
+export interface MTextTextRun {
+  type: "text";
+  text: string;
+  style: MTextStyle;
+}
+
+// "/" => fraction with a horizontal bar, "#" => fraction with a diagonal slash, "^" => tolerance (no bar)
+export interface MTextStackRun {
+  type: "stack";
+  upper: string;
+  lower: string;
+  stackType: "/" | "#" | "^";
+  style: MTextStyle;
+}
+
+export interface MTextTabRun {
+  type: "tab";
+  style: MTextStyle;
+}
+
+export type MTextRun = MTextTextRun | MTextStackRun | MTextTabRun;
+
+export interface MTextParagraph {
+  style: MTextParagraphStyle;
+  runs: MTextRun[];
+  // text height at the end of the paragraph (height of empty paragraphs)
+  height: number;
+}
+
+export interface MTextColumn {
+  paragraphs: MTextParagraph[];
+}
+
+// private use characters which don't appear in drawings
+const PARAGRAPH_PROPERTIES = "\ue000";
+const TRUE_COLOR = "\ue001";
+const COLUMN_BREAK = "\ue002";
+// @dxfom/mtext replaces every "%%" => percent signs are hidden from it
+const PERCENT = "\ue003";
+
+interface EscapedMText {
+  text: string;
+  paragraphProperties: string[];
+  trueColors: number[];
+}
+
+// decoded characters which have a meaning in MTEXT are escaped
+const escapeCharacters = (text: string): string => text.replace(/[\\{}]/g, (c) => "\\" + c).replace(/%/g, PERCENT);
+
+const escapeUnsupportedCodes = (text: string, encoding: string): EscapedMText => {
+  const escaped: EscapedMText = { text: "", paragraphProperties: [], trueColors: [] };
+  const toggles = { underline: false, overline: false };
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    const textCode = readTextCode(text, i, encoding);
+    if (textCode) {
+      if (textCode.toggle) {
+        toggles[textCode.toggle] = !toggles[textCode.toggle];
+        const code = textCode.toggle === "underline" ? "L" : "O";
+        escaped.text += "\\" + (toggles[textCode.toggle] ? code : code.toLowerCase());
+      } else {
+        escaped.text += escapeCharacters(textCode.text);
+      }
+      i += textCode.length - 1;
+      continue;
+    }
+    if (c === "%") {
+      escaped.text += PERCENT;
+      continue;
+    }
+    if (c === "^" && (text[i + 1] === "I" || text[i + 1] === "J")) {
+      escaped.text += text[i + 1] === "I" ? "\t" : "\\P";
+      i++;
+      continue;
+    }
+    if (c !== "\\" || i + 1 >= text.length) {
+      escaped.text += c;
+      continue;
+    }
+    const code = text[i + 1];
+    const end = text.indexOf(";", i);
+    if (code === "p" && end !== -1) {
+      escaped.paragraphProperties.push(text.slice(i + 2, end));
+      escaped.text += PARAGRAPH_PROPERTIES;
+      i = end;
+    } else if (code === "c" && end !== -1) {
+      const bgr = parseInt(text.slice(i + 2, end), 10);
+      escaped.trueColors.push(((bgr & 0xff) << 16) | (bgr & 0xff00) | ((bgr >> 16) & 0xff));
+      escaped.text += TRUE_COLOR;
+      i = end;
+    } else if (code === "N") {
+      escaped.text += COLUMN_BREAK;
+      i++;
+    } else if (code === "~") {
+      escaped.text += "\u00a0";
+      i++;
+    } else if (code === "X") {
+      escaped.text += "\\P";
+      i++;
+    } else {
+      // other codes (including "\\") are parsed by @dxfom/mtext
+      escaped.text += c + code;
+      i++;
+    }
+  }
+  return escaped;
+};
+
+// e.g. "xi-3,l3,t3" or "xqc" or "xt4,8,12" (the values following "t" are tab stops)
+const parseParagraphProperties = (properties: string, style: MTextParagraphStyle): MTextParagraphStyle => {
+  const parsed = { ...style };
+  let isTabs = false;
+  for (const property of properties.replace(/^x/, "").split(",")) {
+    // centered and right aligned tab stops ("c8", "r12") are treated as left aligned ones
+    const tab = parseFloat(property.replace(/^[cr]/, ""));
+    if (isTabs && !isNaN(tab)) {
+      parsed.tabs.push(tab);
+      continue;
+    }
+    isTabs = false;
+    const key = property[0];
+    const value = property.slice(1);
+    if (key === "i") {
+      parsed.indent = parseFloat(value) || 0.0;
+    } else if (key === "l") {
+      parsed.left = parseFloat(value) || 0.0;
+    } else if (key === "r") {
+      parsed.right = parseFloat(value) || 0.0;
+    } else if (key === "q") {
+      const alignments: Record<string, MTextParagraphStyle["alignment"]> = {
+        l: "left",
+        c: "center",
+        r: "right",
+        j: "justify",
+        d: "justify",
+      };
+      parsed.alignment = alignments[value[0]] || "left";
+    } else if (key === "t") {
+      parsed.tabs = isNaN(parseFloat(value)) ? [] : [parseFloat(value)];
+      isTabs = true;
+    }
+  }
+  return parsed;
+};
+
+// "x" => relative to the current value
+const getRelativeValue = (value: [number, string], current: number): number =>
+  value[1] === "x" ? value[0] * current : value[0];
+
+interface ParseState {
+  style: MTextStyle;
+  paragraphStyle: MTextParagraphStyle;
+}
+
+// encoding of the code page of the drawing (for %%nnn)
+export const parseMText = (text: string, height: number, encoding: string): MTextColumn[] => {
+  const escaped = escapeUnsupportedCodes(text, encoding);
+  let paragraphPropertiesIndex = 0;
+  let trueColorIndex = 0;
+
+  const initialState: ParseState = {
+    style: {
+      font: undefined,
+      bold: false,
+      italic: false,
+      height: height,
+      widthFactor: 1.0,
+      obliqueAngle: 0.0,
+      tracking: 1.0,
+      colorIndex: undefined,
+      trueColor: undefined,
+      underline: false,
+      overline: false,
+      strikeThrough: false,
+      alignment: 0,
+    },
+    paragraphStyle: { indent: 0.0, left: 0.0, right: 0.0, alignment: "left", tabs: [] },
+  };
+  const columns: MTextColumn[] = [{ paragraphs: [] }];
+  let paragraph: MTextParagraph = { style: initialState.paragraphStyle, runs: [], height: height };
+  columns[0].paragraphs.push(paragraph);
+
+  const startParagraph = (state: ParseState, isColumnBreak: boolean): void => {
+    paragraph = { style: state.paragraphStyle, runs: [], height: state.style.height };
+    if (isColumnBreak) {
+      columns.push({ paragraphs: [] });
+    }
+    columns[columns.length - 1].paragraphs.push(paragraph);
+  };
+
+  const addText = (content: string, state: ParseState): void => {
+    let current = "";
+    const addCurrent = (): void => {
+      if (current) {
+        paragraph.runs.push({ type: "text", text: current, style: { ...state.style } });
+        current = "";
+      }
+    };
+    for (const c of content) {
+      if (c === "\n" || c === COLUMN_BREAK) {
+        addCurrent();
+        startParagraph(state, c === COLUMN_BREAK);
+      } else if (c === "\t") {
+        addCurrent();
+        paragraph.runs.push({ type: "tab", style: { ...state.style } });
+      } else if (c === PARAGRAPH_PROPERTIES) {
+        addCurrent();
+        const properties = escaped.paragraphProperties[paragraphPropertiesIndex++] || "";
+        state.paragraphStyle = parseParagraphProperties(properties, state.paragraphStyle);
+        paragraph.style = state.paragraphStyle;
+      } else if (c === TRUE_COLOR) {
+        addCurrent();
+        state.style.trueColor = escaped.trueColors[trueColorIndex++];
+      } else {
+        current += c === PERCENT ? "%" : c;
+      }
+    }
+    addCurrent();
+    paragraph.height = state.style.height;
+  };
+
+  // formatting inside of braces only applies to the group
+  const parseElements = (elements: DxfMTextContentElement[], state: ParseState): void => {
+    for (const element of elements) {
+      if (typeof element === "string") {
+        addText(element, state);
+      } else if (Array.isArray(element)) {
+        const groupState = { style: { ...state.style }, paragraphStyle: state.paragraphStyle };
+        parseElements(element, groupState);
+        // paragraph properties are not limited to the group
+        state.paragraphStyle = groupState.paragraphStyle;
+      } else if (element.S) {
+        paragraph.runs.push({
+          type: "stack",
+          upper: element.S[0].replace(new RegExp(PERCENT, "g"), "%"),
+          lower: element.S[2].replace(new RegExp(PERCENT, "g"), "%"),
+          stackType: element.S[1],
+          style: { ...state.style },
+        });
+      } else {
+        const style = state.style;
+        if (element.f !== undefined) {
+          style.font = element.f || undefined;
+          style.bold = element.b === 1;
+          style.italic = element.i === 1;
+        }
+        if (element.H) {
+          style.height = getRelativeValue(element.H, style.height);
+          paragraph.height = style.height;
+        }
+        if (element.W) {
+          style.widthFactor = getRelativeValue(element.W, style.widthFactor);
+        }
+        if (element.Q !== undefined) {
+          style.obliqueAngle = element.Q;
+        }
+        if (element.T !== undefined) {
+          style.tracking = element.T;
+        }
+        if (element.C !== undefined) {
+          style.colorIndex = element.C;
+          style.trueColor = undefined;
+        }
+        if (element.L !== undefined) {
+          style.underline = element.L === 1;
+        }
+        if (element.O !== undefined) {
+          style.overline = element.O === 1;
+        }
+        if (element.K !== undefined) {
+          style.strikeThrough = element.K === 1;
+        }
+        if (element.A !== undefined) {
+          style.alignment = element.A;
+        }
+      }
+    }
+  };
+  parseElements(parseDxfMTextContent(escaped.text), initialState);
+  return columns;
+};
+
+// content without formatting, one line per paragraph (e.g. for dimension texts, which are drawn as plain text)
+// stacks are written as "upper/lower", tabs as spaces
+export const getMTextPlainText = (text: string, encoding: string): string => {
+  const paragraphs = parseMText(text, 1.0, encoding).flatMap((column) => column.paragraphs);
+  return paragraphs
+    .map((paragraph) =>
+      paragraph.runs
+        .map((run) => (run.type === "text" ? run.text : run.type === "stack" ? run.upper + "/" + run.lower : " "))
+        .join("")
+    )
+    .join("\n");
+};
@@ -0,0 +1,1401 @@
+// Entity handlers for entities which are not (yet) or only partially parsed by dxf-parser.
+// Register them before parsing, otherwise dxf-parser skips (or only partially parses) these entities:
+//   const parser = new DxfParser();
+//   registerDxfParserEntities(parser);
+import DxfParser, {
+  IArcEntity,
+  IAttdefEntity,
+  IDimensionEntity,
+  IEllipseEntity,
+  IEntity,
+  IInsertEntity,
+  ILineEntity,
+  IMtextEntity,
+  IPoint,
+  IPolylineEntity,
+  ISplineEntity,
+  ITextEntity,
+  IVertexEntity,
+} from "dxf-parser";
+import DxfArrayScanner, { IGroup } from "dxf-parser/dist/DxfArrayScanner";
+import * as helpers from "dxf-parser/dist/ParseHelpers";
+import IGeometry, { EntityName } from "dxf-parser/dist/entities/geomtry";
+import Attdef from "dxf-parser/dist/entities/attdef";
+import Insert from "dxf-parser/dist/entities/insert";
+import Lwpolyline from "dxf-parser/dist/entities/lwpolyline";
+import Point from "dxf-parser/dist/entities/point";
+import Solid from "dxf-parser/dist/entities/solid";
+import Vertex from "dxf-parser/dist/entities/vertex";
+
+// dxf-parser only knows its own entity names
+const entityName = (name: string): EntityName => name as EntityName;
+
+// common properties
+// ------------------------
+
+// dxf-parser stores true colors (420) in the same property as the colors of the ACI (62) => true colors are marked,
+// otherwise a true color approximated by ACI 7 would be adapted to the background like ACI 7 (see isForegroundColor)
+export interface ITrueColorEntity extends IEntity {
+  trueColor: number | undefined;
+}
+
+const checkCommonEntityProperties = (entity: IEntity, curr: IGroup, scanner: DxfArrayScanner): boolean => {
+  if (curr.code === 420) {
+    (entity as ITrueColorEntity).trueColor = curr.value as number;
+  }
+  return helpers.checkCommonEntityProperties(entity, curr, scanner);
+};
+
+// entities parsed by the handlers of dxf-parser: the groups are observed while the handler reads them
+const parseWithTrueColor = <T extends IEntity>(scanner: DxfArrayScanner, parse: () => T): T => {
+  let trueColor: number | undefined = undefined;
+  const next = scanner.next;
+  scanner.next = (): IGroup => {
+    const group = next.call(scanner);
+    if (group.code === 420) {
+      trueColor = group.value as number;
+    }
+    return group;
+  };
+  try {
+    const entity = parse();
+    (entity as IEntity as ITrueColorEntity).trueColor = trueColor;
+    return entity;
+  } finally {
+    scanner.next = next;
+  }
+};
+
+// same as the handler of dxf-parser plus the true color
+const withTrueColor = (Handler: new () => IGeometry): new () => IGeometry =>
+  class implements IGeometry {
+    private handler = new Handler();
+    public ForEntityName = this.handler.ForEntityName;
+    public parseEntity(scanner: DxfArrayScanner, curr: IGroup): IEntity {
+      return parseWithTrueColor(scanner, () => this.handler.parseEntity(scanner, curr));
+    }
+  };
+
+// LINE, CIRCLE, ARC and ELLIPSE
+// ------------------------
+
+export interface IExtendedLineEntity extends ILineEntity {
+  thickness: number | undefined;
+}
+
+// same as dxf-parser's LINE handler plus the thickness
+export class Line implements IGeometry {
+  public ForEntityName = entityName("LINE");
+  public parseEntity(scanner: DxfArrayScanner, curr: IGroup): IExtendedLineEntity {
+    const entity = { type: curr.value, vertices: [] as IPoint[] } as IExtendedLineEntity;
+    curr = scanner.next();
+    while (!scanner.isEOF()) {
+      if (curr.code === 0) break;
+      switch (curr.code) {
+        case 10:
+          entity.vertices.unshift(helpers.parsePoint(scanner));
+          break;
+        case 11:
+          entity.vertices.push(helpers.parsePoint(scanner));
+          break;
+        case 39:
+          entity.thickness = curr.value as number;
+          break;
+        case 210:
+          entity.extrusionDirection = helpers.parsePoint(scanner);
+          break;
+        default:
+          checkCommonEntityProperties(entity, curr, scanner);
+          break;
+      }
+      curr = scanner.next();
+    }
+    return entity;
+  }
+}
+
+// the center is given in the OCS of the extrusion direction
+export interface IExtendedArcEntity extends IArcEntity {
+  thickness: number | undefined;
+  extrusionDirection: IPoint | undefined;
+}
+
+// same as dxf-parser's ARC and CIRCLE handlers plus the thickness and the extrusion direction as a point
+export class Arc implements IGeometry {
+  public ForEntityName = entityName("ARC");
+  public parseEntity(scanner: DxfArrayScanner, curr: IGroup): IExtendedArcEntity {
+    const entity = { type: curr.value } as IExtendedArcEntity;
+    curr = scanner.next();
+    while (!scanner.isEOF()) {
+      if (curr.code === 0) break;
+      switch (curr.code) {
+        case 10:
+          entity.center = helpers.parsePoint(scanner);
+          break;
+        case 39:
+          entity.thickness = curr.value as number;
+          break;
+        case 40:
+          entity.radius = curr.value as number;
+          break;
+        case 50:
+          entity.startAngle = ((curr.value as number) * Math.PI) / 180;
+          break;
+        case 51:
+          entity.endAngle = ((curr.value as number) * Math.PI) / 180;
+          entity.angleLength = entity.endAngle - entity.startAngle;
+          break;
+        case 210:
+          entity.extrusionDirection = helpers.parsePoint(scanner);
+          break;
+        default:
+          checkCommonEntityProperties(entity, curr, scanner);
+          break;
+      }
+      curr = scanner.next();
+    }
+    return entity;
+  }
+}
+
+export class Circle extends Arc {
+  public ForEntityName = entityName("CIRCLE");
+}
+
+// center and major axis are given in the WCS, the extrusion direction is the normal of the ellipse
+export interface IExtendedEllipseEntity extends IEllipseEntity {
+  extrusionDirection: IPoint | undefined;
+}
+
+// same as dxf-parser's ELLIPSE handler plus the extrusion direction
+export class Ellipse implements IGeometry {
+  public ForEntityName = entityName("ELLIPSE");
+  public parseEntity(scanner: DxfArrayScanner, curr: IGroup): IExtendedEllipseEntity {
+    const entity = { type: curr.value } as IExtendedEllipseEntity;
+    curr = scanner.next();
+    while (!scanner.isEOF()) {
+      if (curr.code === 0) break;
+      switch (curr.code) {
+        case 2:
+          entity.name = curr.value as string;
+          break;
+        case 10:
+          entity.center = helpers.parsePoint(scanner);
+          break;
+        case 11:
+          entity.majorAxisEndPoint = helpers.parsePoint(scanner);
+          break;
+        case 40:
+          entity.axisRatio = curr.value as number;
+          break;
+        case 41:
+          entity.startAngle = curr.value as number;
+          break;
+        case 42:
+          entity.endAngle = curr.value as number;
+          break;
+        case 210:
+          entity.extrusionDirection = helpers.parsePoint(scanner);
+          break;
+        default:
+          checkCommonEntityProperties(entity, curr, scanner);
+          break;
+      }
+      curr = scanner.next();
+    }
+    return entity;
+  }
+}
+
+// SPLINE
+// ------------------------
+
+export interface IExtendedSplineEntity extends ISplineEntity {
+  // one per control point for rational splines
+  weights: number[] | undefined;
+}
+
+// same as dxf-parser's SPLINE handler plus the weights
+export class Spline implements IGeometry {
+  public ForEntityName = entityName("SPLINE");
+  public parseEntity(scanner: DxfArrayScanner, curr: IGroup): IExtendedSplineEntity {
+    const entity = { type: curr.value } as IExtendedSplineEntity;
+    curr = scanner.next();
+    while (!scanner.isEOF()) {
+      if (curr.code === 0) break;
+      const value = curr.value as number;
+      switch (curr.code) {
+        case 10:
+          entity.controlPoints = entity.controlPoints || [];
+          entity.controlPoints.push(helpers.parsePoint(scanner));
+          break;
+        case 11:
+          entity.fitPoints = entity.fitPoints || [];
+          entity.fitPoints.push(helpers.parsePoint(scanner));
+          break;
+        case 12:
+          entity.startTangent = helpers.parsePoint(scanner);
+          break;
+        case 13:
+          entity.endTangent = helpers.parsePoint(scanner);
+          break;
+        case 40:
+          entity.knotValues = entity.knotValues || [];
+          entity.knotValues.push(value);
+          break;
+        case 41:
+          entity.weights = entity.weights || [];
+          entity.weights.push(value);
+          break;
+        case 70:
+          entity.closed = (value & 1) !== 0;
+          entity.periodic = (value & 2) !== 0;
+          entity.rational = (value & 4) !== 0;
+          entity.planar = (value & 8) !== 0;
+          entity.linear = (value & 16) !== 0;
+          break;
+        case 71:
+          entity.degreeOfSplineCurve = value;
+          break;
+        case 72:
+          entity.numberOfKnots = value;
+          break;
+        case 73:
+          entity.numberOfControlPoints = value;
+          break;
+        case 74:
+          entity.numberOfFitPoints = value;
+          break;
+        case 210:
+          entity.normalVector = helpers.parsePoint(scanner);
+          break;
+        default:
+          checkCommonEntityProperties(entity, curr, scanner);
+          break;
+      }
+      curr = scanner.next();
+    }
+    return entity;
+  }
+}
+
+// HATCH
+// ------------------------
+
+export interface IHatchLineEdge {
+  type: "line";
+  start: IPoint;
+  end: IPoint;
+}
+
+export interface IHatchArcEdge {
+  type: "arc";
+  center: IPoint;
+  radius: number;
+  startAngle: number; // degrees
+  endAngle: number; // degrees
+  isCounterClockwise: boolean;
+}
+
+export interface IHatchEllipseEdge {
+  type: "ellipse";
+  center: IPoint;
+  majorAxisEndPoint: IPoint; // relative to center
+  axisRatio: number;
+  startAngle: number; // degrees
+  endAngle: number; // degrees
+  isCounterClockwise: boolean;
+}
+
+export interface IHatchSplineEdge {
+  type: "spline";
+  degree: number;
+  rational: boolean;
+  periodic: boolean;
+  knotValues: number[];
+  controlPoints: IPoint[];
+  weights: number[] | undefined;
+  fitPoints: IPoint[];
+  startTangent: IPoint | undefined;
+  endTangent: IPoint | undefined;
+}
+
+export type IHatchEdge = IHatchLineEdge | IHatchArcEdge | IHatchEllipseEdge | IHatchSplineEdge;
+
+export interface IHatchPolylineVertex extends IPoint {
+  bulge: number;
+}
+
+export interface IHatchBoundaryPath {
+  // boundary path type flag: 1 = external, 2 = polyline, 4 = derived, 8 = textbox, 16 = outermost
+  flag: number;
+  // set for polyline boundary paths (flag & 2)
+  polyline: IHatchPolylineVertex[] | undefined;
+  // set for edge boundary paths
+  edges: IHatchEdge[] | undefined;
+}
+
+export interface IHatchPatternLine {
+  angle: number; // degrees
+  basePoint: IPoint;
+  offset: IPoint;
+  dashes: number[];
+}
+
+export interface IHatchEntity extends IEntity {
+  elevationPoint: IPoint;
+  extrusionDirection: IPoint;
+  patternName: string;
+  solidFill: boolean;
+  gradientFill: boolean;
+  associative: boolean;
+  boundaryPaths: IHatchBoundaryPath[];
+  // 0 = odd parity (normal), 1 = outermost area only, 2 = entire area (ignore islands)
+  hatchStyle: number;
+  // 0 = user-defined, 1 = predefined, 2 = custom
+  patternType: number;
+  patternAngle: number; // degrees
+  patternScale: number;
+  patternDouble: boolean;
+  patternLines: IHatchPatternLine[];
+  seedPoints: IPoint[];
+}
+
+const readPoint2d = (scanner: DxfArrayScanner): IPoint => {
+  const x = scanner.next().value as number;
+  const y = scanner.next().value as number;
+  return { x: x, y: y, z: 0.0 };
+};
+
+// fit data (97 number of fit points, fit points and tangents) of spline edges is only written by AutoCAD 2010 and
+// newer => a 97 after the last edge of a path may also be the number of source boundary objects of the path, which
+// is followed by their references (330) and not by fit points (11, 12) or the number of source boundary objects (97)
+const hasSplineFitData = (scanner: DxfArrayScanner, isLastEdge: boolean): boolean => {
+  if (scanner.peek().code !== 97) {
+    return false;
+  } else if (!isLastEdge) {
+    return true;
+  }
+  scanner.next();
+  const following = scanner.peek().code;
+  scanner.rewind();
+  return following === 11 || following === 12 || following === 97;
+};
+
+const parseHatchEdge = (scanner: DxfArrayScanner, edgeType: number, isLastEdge: boolean): IHatchEdge => {
+  switch (edgeType) {
+    case 1: {
+      const start = readPoint2d(scanner);
+      const end = readPoint2d(scanner);
+      return { type: "line", start: start, end: end };
+    }
+    case 2: {
+      const center = readPoint2d(scanner);
+      const radius = scanner.next().value as number;
+      const startAngle = scanner.next().value as number;
+      const endAngle = scanner.next().value as number;
+      const isCounterClockwise = scanner.next().value !== 0;
+      return {
+        type: "arc",
+        center: center,
+        radius: radius,
+        startAngle: startAngle,
+        endAngle: endAngle,
+        isCounterClockwise: isCounterClockwise,
+      };
+    }
+    case 3: {
+      const center = readPoint2d(scanner);
+      const majorAxisEndPoint = readPoint2d(scanner);
+      const axisRatio = scanner.next().value as number;
+      const startAngle = scanner.next().value as number;
+      const endAngle = scanner.next().value as number;
+      const isCounterClockwise = scanner.next().value !== 0;
+      return {
+        type: "ellipse",
+        center: center,
+        majorAxisEndPoint: majorAxisEndPoint,
+        axisRatio: axisRatio,
+        startAngle: startAngle,
+        endAngle: endAngle,
+        isCounterClockwise: isCounterClockwise,
+      };
+    }
+    case 4: {
+      const edge: IHatchSplineEdge = {
+        type: "spline",
+        degree: scanner.next().value as number,
+        rational: scanner.next().value !== 0,
+        periodic: scanner.next().value !== 0,
+        knotValues: [],
+        controlPoints: [],
+        weights: undefined,
+        fitPoints: [],
+        startTangent: undefined,
+        endTangent: undefined,
+      };
+      const numberOfKnots = scanner.next().value as number;
+      const numberOfControlPoints = scanner.next().value as number;
+      for (let i = 0; i < numberOfKnots; i++) {
+        edge.knotValues.push(scanner.next().value as number);
+      }
+      for (let i = 0; i < numberOfControlPoints; i++) {
+        edge.controlPoints.push(readPoint2d(scanner));
+        if (scanner.peek().code === 42) {
+          if (edge.weights === undefined) edge.weights = [];
+          edge.weights.push(scanner.next().value as number);
+        }
+      }
+      if (hasSplineFitData(scanner, isLastEdge)) {
+        const numberOfFitPoints = scanner.next().value as number;
+        for (let i = 0; i < numberOfFitPoints; i++) {
+          edge.fitPoints.push(readPoint2d(scanner));
+        }
+        if (scanner.peek().code === 12) edge.startTangent = readPoint2d(scanner);
+        if (scanner.peek().code === 13) edge.endTangent = readPoint2d(scanner);
+      }
+      return edge;
+    }
+    default:
+      throw new Error("Unknown hatch boundary edge type: " + edgeType);
+  }
+};
+
+const parseHatchBoundaryPath = (scanner: DxfArrayScanner): IHatchBoundaryPath => {
+  const flag = scanner.next().value as number;
+  const path: IHatchBoundaryPath = { flag: flag, polyline: undefined, edges: undefined };
+  if (flag & 2) {
+    const hasBulge = scanner.next().value !== 0;
+    scanner.next(); // is closed: polyline boundaries are always closed
+    const numberOfVertices = scanner.next().value as number;
+    path.polyline = [];
+    for (let i = 0; i < numberOfVertices; i++) {
+      const vertex = readPoint2d(scanner);
+      let bulge = 0.0;
+      if (hasBulge && scanner.peek().code === 42) {
+        bulge = scanner.next().value as number;
+      }
+      path.polyline.push({ ...vertex, bulge: bulge });
+    }
+  } else {
+    const numberOfEdges = scanner.next().value as number;
+    path.edges = [];
+    for (let i = 0; i < numberOfEdges; i++) {
+      const edgeType = scanner.next().value as number;
+      path.edges.push(parseHatchEdge(scanner, edgeType, i + 1 === numberOfEdges));
+    }
+  }
+
+  // references to the source boundary objects
+  if (scanner.peek().code === 97) {
+    const numberOfSourceObjects = scanner.next().value as number;
+    for (let i = 0; i < numberOfSourceObjects; i++) {
+      scanner.next();
+    }
+  }
+  return path;
+};
+
+const parseHatchPatternLine = (scanner: DxfArrayScanner): IHatchPatternLine => {
+  const angle = scanner.next().value as number;
+  const basePoint = readPoint2d(scanner);
+  const offset = readPoint2d(scanner);
+  const numberOfDashes = scanner.next().value as number;
+  const dashes: number[] = [];
+  for (let i = 0; i < numberOfDashes; i++) {
+    dashes.push(scanner.next().value as number);
+  }
+  return { angle: angle, basePoint: basePoint, offset: offset, dashes: dashes };
+};
+
+export class Hatch implements IGeometry {
+  public ForEntityName = entityName("HATCH");
+  public parseEntity(scanner: DxfArrayScanner, curr: IGroup): IHatchEntity {
+    // the common entity properties are set by checkCommonEntityProperties
+    const defaults: Omit<IHatchEntity, keyof IEntity> = {
+      elevationPoint: { x: 0.0, y: 0.0, z: 0.0 },
+      extrusionDirection: { x: 0.0, y: 0.0, z: 1.0 },
+      patternName: "",
+      solidFill: false,
+      gradientFill: false,
+      associative: false,
+      boundaryPaths: [],
+      hatchStyle: 0,
+      patternType: 1,
+      patternAngle: 0.0,
+      patternScale: 1.0,
+      patternDouble: false,
+      patternLines: [],
+      seedPoints: [],
+    };
+    const entity = { type: curr.value as string, ...defaults } as IHatchEntity;
+    curr = scanner.next();
+    while (!scanner.isEOF()) {
+      if (curr.code === 0) break;
+      switch (curr.code) {
+        case 10: // elevation point (x, y = 0, z = elevation)
+          entity.elevationPoint = helpers.parsePoint(scanner);
+          break;
+        case 210:
+          entity.extrusionDirection = helpers.parsePoint(scanner);
+          break;
+        case 2:
+          entity.patternName = curr.value as string;
+          break;
+        case 70:
+          entity.solidFill = curr.value === 1;
+          break;
+        case 71:
+          entity.associative = curr.value === 1;
+          break;
+        case 91: {
+          const numberOfPaths = curr.value as number;
+          for (let i = 0; i < numberOfPaths; i++) {
+            entity.boundaryPaths.push(parseHatchBoundaryPath(scanner));
+          }
+          break;
+        }
+        case 75:
+          entity.hatchStyle = curr.value as number;
+          break;
+        case 76:
+          entity.patternType = curr.value as number;
+          break;
+        case 52:
+          entity.patternAngle = curr.value as number;
+          break;
+        case 41:
+          entity.patternScale = curr.value as number;
+          break;
+        case 77:
+          entity.patternDouble = curr.value === 1;
+          break;
+        case 78: {
+          const numberOfPatternLines = curr.value as number;
+          for (let i = 0; i < numberOfPatternLines; i++) {
+            entity.patternLines.push(parseHatchPatternLine(scanner));
+          }
+          break;
+        }
+        case 98: {
+          const numberOfSeedPoints = curr.value as number;
+          for (let i = 0; i < numberOfSeedPoints; i++) {
+            entity.seedPoints.push(readPoint2d(scanner));
+          }
+          break;
+        }
+        case 450:
+          entity.gradientFill = curr.value === 1;
+          break;
+        default:
+          checkCommonEntityProperties(entity, curr, scanner);
+          break;
+      }
+      curr = scanner.next();
+    }
+    return entity;
+  }
+}
+
+// POLYLINE
+// ------------------------
+
+// dxf-parser's POLYLINE without the vertex counts of polygon meshes
+export interface IExtendedPolylineEntity extends IPolylineEntity {
+  elevation: number;
+  // polygon mesh: number of vertices in M and N direction
+  meshMVertexCount: number;
+  meshNVertexCount: number;
+  // surface fitted polygon mesh (includesSplineFitVertices): number of fitted vertices in M and N direction
+  surfaceMDensity: number | undefined;
+  surfaceNDensity: number | undefined;
+}
+
+export class Polyline implements IGeometry {
+  public ForEntityName = entityName("POLYLINE");
+  public parseEntity(scanner: DxfArrayScanner, curr: IGroup): IExtendedPolylineEntity {
+    const entity = { type: curr.value, vertices: [] as IVertexEntity[] } as IExtendedPolylineEntity;
+    curr = scanner.next();
+    while (!scanner.isEOF()) {
+      if (curr.code === 0) break;
+      switch (curr.code) {
+        case 10: // always 0
+        case 20: // always 0
+          break;
+        case 30:
+          entity.elevation = curr.value as number;
+          break;
+        case 39:
+          entity.thickness = curr.value as number;
+          break;
+        case 70:
+          entity.shape = ((curr.value as number) & 1) !== 0;
+          entity.includesCurveFitVertices = ((curr.value as number) & 2) !== 0;
+          entity.includesSplineFitVertices = ((curr.value as number) & 4) !== 0;
+          entity.is3dPolyline = ((curr.value as number) & 8) !== 0;
+          entity.is3dPolygonMesh = ((curr.value as number) & 16) !== 0;
+          entity.is3dPolygonMeshClosed = ((curr.value as number) & 32) !== 0; // closed in N direction
+          entity.isPolyfaceMesh = ((curr.value as number) & 64) !== 0;
+          entity.hasContinuousLinetypePattern = ((curr.value as number) & 128) !== 0;
+          break;
+        case 71:
+          entity.meshMVertexCount = curr.value as number;
+          break;
+        case 72:
+          entity.meshNVertexCount = curr.value as number;
+          break;
+        case 73:
+          entity.surfaceMDensity = curr.value as number;
+          break;
+        case 74:
+          entity.surfaceNDensity = curr.value as number;
+          break;
+        case 210:
+          entity.extrusionDirection = helpers.parsePoint(scanner);
+          break;
+        default:
+          checkCommonEntityProperties(entity, curr, scanner);
+          break;
+      }
+      curr = scanner.next();
+    }
+
+    // VERTEX entities until SEQEND
+    const vertexParser = new Vertex();
+    while (!scanner.isEOF()) {
+      if (curr.code === 0 && curr.value === "VERTEX") {
+        entity.vertices.push(vertexParser.parseEntity(scanner, curr));
+        curr = scanner.lastReadGroup;
+      } else if (curr.code === 0 && curr.value === "SEQEND") {
+        curr = scanner.next();
+        while (!scanner.isEOF() && curr.code !== 0) {
+          curr = scanner.next();
+        }
+        break;
+      } else {
+        break;
+      }
+    }
+    return entity;
+  }
+}
+
+// INSERT with ATTRIBs
+// ------------------------
+
+// ATTRIB has the same group codes as ATTDEF (without the prompt)
+export type IAttribEntity = IAttdefEntity;
+
+export interface IExtendedInsertEntity extends IInsertEntity {
+  attributes: IAttribEntity[];
+}
+
+// dxf-parser's INSERT handler plus the ATTRIB entities following the insert (until SEQEND)
+export class InsertWithAttributes implements IGeometry {
+  public ForEntityName = entityName("INSERT");
+  public parseEntity(scanner: DxfArrayScanner, curr: IGroup): IExtendedInsertEntity {
+    const entity = parseWithTrueColor(scanner, () => new Insert().parseEntity(scanner, curr)) as IExtendedInsertEntity;
+    entity.attributes = [];
+    curr = scanner.lastReadGroup;
+    const attributeParser = new Attdef();
+    while (!scanner.isEOF()) {
+      if (curr.code === 0 && curr.value === "ATTRIB") {
+        entity.attributes.push(parseWithTrueColor(scanner, () => attributeParser.parseEntity(scanner, curr)));
+        curr = scanner.lastReadGroup;
+      } else if (curr.code === 0 && curr.value === "SEQEND") {
+        curr = scanner.next();
+        while (!scanner.isEOF() && curr.code !== 0) {
+          curr = scanner.next();
+        }
+        break;
+      } else {
+        break;
+      }
+    }
+    return entity;
+  }
+}
+
+// TEXT
+// ------------------------
+
+export interface IExtendedTextEntity extends ITextEntity {
+  styleName: string | undefined;
+  obliqueAngle: number | undefined; // degrees
+  // 2 = backward (mirrored in x), 4 = upside down (mirrored in y)
+  generationFlags: number | undefined;
+  extrusionDirection: IPoint | undefined;
+}
+
+// same as dxf-parser's TEXT handler plus the text style, oblique angle, generation flags and extrusion direction
+export class Text implements IGeometry {
+  public ForEntityName = entityName("TEXT");
+  public parseEntity(scanner: DxfArrayScanner, curr: IGroup): IExtendedTextEntity {
+    const entity = { type: curr.value } as IExtendedTextEntity;
+    curr = scanner.next();
+    while (!scanner.isEOF()) {
+      if (curr.code === 0) break;
+      switch (curr.code) {
+        case 1:
+          entity.text = curr.value as string;
+          break;
+        case 7:
+          entity.styleName = curr.value as string;
+          break;
+        case 10: // first alignment point
+          entity.startPoint = helpers.parsePoint(scanner);
+          break;
+        case 11: // second alignment point
+          entity.endPoint = helpers.parsePoint(scanner);
+          break;
+        case 40:
+          entity.textHeight = curr.value as number;
+          break;
+        case 41:
+          entity.xScale = curr.value as number;
+          break;
+        case 50:
+          entity.rotation = curr.value as number;
+          break;
+        case 51:
+          entity.obliqueAngle = curr.value as number;
+          break;
+        case 71:
+          entity.generationFlags = curr.value as number;
+          break;
+        case 72:
+          entity.halign = curr.value as number;
+          break;
+        case 73:
+          entity.valign = curr.value as number;
+          break;
+        case 210:
+          entity.extrusionDirection = helpers.parsePoint(scanner);
+          break;
+        default:
+          checkCommonEntityProperties(entity, curr, scanner);
+          break;
+      }
+      curr = scanner.next();
+    }
+    return entity;
+  }
+}
+
+// MTEXT
+// ------------------------
+
+export interface IExtendedMtextEntity extends IMtextEntity {
+  styleName: string | undefined;
+  lineSpacingFactor: number | undefined;
+  // height of the text box (used by dynamic columns)
+  definedHeight: number | undefined;
+  // 0 = no columns, 1 = static columns, 2 = dynamic columns
+  columnType: number | undefined;
+  columnCount: number | undefined;
+  columnWidth: number | undefined;
+  columnGutter: number | undefined;
+  columnHeights: number[];
+  // the insertion point and the direction vector are given in the WCS, the extrusion direction is the text's normal
+  extrusionDirection: IPoint | undefined;
+}
+
+// same as dxf-parser's MTEXT handler plus text style, line spacing, columns and extrusion direction
+// (columns are given before AutoCAD 2013, later on by the embedded object which also repeats the insertion point)
+export class Mtext implements IGeometry {
+  public ForEntityName = entityName("MTEXT");
+  public parseEntity(scanner: DxfArrayScanner, curr: IGroup): IExtendedMtextEntity {
+    const entity = { type: curr.value, columnHeights: [] as number[] } as IExtendedMtextEntity;
+    let isEmbeddedObject = false;
+    curr = scanner.next();
+    while (!scanner.isEOF()) {
+      if (curr.code === 0) break;
+      if (isEmbeddedObject) {
+        switch (curr.code) {
+          case 71:
+            entity.columnType = curr.value as number;
+            break;
+          case 72:
+            entity.columnCount = curr.value as number;
+            break;
+          case 44:
+            entity.columnWidth = curr.value as number;
+            break;
+          case 45:
+            entity.columnGutter = curr.value as number;
+            break;
+          case 46:
+            entity.columnHeights.push(curr.value as number);
+            break;
+        }
+        curr = scanner.next();
+        continue;
+      }
+      switch (curr.code) {
+        case 1:
+        case 3:
+          entity.text = entity.text ? entity.text + curr.value : (curr.value as string);
+          break;
+        case 7:
+          entity.styleName = curr.value as string;
+          break;
+        case 10:
+          entity.position = helpers.parsePoint(scanner);
+          break;
+        case 11:
+          entity.directionVector = helpers.parsePoint(scanner);
+          break;
+        case 40:
+          entity.height = curr.value as number;
+          break;
+        case 41:
+          entity.width = curr.value as number;
+          break;
+        case 44:
+          entity.lineSpacingFactor = curr.value as number;
+          break;
+        case 46:
+          entity.definedHeight = curr.value as number;
+          break;
+        case 48:
+          entity.columnWidth = curr.value as number;
+          break;
+        case 49:
+          entity.columnGutter = curr.value as number;
+          break;
+        case 50:
+          // the column heights follow the column type
+          if (entity.columnType === undefined) {
+            entity.rotation = curr.value as number;
+          } else {
+            entity.columnHeights.push(curr.value as number);
+          }
+          break;
+        case 71:
+          entity.attachmentPoint = curr.value as number;
+          break;
+        case 72:
+          entity.drawingDirection = curr.value as number;
+          break;
+        case 75:
+          entity.columnType = curr.value as number;
+          break;
+        case 76:
+          entity.columnCount = curr.value as number;
+          break;
+        case 101:
+          isEmbeddedObject = true;
+          break;
+        case 210:
+          entity.extrusionDirection = helpers.parsePoint(scanner);
+          break;
+        default:
+          checkCommonEntityProperties(entity, curr, scanner);
+          break;
+      }
+      curr = scanner.next();
+    }
+    return entity;
+  }
+}
+
+// DIMENSION
+// ------------------------
+
+export interface IExtendedDimensionEntity extends IDimensionEntity {
+  styleName: string | undefined;
+  textRotation: number | undefined; // degrees
+  extrusionDirection: IPoint | undefined;
+}
+
+// same as dxf-parser's DIMENSION handler plus the dimension style, text rotation and extrusion direction
+export class Dimension implements IGeometry {
+  public ForEntityName = entityName("DIMENSION");
+  public parseEntity(scanner: DxfArrayScanner, curr: IGroup): IExtendedDimensionEntity {
+    const entity = { type: curr.value } as IExtendedDimensionEntity;
+    curr = scanner.next();
+    while (!scanner.isEOF()) {
+      if (curr.code === 0) break;
+      switch (curr.code) {
+        case 1:
+          entity.text = curr.value as string;
+          break;
+        case 2:
+          entity.block = curr.value as string;
+          break;
+        case 3:
+          entity.styleName = curr.value as string;
+          break;
+        case 10: // definition point
+          entity.anchorPoint = helpers.parsePoint(scanner);
+          break;
+        case 11:
+          entity.middleOfText = helpers.parsePoint(scanner);
+          break;
+        case 12: // insertion point of the block
+          entity.insertionPoint = helpers.parsePoint(scanner);
+          break;
+        case 13:
+          entity.linearOrAngularPoint1 = helpers.parsePoint(scanner);
+          break;
+        case 14:
+          entity.linearOrAngularPoint2 = helpers.parsePoint(scanner);
+          break;
+        case 15:
+          entity.diameterOrRadiusPoint = helpers.parsePoint(scanner);
+          break;
+        case 16:
+          entity.arcPoint = helpers.parsePoint(scanner);
+          break;
+        case 42:
+          entity.actualMeasurement = curr.value as number;
+          break;
+        case 50:
+          entity.angle = curr.value as number;
+          break;
+        case 53:
+          entity.textRotation = curr.value as number;
+          break;
+        case 70:
+          entity.dimensionType = curr.value as number;
+          break;
+        case 71:
+          entity.attachmentPoint = curr.value as number;
+          break;
+        case 210:
+          entity.extrusionDirection = helpers.parsePoint(scanner);
+          break;
+        default:
+          checkCommonEntityProperties(entity, curr, scanner);
+          break;
+      }
+      curr = scanner.next();
+    }
+    return entity;
+  }
+}
+
+// LEADER
+// ------------------------
+
+export interface ILeaderEntity extends IEntity {
+  styleName: string | undefined;
+  hasArrowhead: boolean;
+  isSpline: boolean;
+  vertices: IPoint[];
+  extrusionDirection: IPoint | undefined;
+}
+
+export class Leader implements IGeometry {
+  public ForEntityName = entityName("LEADER");
+  public parseEntity(scanner: DxfArrayScanner, curr: IGroup): ILeaderEntity {
+    const entity = { type: curr.value, hasArrowhead: true, isSpline: false, vertices: [] as IPoint[] } as ILeaderEntity;
+    curr = scanner.next();
+    while (!scanner.isEOF()) {
+      if (curr.code === 0) break;
+      switch (curr.code) {
+        case 3:
+          entity.styleName = curr.value as string;
+          break;
+        case 10:
+          entity.vertices.push(helpers.parsePoint(scanner));
+          break;
+        case 71:
+          entity.hasArrowhead = curr.value !== 0;
+          break;
+        case 72:
+          entity.isSpline = curr.value === 1;
+          break;
+        case 210:
+          entity.extrusionDirection = helpers.parsePoint(scanner);
+          break;
+        default:
+          checkCommonEntityProperties(entity, curr, scanner);
+          break;
+      }
+      curr = scanner.next();
+    }
+    return entity;
+  }
+}
+
+// MULTILEADER
+// ------------------------
+
+export interface IMultiLeaderLine {
+  vertices: IPoint[];
+}
+
+export interface IMultiLeaderLeader {
+  // the leader lines end here, the dogleg starts here
+  lastLeaderLinePoint: IPoint | undefined;
+  doglegVector: IPoint | undefined;
+  doglegLength: number | undefined;
+  lines: IMultiLeaderLine[];
+}
+
+export interface IMultiLeaderEntity extends IEntity {
+  // context data (group codes 300 "CONTEXT_DATA{" to 301 "}")
+  contentScale: number;
+  textHeight: number;
+  arrowheadSize: number;
+  hasMText: boolean;
+  text: string | undefined;
+  textLocation: IPoint | undefined;
+  textDirection: IPoint | undefined;
+  textRotation: number; // radians
+  textWidth: number;
+  textAlignment: number; // 1 = left, 2 = center, 3 = right
+  hasBlock: boolean;
+  blockHandle: string | undefined; // handle of the BLOCK_RECORD
+  blockLocation: IPoint | undefined;
+  blockScale: IPoint | undefined;
+  blockRotation: number; // radians
+  leaders: IMultiLeaderLeader[];
+
+  // properties of the multileader
+  leaderLineType: number; // 0 = invisible, 1 = straight, 2 = spline
+  hasLanding: boolean;
+  hasDogleg: boolean;
+  doglegLength: number;
+  contentType: number; // 1 = block, 2 = mtext
+}
+
+export class MultiLeader implements IGeometry {
+  public ForEntityName = entityName("MULTILEADER");
+  public parseEntity(scanner: DxfArrayScanner, curr: IGroup): IMultiLeaderEntity {
+    const entity = {
+      type: curr.value,
+      contentScale: 1.0,
+      textHeight: 0.18,
+      arrowheadSize: 0.18,
+      hasMText: false,
+      textRotation: 0.0,
+      textWidth: 0.0,
+      textAlignment: 1,
+      hasBlock: false,
+      blockRotation: 0.0,
+      leaders: [] as IMultiLeaderLeader[],
+      leaderLineType: 1,
+      hasLanding: true,
+      hasDogleg: true,
+      doglegLength: 0.0,
+      contentType: 2,
+    } as IMultiLeaderEntity;
+
+    // the meaning of a group code depends on the section of the context data
+    let section: "entity" | "context" | "leader" | "leaderLine" = "entity";
+    let leader: IMultiLeaderLeader | undefined = undefined;
+    let leaderLine: IMultiLeaderLine | undefined = undefined;
+    curr = scanner.next();
+    while (!scanner.isEOF()) {
+      if (curr.code === 0) break;
+      if (section === "entity") {
+        switch (curr.code) {
+          case 300: // CONTEXT_DATA{
+            section = "context";
+            break;
+          case 170:
+            entity.leaderLineType = curr.value as number;
+            break;
+          case 290:
+            entity.hasLanding = !!curr.value;
+            break;
+          case 291:
+            entity.hasDogleg = !!curr.value;
+            break;
+          case 41:
+            entity.doglegLength = curr.value as number;
+            break;
+          case 172:
+            entity.contentType = curr.value as number;
+            break;
+          case 10: // block scale of the style, the context data contains the actual one
+          case 20:
+          case 30:
+          case 302: // text of attributes
+            break;
+          default:
+            checkCommonEntityProperties(entity, curr, scanner);
+            break;
+        }
+      } else if (section === "context") {
+        switch (curr.code) {
+          case 301: // }
+            section = "entity";
+            break;
+          case 302: // LEADER{
+            section = "leader";
+            leader = { lastLeaderLinePoint: undefined, doglegVector: undefined, doglegLength: undefined, lines: [] };
+            entity.leaders.push(leader);
+            break;
+          case 40:
+            entity.contentScale = curr.value as number;
+            break;
+          case 41:
+            entity.textHeight = curr.value as number;
+            break;
+          case 140:
+            entity.arrowheadSize = curr.value as number;
+            break;
+          case 290:
+            entity.hasMText = !!curr.value;
+            break;
+          case 296:
+            entity.hasBlock = !!curr.value;
+            break;
+          case 304:
+            entity.text = curr.value as string;
+            break;
+          case 12:
+            entity.textLocation = helpers.parsePoint(scanner);
+            break;
+          case 13:
+            entity.textDirection = helpers.parsePoint(scanner);
+            break;
+          case 42:
+            entity.textRotation = curr.value as number;
+            break;
+          case 43:
+            entity.textWidth = curr.value as number;
+            break;
+          case 171:
+            entity.textAlignment = curr.value as number;
+            break;
+          case 341:
+            entity.blockHandle = curr.value as string;
+            break;
+          case 15:
+            entity.blockLocation = helpers.parsePoint(scanner);
+            break;
+          case 16:
+            entity.blockScale = helpers.parsePoint(scanner);
+            break;
+          case 46:
+            entity.blockRotation = curr.value as number;
+            break;
+          case 10: // points and vectors which are not used
+          case 11:
+          case 14:
+          case 110:
+          case 111:
+          case 112:
+            helpers.parsePoint(scanner);
+            break;
+        }
+      } else if (section === "leader") {
+        switch (curr.code) {
+          case 303: // }
+            section = "context";
+            break;
+          case 304: // LEADER_LINE{
+            section = "leaderLine";
+            leaderLine = { vertices: [] };
+            leader!.lines.push(leaderLine);
+            break;
+          case 10:
+            leader!.lastLeaderLinePoint = helpers.parsePoint(scanner);
+            break;
+          case 11:
+            leader!.doglegVector = helpers.parsePoint(scanner);
+            break;
+          case 40:
+            leader!.doglegLength = curr.value as number;
+            break;
+          case 12: // break points
+          case 13:
+            helpers.parsePoint(scanner);
+            break;
+        }
+      } else {
+        switch (curr.code) {
+          case 305: // }
+            section = "leader";
+            break;
+          case 10:
+            leaderLine!.vertices.push(helpers.parsePoint(scanner));
+            break;
+          case 11: // break points
+          case 12:
+            helpers.parsePoint(scanner);
+            break;
+        }
+      }
+      curr = scanner.next();
+    }
+    return entity;
+  }
+}
+
+// 3DFACE
+// ------------------------
+
+export interface I3DFaceEntity extends IEntity {
+  // the fourth vertex equals the third one for triangles
+  vertices: IPoint[];
+  // bit 0-3: the first to fourth edge is invisible
+  invisibleEdges: number;
+}
+
+// dxf-parser's 3DFACE handler loses the invisible edge flags
+export class ThreeDFace implements IGeometry {
+  public ForEntityName = entityName("3DFACE");
+  public parseEntity(scanner: DxfArrayScanner, curr: IGroup): I3DFaceEntity {
+    const entity = { type: curr.value, vertices: [] as IPoint[], invisibleEdges: 0 } as I3DFaceEntity;
+    curr = scanner.next();
+    while (!scanner.isEOF()) {
+      if (curr.code === 0) break;
+      switch (curr.code) {
+        case 10:
+        case 11:
+        case 12:
+        case 13:
+          entity.vertices[curr.code - 10] = helpers.parsePoint(scanner);
+          break;
+        case 70:
+          entity.invisibleEdges = curr.value as number;
+          break;
+        default:
+          checkCommonEntityProperties(entity, curr, scanner);
+          break;
+      }
+      curr = scanner.next();
+    }
+    return entity;
+  }
+}
+
+// MESH
+// ------------------------
+
+export interface IMeshEntity extends IEntity {
+  // the vertices and faces are the ones of level 0, higher levels are smoothed by AutoCAD
+  subdivisionLevel: number;
+  vertices: IPoint[];
+  // vertex indices per face
+  faces: number[][];
+}
+
+export class Mesh implements IGeometry {
+  public ForEntityName = entityName("MESH");
+  public parseEntity(scanner: DxfArrayScanner, curr: IGroup): IMeshEntity {
+    const entity = {
+      type: curr.value,
+      subdivisionLevel: 0,
+      vertices: [] as IPoint[],
+      faces: [] as number[][],
+    } as IMeshEntity;
+    // the face list (93) consists of the number of vertices of each face followed by their indices,
+    // other lists (edges, creases, overrides) use code 90 as well
+    let faceListSize = 0;
+    let face: number[] | undefined = undefined;
+    let faceVertexCount = 0;
+    curr = scanner.next();
+    while (!scanner.isEOF()) {
+      if (curr.code === 0) break;
+      switch (curr.code) {
+        case 10:
+          entity.vertices.push(helpers.parsePoint(scanner));
+          break;
+        case 91:
+          entity.subdivisionLevel = curr.value as number;
+          break;
+        case 93:
+          faceListSize = curr.value as number;
+          break;
+        case 90:
+          if (faceListSize > 0) {
+            faceListSize--;
+            if (face && face.length < faceVertexCount) {
+              face.push(curr.value as number);
+            } else {
+              face = [];
+              faceVertexCount = curr.value as number;
+              entity.faces.push(face);
+            }
+          }
+          break;
+        case 94:
+        case 95:
+          faceListSize = 0;
+          break;
+        default:
+          checkCommonEntityProperties(entity, curr, scanner);
+          break;
+      }
+      curr = scanner.next();
+    }
+    return entity;
+  }
+}
+
+// 3DSOLID, REGION and BODY
+// ------------------------
+
+export interface IModelerGeometryEntity extends IEntity {
+  // lines of the (encrypted) ACIS SAT data; DXF files of AutoCAD 2013 and later store
+  // binary SAB data in the ACDSDATA section instead => no lines
+  acisData: string[];
+}
+
+export class Solid3d implements IGeometry {
+  public ForEntityName = entityName("3DSOLID");
+  public parseEntity(scanner: DxfArrayScanner, curr: IGroup): IModelerGeometryEntity {
+    const entity = { type: curr.value, acisData: [] as string[] } as IModelerGeometryEntity;
+    curr = scanner.next();
+    while (!scanner.isEOF()) {
+      if (curr.code === 0) break;
+      switch (curr.code) {
+        case 1:
+          entity.acisData.push(curr.value as string);
+          break;
+        case 3: // continuation of lines longer than 255 characters
+          if (entity.acisData.length > 0) {
+            entity.acisData[entity.acisData.length - 1] += curr.value as string;
+          }
+          break;
+        default:
+          checkCommonEntityProperties(entity, curr, scanner);
+          break;
+      }
+      curr = scanner.next();
+    }
+    return entity;
+  }
+}
+
+export class Region extends Solid3d {
+  public ForEntityName = entityName("REGION");
+}
+
+export class Body extends Solid3d {
+  public ForEntityName = entityName("BODY");
+}
+
+// register all handlers of this file
+// ------------------------
+
+export const registerDxfParserEntities = (parser: DxfParser): void => {
+  parser.registerEntityHandler(Line);
+  parser.registerEntityHandler(Arc);
+  parser.registerEntityHandler(Circle);
+  parser.registerEntityHandler(Ellipse);
+  parser.registerEntityHandler(Spline);
+  parser.registerEntityHandler(Hatch);
+  parser.registerEntityHandler(Polyline);
+  parser.registerEntityHandler(InsertWithAttributes);
+  parser.registerEntityHandler(Text);
+  parser.registerEntityHandler(Mtext);
+  parser.registerEntityHandler(Dimension);
+  parser.registerEntityHandler(Leader);
+  parser.registerEntityHandler(MultiLeader);
+  parser.registerEntityHandler(ThreeDFace);
+  parser.registerEntityHandler(Mesh);
+  parser.registerEntityHandler(Solid3d);
+  parser.registerEntityHandler(Region);
+  parser.registerEntityHandler(Body);
+  parser.registerEntityHandler(withTrueColor(Attdef));
+  parser.registerEntityHandler(withTrueColor(Lwpolyline));
+  parser.registerEntityHandler(withTrueColor(Point));
+  parser.registerEntityHandler(withTrueColor(Solid));
+};
@@ -0,0 +1,159 @@
+// Table data which is ignored by dxf-parser.
+// Call it after parsing with the same source:
+//   const dxf = parser.parseSync(source);
+//   parseDxfTables(source, dxf);
+import { IDxf, ILayer, ITables } from "dxf-parser";
+import DxfArrayScanner, { IGroup } from "dxf-parser/dist/DxfArrayScanner";
+
+export interface IExtendedLayer extends ILayer {
+  lineType: string | undefined;
+  // 1/100 mm, -3 = default
+  lineweight: number | undefined;
+  // 24 bit RGB, overrides the color index
+  trueColor: number | undefined;
+}
+
+// dimension variables which are used to render dimensions without their block
+// (undefined => the header variable, e.g. $DIMASZ, is used)
+export interface IDimStyle {
+  name: string;
+  dimpost: string | undefined; // prefix/suffix of the measurement ("<>" is the measurement)
+  dimscale: number | undefined; // overall scale
+  dimasz: number | undefined; // arrow size
+  dimexo: number | undefined; // offset of the extension lines from the origin
+  dimexe: number | undefined; // extension of the extension lines beyond the dimension line
+  dimtxt: number | undefined; // text height
+  dimcen: number | undefined; // size of center marks
+  dimtsz: number | undefined; // size of ticks (0 => arrows)
+  dimlfac: number | undefined; // scale factor of linear measurements
+  dimgap: number | undefined; // gap between dimension line and text
+  dimtad: number | undefined; // vertical text position (0 => centered, otherwise above the dimension line)
+  dimdec: number | undefined; // decimal places of linear measurements
+  dimadec: number | undefined; // decimal places of angular measurements
+}
+
+// text style (STYLE table), the font is given by its file (e.g. "romans.shx" or "arial.ttf")
+// and for TrueType fonts also by its family name (e.g. "Arial")
+export interface ITextStyle {
+  name: string;
+  fixedHeight: number | undefined; // 0 => not fixed
+  widthFactor: number | undefined;
+  obliqueAngle: number | undefined; // degrees
+  generationFlags: number | undefined; // 2 = backward, 4 = upside down
+  fontFile: string | undefined;
+  bigFontFile: string | undefined;
+  fontFamily: string | undefined;
+}
+
+export interface ITextStylesTable {
+  textStyles: Record<string, ITextStyle>;
+}
+
+export interface IDimStylesTable {
+  dimStyles: Record<string, IDimStyle>;
+}
+
+export interface IExtendedTables extends ITables {
+  dimStyle: IDimStylesTable | undefined;
+  textStyle: ITextStylesTable | undefined;
+}
+
+const getGroupValue = (groups: IGroup[], code: number): string | number | boolean | undefined => {
+  const group = groups.find((group) => group.code === code);
+  return group ? group.value : undefined;
+};
+
+const parseLayer = (groups: IGroup[], dxf: IDxf): void => {
+  const name = getGroupValue(groups, 2) as string;
+  if (!dxf.tables || !dxf.tables.layer || !dxf.tables.layer.layers[name]) {
+    return;
+  }
+  const layer = dxf.tables.layer.layers[name] as IExtendedLayer;
+  layer.lineType = getGroupValue(groups, 6) as string | undefined;
+  layer.lineweight = getGroupValue(groups, 370) as number | undefined;
+  layer.trueColor = getGroupValue(groups, 420) as number | undefined;
+};
+
+const parseDimStyle = (groups: IGroup[], dxf: IDxf): void => {
+  const name = getGroupValue(groups, 2) as string;
+  if (!dxf.tables) {
+    return;
+  }
+  const tables = dxf.tables as IExtendedTables;
+  if (!tables.dimStyle) {
+    tables.dimStyle = { dimStyles: {} };
+  }
+  tables.dimStyle.dimStyles[name] = {
+    name: name,
+    dimpost: getGroupValue(groups, 3) as string | undefined,
+    dimscale: getGroupValue(groups, 40) as number | undefined,
+    dimasz: getGroupValue(groups, 41) as number | undefined,
+    dimexo: getGroupValue(groups, 42) as number | undefined,
+    dimexe: getGroupValue(groups, 44) as number | undefined,
+    dimtxt: getGroupValue(groups, 140) as number | undefined,
+    dimcen: getGroupValue(groups, 141) as number | undefined,
+    dimtsz: getGroupValue(groups, 142) as number | undefined,
+    dimlfac: getGroupValue(groups, 144) as number | undefined,
+    dimgap: getGroupValue(groups, 147) as number | undefined,
+    dimtad: getGroupValue(groups, 77) as number | undefined,
+    dimdec: getGroupValue(groups, 271) as number | undefined,
+    dimadec: getGroupValue(groups, 179) as number | undefined,
+  };
+};
+
+const parseTextStyle = (groups: IGroup[], dxf: IDxf): void => {
+  const name = getGroupValue(groups, 2) as string;
+  if (!dxf.tables) {
+    return;
+  }
+  const tables = dxf.tables as IExtendedTables;
+  if (!tables.textStyle) {
+    tables.textStyle = { textStyles: {} };
+  }
+  tables.textStyle.textStyles[name] = {
+    name: name,
+    fixedHeight: getGroupValue(groups, 40) as number | undefined,
+    widthFactor: getGroupValue(groups, 41) as number | undefined,
+    obliqueAngle: getGroupValue(groups, 50) as number | undefined,
+    generationFlags: getGroupValue(groups, 71) as number | undefined,
+    fontFile: (getGroupValue(groups, 3) as string | undefined) || undefined,
+    bigFontFile: (getGroupValue(groups, 4) as string | undefined) || undefined,
+    // extended data of the application "ACAD"
+    fontFamily: (getGroupValue(groups, 1000) as string | undefined) || undefined,
+  };
+};
+
+export const parseDxfTables = (source: string, dxf: IDxf): void => {
+  const scanner = new DxfArrayScanner(source.split(/\r\n|\r|\n/g));
+  let isTablesSection = false;
+  let recordType: string | undefined = undefined;
+  let recordGroups: IGroup[] = [];
+  while (scanner.hasNext()) {
+    const curr = scanner.next();
+    if (curr.code !== 0) {
+      recordGroups.push(curr);
+      continue;
+    }
+
+    // a new record starts => handle the previous one
+    if (recordType === "LAYER") {
+      parseLayer(recordGroups, dxf);
+    } else if (recordType === "DIMSTYLE") {
+      parseDimStyle(recordGroups, dxf);
+    } else if (recordType === "STYLE") {
+      parseTextStyle(recordGroups, dxf);
+    }
+    recordType = undefined;
+    recordGroups = [];
+
+    if (curr.value === "SECTION") {
+      isTablesSection = scanner.next().value === "TABLES";
+    } else if (isTablesSection && curr.value === "ENDSEC") {
+      break;
+    } else if (isTablesSection && curr.value === "TABLE") {
+      scanner.next(); // table name
+    } else if (isTablesSection && curr.value !== "ENDTAB") {
+      recordType = curr.value as string;
+    }
+  }
+};
@@ -0,0 +1,319 @@
+// AutoCAD shape fonts (*.shx) => glyphs made of line strokes
+// Supported are "AutoCAD-86 shapes 1.0/1.1" (shape number = character code) and "AutoCAD-86 unifont 1.0"
+// (shape number = unicode code point); big fonts ("AutoCAD-86 bigfont 1.0") are not supported.
+// Every shape is a sequence of bytes: vectors (length << 4 | direction) and special codes (0-14) which lift or
+// lower the pen, scale, push/pop the position, draw arcs and other shapes.
+//   const font = parseShxFont(await (await fetch("romans.shx")).arrayBuffer());
+
+export interface ShxGlyph {
+  // polylines as flat lists of x and y coordinates, in units of the font
+  strokes: number[][];
+  // horizontal distance to the next character
+  advance: number;
+}
+
+export interface ShxFont {
+  name: string;
+  isUnifont: boolean;
+  // height of capital letters above the baseline and depth of descenders below it, in units of the font
+  above: number;
+  below: number;
+  // definition bytes (without the name) per shape number, decoded on demand
+  shapes: Map<number, Uint8Array>;
+  glyphs: Map<number, ShxGlyph>;
+}
+
+// directions of the vectors (0 = east, counter-clockwise in steps of 22.5°)
+const VECTOR_DIRECTIONS: [number, number][] = [
+  [1.0, 0.0],
+  [1.0, 0.5],
+  [1.0, 1.0],
+  [0.5, 1.0],
+  [0.0, 1.0],
+  [-0.5, 1.0],
+  [-1.0, 1.0],
+  [-1.0, 0.5],
+  [-1.0, 0.0],
+  [-1.0, -0.5],
+  [-1.0, -1.0],
+  [-0.5, -1.0],
+  [0.0, -1.0],
+  [0.5, -1.0],
+  [1.0, -1.0],
+  [1.0, -0.5],
+];
+
+// arcs are approximated by line segments of at most this angle
+const MAX_ARC_SEGMENT_ANGLE = Math.PI / 16;
+
+// the special characters of %%d, %%p and %%c are at these shape numbers in non-unicode fonts
+const SPECIAL_CHARACTER_SHAPES: Record<string, number> = { "°": 127, "±": 128, "⌀": 129, Ø: 129 };
+
+const toSignedByte = (value: number): number => (value > 127 ? value - 256 : value);
+
+const readString = (bytes: Uint8Array, offset: number): { value: string; end: number } => {
+  let end = offset;
+  while (end < bytes.length && bytes[end] !== 0) {
+    end++;
+  }
+  return { value: String.fromCharCode(...Array.from(bytes.subarray(offset, end))), end: end + 1 };
+};
+
+// shape 0 (or the font info of unifonts) contains the name followed by above, below and modes
+const createShxFont = (isUnifont: boolean, info: Uint8Array | undefined): ShxFont => {
+  const font: ShxFont = { name: "", isUnifont: isUnifont, above: 1, below: 0, shapes: new Map(), glyphs: new Map() };
+  if (info) {
+    const name = readString(info, 0);
+    font.name = name.value;
+    font.above = info[name.end] || 1;
+    font.below = info[name.end + 1] || 0;
+  }
+  return font;
+};
+
+export const parseShxFont = (buffer: ArrayBuffer): ShxFont => {
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+  // the signature is terminated by ctrl-z
+  const signatureEnd = bytes.indexOf(0x1a);
+  const signature = String.fromCharCode(...Array.from(bytes.subarray(0, Math.max(signatureEnd, 0))));
+  if (signatureEnd === -1 || !signature.startsWith("AutoCAD-86")) {
+    throw new Error("not a shape font");
+  }
+  let offset = signatureEnd + 1;
+
+  if (signature.includes("unifont")) {
+    offset += 4; // number of shapes
+    const infoLength = view.getUint16(offset, true);
+    const font = createShxFont(true, bytes.subarray(offset + 2, offset + 2 + infoLength));
+    offset += 2 + infoLength;
+    while (offset + 4 <= bytes.length) {
+      const shapeNumber = view.getUint16(offset, true);
+      const length = view.getUint16(offset + 2, true);
+      const definition = bytes.subarray(offset + 4, offset + 4 + length);
+      font.shapes.set(shapeNumber, definition.subarray(readString(definition, 0).end));
+      offset += 4 + length;
+    }
+    return font;
+  }
+  if (!signature.includes("shapes")) {
+    throw new Error("unsupported shape font: " + signature.trim());
+  }
+
+  const count = view.getUint16(offset + 4, true);
+  offset += 6;
+  const index: { shapeNumber: number; length: number }[] = [];
+  for (let i = 0; i < count; i++) {
+    index.push({ shapeNumber: view.getUint16(offset, true), length: view.getUint16(offset + 2, true) });
+    offset += 4;
+  }
+  const definitions = new Map<number, Uint8Array>();
+  for (const { shapeNumber, length } of index) {
+    definitions.set(shapeNumber, bytes.subarray(offset, offset + length));
+    offset += length;
+  }
+  const font = createShxFont(false, definitions.get(0));
+  definitions.forEach((definition, shapeNumber) => {
+    if (shapeNumber !== 0) {
+      font.shapes.set(shapeNumber, definition.subarray(readString(definition, 0).end));
+    }
+  });
+  return font;
+};
+
+// shape interpreter
+// ------------------------
+
+interface ShapeState {
+  x: number;
+  y: number;
+  scale: number;
+  isPenDown: boolean;
+  // the command following code 14 is only used for vertical text
+  isSkipped: boolean;
+  stack: [number, number][];
+  strokes: number[][];
+  stroke: number[] | undefined;
+}
+
+const moveTo = (state: ShapeState, x: number, y: number): void => {
+  if (state.isSkipped) {
+    return;
+  }
+  if (state.isPenDown) {
+    if (!state.stroke) {
+      state.stroke = [state.x, state.y];
+      state.strokes.push(state.stroke);
+    }
+    state.stroke.push(x, y);
+  } else {
+    state.stroke = undefined;
+  }
+  state.x = x;
+  state.y = y;
+};
+
+const moveBy = (state: ShapeState, dx: number, dy: number): void =>
+  moveTo(state, state.x + dx * state.scale, state.y + dy * state.scale);
+
+// arc from the current position (at startAngle on the arc) with the sweep angle (positive => counter-clockwise)
+const arcTo = (state: ShapeState, radius: number, startAngle: number, sweepAngle: number): void => {
+  const centerX = state.x - radius * Math.cos(startAngle);
+  const centerY = state.y - radius * Math.sin(startAngle);
+  const segments = Math.max(1, Math.ceil(Math.abs(sweepAngle) / MAX_ARC_SEGMENT_ANGLE));
+  for (let i = 1; i <= segments; i++) {
+    const angle = startAngle + (sweepAngle * i) / segments;
+    moveTo(state, centerX + radius * Math.cos(angle), centerY + radius * Math.sin(angle));
+  }
+};
+
+// bulge in 1/127 (127 => semicircle), positive => counter-clockwise
+const bulgeTo = (state: ShapeState, dx: number, dy: number, bulge: number): void => {
+  if (bulge === 0) {
+    moveBy(state, dx, dy);
+    return;
+  }
+  const chordX = dx * state.scale;
+  const chordY = dy * state.scale;
+  const chord = Math.sqrt(chordX * chordX + chordY * chordY);
+  const sweepAngle = 4.0 * Math.atan(bulge / 127.0);
+  const radius = chord / (2.0 * Math.abs(Math.sin(sweepAngle / 2.0)));
+  // the start of the arc is perpendicular to the radius
+  const startAngle = Math.atan2(chordY, chordX) - sweepAngle / 2.0 - Math.sign(sweepAngle) * (Math.PI / 2.0);
+  const endX = state.x + chordX;
+  const endY = state.y + chordY;
+  arcTo(state, radius, startAngle, sweepAngle);
+  // prevent rounding errors from accumulating
+  state.x = state.isSkipped ? state.x : endX;
+  state.y = state.isSkipped ? state.y : endY;
+};
+
+const executeShape = (font: ShxFont, bytes: Uint8Array, state: ShapeState, depth: number): void => {
+  let i = 0;
+  const next = (): number => bytes[i++] || 0;
+  const nextSigned = (): number => toSignedByte(next());
+  while (i < bytes.length) {
+    const wasSkipped = state.isSkipped;
+    const code = next();
+    if (code >= 0x10) {
+      const direction = VECTOR_DIRECTIONS[code & 0x0f];
+      moveBy(state, direction[0] * (code >> 4), direction[1] * (code >> 4));
+    } else if (code === 0) {
+      return;
+    } else if (code === 1 || code === 2) {
+      if (!state.isSkipped) {
+        state.isPenDown = code === 1;
+        state.stroke = undefined;
+      }
+    } else if (code === 3 || code === 4) {
+      const factor = next();
+      if (!state.isSkipped && factor !== 0) {
+        state.scale = code === 3 ? state.scale / factor : state.scale * factor;
+      }
+    } else if (code === 5) {
+      if (!state.isSkipped) {
+        state.stack.push([state.x, state.y]);
+      }
+    } else if (code === 6) {
+      const position = state.stack.pop();
+      if (!state.isSkipped && position) {
+        moveTo(state, position[0], position[1]);
+      }
+    } else if (code === 7) {
+      const shapeNumber = font.isUnifont ? (next() << 8) | next() : next();
+      const shape = font.shapes.get(shapeNumber);
+      if (!state.isSkipped && shape && depth < 10) {
+        executeShape(font, shape, state, depth + 1);
+      }
+    } else if (code === 8) {
+      moveBy(state, nextSigned(), nextSigned());
+    } else if (code === 9) {
+      for (let dx = nextSigned(), dy = nextSigned(); dx !== 0 || dy !== 0; dx = nextSigned(), dy = nextSigned()) {
+        moveBy(state, dx, dy);
+      }
+    } else if (code === 10) {
+      // octant arc: radius, (-)0SC => start octant S, C octants (0 => 8), negative => clockwise
+      const radius = next() * state.scale;
+      const octants = nextSigned();
+      const direction = octants < 0 ? -1 : 1;
+      const startOctant = (Math.abs(octants) >> 4) & 0x07;
+      const count = Math.abs(octants) & 0x07 || 8;
+      arcTo(state, radius, (startOctant * Math.PI) / 4.0, (direction * count * Math.PI) / 4.0);
+    } else if (code === 11) {
+      // fractional arc: start and end offset (in 1/256 of an octant), radius (2 bytes), (-)0SC as above
+      const startOffset = next();
+      const endOffset = next();
+      const radius = ((next() << 8) | next()) * state.scale;
+      const octants = nextSigned();
+      const direction = octants < 0 ? -1 : 1;
+      const startOctant = (Math.abs(octants) >> 4) & 0x07;
+      const count = Math.abs(octants) & 0x07 || 8;
+      const octant = Math.PI / 4.0;
+      const startAngle = startOctant * octant + (direction * startOffset * octant) / 256;
+      // the end offset is measured within the last octant
+      const endOctant = startOctant + direction * (endOffset > 0 ? count - 1 : count);
+      const endAngle = endOctant * octant + (direction * endOffset * octant) / 256;
+      arcTo(state, radius, startAngle, endAngle - startAngle);
+    } else if (code === 12) {
+      bulgeTo(state, nextSigned(), nextSigned(), nextSigned());
+    } else if (code === 13) {
+      for (let dx = nextSigned(), dy = nextSigned(); dx !== 0 || dy !== 0; dx = nextSigned(), dy = nextSigned()) {
+        bulgeTo(state, dx, dy, nextSigned());
+      }
+    } else if (code === 14) {
+      state.isSkipped = true;
+      continue;
+    }
+    if (wasSkipped) {
+      state.isSkipped = false;
+    }
+  }
+};
+
+const getShxGlyph = (font: ShxFont, character: string): ShxGlyph | undefined => {
+  let shapeNumber = character.codePointAt(0) || 0;
+  if (!font.shapes.has(shapeNumber) && !font.isUnifont && SPECIAL_CHARACTER_SHAPES[character] !== undefined) {
+    shapeNumber = SPECIAL_CHARACTER_SHAPES[character];
+  }
+  if (font.glyphs.has(shapeNumber)) {
+    return font.glyphs.get(shapeNumber);
+  }
+  const shape = font.shapes.get(shapeNumber);
+  if (!shape) {
+    return undefined;
+  }
+  const state: ShapeState = {
+    x: 0.0,
+    y: 0.0,
+    scale: 1.0,
+    isPenDown: true,
+    isSkipped: false,
+    stack: [],
+    strokes: [],
+    stroke: undefined,
+  };
+  executeShape(font, shape, state, 0);
+  const glyph = { strokes: state.strokes.filter((stroke) => stroke.length >= 4), advance: state.x };
+  font.glyphs.set(shapeNumber, glyph);
+  return glyph;
+};
+
+// strokes of a single line of text in units of the font (the baseline starts at the origin),
+// characters without a shape are replaced by "?"; the letter spacing is added to the advance of every character
+export const getShxTextStrokes = (
+  font: ShxFont,
+  text: string,
+  letterSpacing: number = 0.0
+): { strokes: number[][]; width: number } => {
+  const strokes: number[][] = [];
+  let x = 0.0;
+  for (const character of text) {
+    const glyph = getShxGlyph(font, character) || getShxGlyph(font, "?");
+    if (!glyph) {
+      continue;
+    }
+    glyph.strokes.forEach((stroke) => strokes.push(stroke.map((value, i) => (i % 2 === 0 ? value + x : value))));
+    x += glyph.advance + letterSpacing;
+  }
+  return { strokes: strokes, width: x };
+};
@@ -0,0 +1,717 @@
+// Snapping to converted entities like the object snaps of CAD programs.
+// The snap points are calculated from the analytic data of the entities (e.g. center and radius of arcs)
+// instead of the tessellated points of the generated Object3Ds:
+//   const snapTargets = createSnapTargets(object3Ds, dxf, settings);
+//   const snap = findSnapPoint(snapTargets, cursor, camera, canvasSize, { basePoint: lastPoint });
+// Entities are found via the handles in the user data of the Object3Ds (see getObject3DsByHandle).
+import {
+  IArcEntity,
+  ICircleEntity,
+  IDxf,
+  IEntity,
+  ILineEntity,
+  ILwpolylineEntity,
+  IPoint,
+  IPointEntity,
+  IPolylineEntity,
+} from "dxf-parser";
+import * as THREE from "three";
+
+import { DxfToThreeSettings, getEntityOcsToWcsMatrix, getObject3DsByHandle } from "./dfx_to_three";
+import { IExtendedEllipseEntity, IExtendedSplineEntity } from "./dxf_parser_entities";
+import { createNurbsCurve, createNurbsEvaluator, getSplineDefinition } from "./dxf_spline";
+
+// constants
+// ------------------------
+const DEFAULT_SNAP_TOLERANCE = 10; // pixels
+const DEFAULT_SNAP_TYPES: SnapType[] = [
+  "endpoint",
+  "intersection",
+  "midpoint",
+  "quadrant",
+  "center",
+  "perpendicular",
+  "nearest",
+];
+const SAMPLES_PER_FULL_ARC = 64;
+const SAMPLES_PER_SPLINE_SEGMENT = 16;
+const REFINEMENT_ITERATIONS = 40;
+const EPSILON = 1e-9;
+
+// snap interfaces
+// ------------------------
+export type SnapType = "endpoint" | "midpoint" | "center" | "quadrant" | "intersection" | "perpendicular" | "nearest";
+
+export interface SnapSettings {
+  // snap types to look for ordered by priority (default is all types: endpoint, intersection, midpoint,
+  // quadrant, center, perpendicular, nearest)
+  types: undefined | SnapType[];
+  // max distance between cursor and snap point in pixels (default is 10)
+  tolerance: undefined | number;
+  // point (world coordinates) from which perpendicular snaps are calculated (no perpendicular snaps if not set)
+  basePoint: undefined | THREE.Vector3;
+}
+
+export interface SnapResult {
+  type: SnapType;
+  // world coordinates
+  point: THREE.Vector3;
+  handle: string;
+  object3D: THREE.Object3D;
+}
+
+// analytic geometry of the entities in world coordinates
+export interface SnapNode {
+  kind: "node";
+  point: THREE.Vector3;
+}
+export interface SnapSegment {
+  kind: "segment";
+  start: THREE.Vector3;
+  end: THREE.Vector3;
+}
+// point(t) = center + xAxis * cos(t) + yAxis * sin(t) with startAngle <= t <= endAngle
+// => circular arcs, elliptical arcs and arcs distorted by the transformation of a block
+export interface SnapArc {
+  kind: "arc";
+  center: THREE.Vector3;
+  xAxis: THREE.Vector3;
+  yAxis: THREE.Vector3;
+  startAngle: number;
+  endAngle: number;
+}
+// point(t) with 0 <= t <= 1 (splines)
+export interface SnapCurve {
+  kind: "curve";
+  getPoint: (t: number) => THREE.Vector3;
+  samples: THREE.Vector3[];
+}
+export type SnapPrimitive = SnapNode | SnapSegment | SnapArc | SnapCurve;
+
+export interface SnapTarget {
+  handle: string;
+  object3D: THREE.Object3D;
+  primitives: SnapPrimitive[];
+}
+
+// analytic geometry of entities (same coordinates as the Object3Ds of dxfToThreeObject3Ds)
+// ------------------------
+
+const toVector3 = (point: IPoint, scaleFactor: number, useZ: boolean): THREE.Vector3 => {
+  return new THREE.Vector3(point.x * scaleFactor, point.y * scaleFactor, useZ ? (point.z || 0.0) * scaleFactor : 0.0);
+};
+
+const createArc = (center: THREE.Vector3, radius: number, startAngle: number, endAngle: number): SnapArc => {
+  // arcs are always counterclockwise; an end angle equal to the start angle means a full circle
+  let sweep = endAngle - startAngle;
+  while (sweep <= EPSILON) {
+    sweep += 2 * Math.PI;
+  }
+  return {
+    kind: "arc",
+    center: center,
+    xAxis: new THREE.Vector3(radius, 0.0, 0.0),
+    yAxis: new THREE.Vector3(0.0, radius, 0.0),
+    startAngle: startAngle,
+    endAngle: startAngle + Math.min(sweep, 2 * Math.PI),
+  };
+};
+
+// same arc as getBulgeCurvePoints2d
+const getBulgeArc = (p0: THREE.Vector3, p1: THREE.Vector3, bulge: number): SnapArc => {
+  const angle = 4 * Math.atan(bulge);
+  const radius = p0.distanceTo(p1) / 2 / Math.sin(angle / 2);
+  const direction = Math.atan2(p1.y - p0.y, p1.x - p0.x) + (Math.PI / 2 - angle / 2);
+  const center = new THREE.Vector3(p0.x + radius * Math.cos(direction), p0.y + radius * Math.sin(direction), p0.z);
+  const startAngle = Math.atan2(p0.y - center.y, p0.x - center.x);
+  return angle >= 0.0
+    ? createArc(center, Math.abs(radius), startAngle, startAngle + angle)
+    : createArc(center, Math.abs(radius), startAngle + angle, startAngle);
+};
+
+const getPolyLinePrimitives = (
+  entity: ILwpolylineEntity | IPolylineEntity,
+  scaleFactor: number,
+  setAllZsToZero: boolean
+): SnapPrimitive[] => {
+  let vertices: (IPoint & { bulge?: number })[] = entity.vertices || [];
+  let is3dPolyline = false;
+  if (entity.type === "POLYLINE") {
+    const polyline = entity as IPolylineEntity;
+    if (polyline.isPolyfaceMesh || polyline.is3dPolygonMesh) {
+      return [];
+    }
+    is3dPolyline = polyline.is3dPolyline;
+    vertices = polyline.vertices.filter((vertex) => !vertex.splineControlPoint);
+  }
+
+  // vertices of 2D polylines are given in the OCS at the elevation of the polyline
+  const elevation = ((entity as IPolylineEntity & { elevation?: number }).elevation || 0.0) * scaleFactor;
+  const primitives: SnapPrimitive[] = [];
+  const numberOfSegments = entity.shape ? vertices.length : vertices.length - 1;
+  for (let i = 0; i < numberOfSegments; i++) {
+    const start = vertices[i];
+    const end = vertices[(i + 1) % vertices.length];
+    const useZ = is3dPolyline && !setAllZsToZero;
+    const startPoint = toVector3(start, scaleFactor, useZ);
+    const endPoint = toVector3(end, scaleFactor, useZ);
+    if (!is3dPolyline) {
+      startPoint.z = elevation;
+      endPoint.z = elevation;
+    }
+    if (!is3dPolyline && start.bulge) {
+      primitives.push(getBulgeArc(startPoint, endPoint, start.bulge));
+    } else {
+      primitives.push({ kind: "segment", start: startPoint, end: endPoint });
+    }
+  }
+  if (is3dPolyline) {
+    return primitives;
+  }
+  const ocsToWcs = getEntityOcsToWcsMatrix(entity, setAllZsToZero);
+  return primitives.map((primitive) => transformPrimitive(primitive, ocsToWcs));
+};
+
+// the same curve as the one of getSpline, t = 0..1 is mapped to the parameter range of the curve
+const getSplinePrimitives = (
+  entity: IExtendedSplineEntity,
+  scaleFactor: number,
+  setAllZsToZero: boolean
+): SnapPrimitive[] => {
+  const curve = createNurbsCurve(getSplineDefinition(entity));
+  if (!curve) {
+    return [];
+  }
+  const evaluate = createNurbsEvaluator(curve);
+  const getPoint = (t: number): THREE.Vector3 =>
+    toVector3(
+      evaluate(curve.start + Math.min(Math.max(t, 0.0), 1.0) * (curve.end - curve.start)),
+      scaleFactor,
+      !setAllZsToZero
+    );
+  const numberOfSamples = (curve.points.length / 4 - curve.degree) * SAMPLES_PER_SPLINE_SEGMENT;
+  const samples: THREE.Vector3[] = [];
+  for (let i = 0; i <= numberOfSamples; i++) {
+    samples.push(getPoint(i / numberOfSamples));
+  }
+  return [{ kind: "curve", getPoint: getPoint, samples: samples }];
+};
+
+const getEntityPrimitives = (entity: IEntity, scaleFactor: number, setAllZsToZero: boolean): SnapPrimitive[] => {
+  if (entity.type === "POINT") {
+    const position = (entity as IPointEntity).position;
+    return [{ kind: "node", point: toVector3(position, scaleFactor, !setAllZsToZero) }];
+  } else if (entity.type === "LINE") {
+    const vertices = (entity as ILineEntity).vertices;
+    if (!vertices || vertices.length < 2) {
+      return [];
+    }
+    return [
+      {
+        kind: "segment",
+        start: toVector3(vertices[0], scaleFactor, !setAllZsToZero),
+        end: toVector3(vertices[1], scaleFactor, !setAllZsToZero),
+      },
+    ];
+  } else if (entity.type === "LWPOLYLINE" || entity.type === "POLYLINE") {
+    return getPolyLinePrimitives(entity as ILwpolylineEntity | IPolylineEntity, scaleFactor, setAllZsToZero);
+  } else if (entity.type === "ARC") {
+    // the center is given in the OCS
+    const arc = entity as IArcEntity;
+    const center = toVector3(arc.center, scaleFactor, true);
+    const primitive = createArc(center, arc.radius * scaleFactor, arc.startAngle, arc.endAngle);
+    return [transformPrimitive(primitive, getEntityOcsToWcsMatrix(entity, setAllZsToZero))];
+  } else if (entity.type === "CIRCLE") {
+    const circle = entity as ICircleEntity;
+    const startAngle = circle.startAngle || 0.0;
+    const center = toVector3(circle.center, scaleFactor, true);
+    const primitive = createArc(center, circle.radius * scaleFactor, startAngle, startAngle);
+    return [transformPrimitive(primitive, getEntityOcsToWcsMatrix(entity, setAllZsToZero))];
+  } else if (entity.type === "ELLIPSE") {
+    // center and major axis are given in the WCS, the minor axis is perpendicular to the normal
+    const ellipse = entity as IExtendedEllipseEntity;
+    const normal = ellipse.extrusionDirection || { x: 0.0, y: 0.0, z: 1.0 };
+    const majorAxis = toVector3(ellipse.majorAxisEndPoint, scaleFactor, true);
+    const arc = createArc(toVector3(ellipse.center, scaleFactor, true), 1.0, ellipse.startAngle, ellipse.endAngle);
+    arc.xAxis.copy(majorAxis);
+    arc.yAxis
+      .set(normal.x, normal.y, normal.z || 0.0)
+      .normalize()
+      .cross(majorAxis)
+      .multiplyScalar(ellipse.axisRatio);
+    if (!setAllZsToZero) {
+      return [arc];
+    }
+    return [transformPrimitive(arc, new THREE.Matrix4().makeScale(1.0, 1.0, 0.0))];
+  } else if (entity.type === "SPLINE") {
+    return getSplinePrimitives(entity as IExtendedSplineEntity, scaleFactor, setAllZsToZero);
+  }
+  return [];
+};
+
+const transformPrimitive = (primitive: SnapPrimitive, matrix: THREE.Matrix4): SnapPrimitive => {
+  if (primitive.kind === "node") {
+    return { kind: "node", point: primitive.point.clone().applyMatrix4(matrix) };
+  } else if (primitive.kind === "segment") {
+    return {
+      kind: "segment",
+      start: primitive.start.clone().applyMatrix4(matrix),
+      end: primitive.end.clone().applyMatrix4(matrix),
+    };
+  } else if (primitive.kind === "arc") {
+    const linear = new THREE.Matrix3().setFromMatrix4(matrix);
+    return {
+      ...primitive,
+      center: primitive.center.clone().applyMatrix4(matrix),
+      xAxis: primitive.xAxis.clone().applyMatrix3(linear),
+      yAxis: primitive.yAxis.clone().applyMatrix3(linear),
+    };
+  } else {
+    const getPoint = primitive.getPoint;
+    return {
+      kind: "curve",
+      getPoint: (t: number) => getPoint(t).applyMatrix4(matrix),
+      samples: primitive.samples.map((sample) => sample.clone().applyMatrix4(matrix)),
+    };
+  }
+};
+
+const getEntitiesByHandle = (data: IDxf): Map<string, IEntity> => {
+  const entitiesByHandle = new Map<string, IEntity>();
+  const addEntities = (entities: IEntity[] | undefined) =>
+    entities &&
+    entities.forEach((entity) => entity.handle !== undefined && entitiesByHandle.set(String(entity.handle), entity));
+  addEntities(data.entities);
+  Object.values(data.blocks || {}).forEach((block) => addEntities(block.entities));
+  return entitiesByHandle;
+};
+
+// the world matrices of the Object3Ds are used => call it again if Object3Ds are moved
+export const createSnapTargets = (
+  object3Ds: THREE.Object3D[],
+  data: IDxf,
+  settings?: Partial<DxfToThreeSettings>
+): SnapTarget[] => {
+  const scaleFactor = settings && settings.scaleFactor !== undefined ? settings.scaleFactor : 1.0;
+  const setAllZsToZero = settings && settings.setAllZsToZero !== undefined ? settings.setAllZsToZero : true;
+  const entitiesByHandle = getEntitiesByHandle(data);
+  const snapTargets: SnapTarget[] = [];
+  getObject3DsByHandle(object3Ds).forEach((handleObject3Ds, handle) => {
+    const entity = entitiesByHandle.get(handle);
+    const primitives = entity ? getEntityPrimitives(entity, scaleFactor, setAllZsToZero) : [];
+    if (primitives.length === 0) {
+      return;
+    }
+    handleObject3Ds.forEach((object3D) => {
+      object3D.updateWorldMatrix(true, false);
+      snapTargets.push({
+        handle: handle,
+        object3D: object3D,
+        primitives: primitives.map((primitive) => transformPrimitive(primitive, object3D.matrixWorld)),
+      });
+    });
+  });
+  return snapTargets;
+};
+
+// geometric helper functions
+// ------------------------
+
+const getArcPoint = (arc: SnapArc, t: number): THREE.Vector3 => {
+  return arc.center.clone().addScaledVector(arc.xAxis, Math.cos(t)).addScaledVector(arc.yAxis, Math.sin(t));
+};
+
+const isFullArc = (arc: SnapArc): boolean => {
+  return arc.endAngle - arc.startAngle >= 2 * Math.PI - EPSILON;
+};
+
+const isCircularArc = (arc: SnapArc): boolean => {
+  const xLength = arc.xAxis.length();
+  return (
+    Math.abs(xLength - arc.yAxis.length()) <= EPSILON * Math.max(xLength, 1.0) &&
+    Math.abs(arc.xAxis.dot(arc.yAxis)) <= EPSILON * Math.max(xLength * xLength, 1.0)
+  );
+};
+
+// parameter of the arc for an angle (relative to the x axis of the arc) or undefined if it is not on the arc
+const getArcParameter = (arc: SnapArc, angle: number): number | undefined => {
+  let t = angle;
+  while (t < arc.startAngle - EPSILON) {
+    t += 2 * Math.PI;
+  }
+  while (t > arc.startAngle + 2 * Math.PI) {
+    t -= 2 * Math.PI;
+  }
+  return t <= arc.endAngle + EPSILON ? t : undefined;
+};
+
+const getArcSampleParameters = (arc: SnapArc): number[] => {
+  const sweep = arc.endAngle - arc.startAngle;
+  const numberOfSamples = Math.max(Math.ceil((sweep / (2 * Math.PI)) * SAMPLES_PER_FULL_ARC), 4);
+  const parameters: number[] = [];
+  for (let i = 0; i <= numberOfSamples; i++) {
+    parameters.push(arc.startAngle + (i / numberOfSamples) * sweep);
+  }
+  return parameters;
+};
+
+// golden section search of the minimum of f between min and max
+const findMinimum = (f: (t: number) => number, min: number, max: number): number => {
+  const ratio = (Math.sqrt(5) - 1) / 2;
+  let a = min;
+  let b = max;
+  for (let i = 0; i < REFINEMENT_ITERATIONS; i++) {
+    const c = b - ratio * (b - a);
+    const d = a + ratio * (b - a);
+    if (f(c) < f(d)) {
+      b = d;
+    } else {
+      a = c;
+    }
+  }
+  return (a + b) / 2;
+};
+
+// bisection of a sign change of f between min and max
+const findRoot = (f: (t: number) => number, min: number, max: number): number => {
+  let a = min;
+  let b = max;
+  const fa = f(a);
+  for (let i = 0; i < REFINEMENT_ITERATIONS; i++) {
+    const c = (a + b) / 2;
+    if (f(c) * fa > 0) {
+      a = c;
+    } else {
+      b = c;
+    }
+  }
+  return (a + b) / 2;
+};
+
+// parametric form of arcs and curves (t is an index of the samples for curves)
+const getParametricForm = (
+  primitive: SnapArc | SnapCurve
+): { getPoint: (t: number) => THREE.Vector3; parameters: number[] } => {
+  if (primitive.kind === "arc") {
+    return { getPoint: (t: number) => getArcPoint(primitive, t), parameters: getArcSampleParameters(primitive) };
+  }
+  const lastIndex = primitive.samples.length - 1;
+  return {
+    getPoint: (t: number) => primitive.getPoint(t / lastIndex),
+    parameters: primitive.samples.map((_, index) => index),
+  };
+};
+
+const getNearestPointToRay = (primitive: SnapPrimitive, ray: THREE.Ray): THREE.Vector3 => {
+  if (primitive.kind === "node") {
+    return primitive.point.clone();
+  } else if (primitive.kind === "segment") {
+    const point = new THREE.Vector3();
+    ray.distanceSqToSegment(primitive.start, primitive.end, undefined, point);
+    return point;
+  }
+  const { getPoint, parameters } = getParametricForm(primitive);
+  const distance = (t: number) => ray.distanceSqToPoint(getPoint(t));
+  let nearestIndex = 0;
+  for (let i = 1; i < parameters.length; i++) {
+    if (distance(parameters[i]) < distance(parameters[nearestIndex])) {
+      nearestIndex = i;
+    }
+  }
+  const min = parameters[Math.max(nearestIndex - 1, 0)];
+  const max = parameters[Math.min(nearestIndex + 1, parameters.length - 1)];
+  return getPoint(findMinimum(distance, min, max));
+};
+
+const getPolyline = (primitive: SnapPrimitive): THREE.Vector3[] => {
+  if (primitive.kind === "node") {
+    return [];
+  } else if (primitive.kind === "segment") {
+    return [primitive.start, primitive.end];
+  } else if (primitive.kind === "arc") {
+    return getArcSampleParameters(primitive).map((t) => getArcPoint(primitive, t));
+  }
+  return primitive.samples;
+};
+
+// intersections are calculated in the xy plane of the world (z is taken from the first primitive)
+const intersectSegments = (
+  a0: THREE.Vector3,
+  a1: THREE.Vector3,
+  b0: THREE.Vector3,
+  b1: THREE.Vector3
+): THREE.Vector3[] => {
+  const ax = a1.x - a0.x;
+  const ay = a1.y - a0.y;
+  const bx = b1.x - b0.x;
+  const by = b1.y - b0.y;
+  const denominator = ax * by - ay * bx;
+  if (Math.abs(denominator) <= EPSILON) {
+    return [];
+  }
+  const s = ((b0.x - a0.x) * by - (b0.y - a0.y) * bx) / denominator;
+  const t = ((b0.x - a0.x) * ay - (b0.y - a0.y) * ax) / denominator;
+  if (s < -EPSILON || s > 1 + EPSILON || t < -EPSILON || t > 1 + EPSILON) {
+    return [];
+  }
+  return [a0.clone().lerp(a1, s)];
+};
+
+// in the xy plane of the arc's axes the arc is part of the unit circle
+const toArcSystem = (arc: SnapArc, point: THREE.Vector3): THREE.Vector2 | undefined => {
+  const determinant = arc.xAxis.x * arc.yAxis.y - arc.xAxis.y * arc.yAxis.x;
+  if (Math.abs(determinant) <= EPSILON) {
+    return undefined;
+  }
+  const x = point.x - arc.center.x;
+  const y = point.y - arc.center.y;
+  return new THREE.Vector2(
+    (x * arc.yAxis.y - y * arc.yAxis.x) / determinant,
+    (y * arc.xAxis.x - x * arc.xAxis.y) / determinant
+  );
+};
+
+const isOnArc = (arc: SnapArc, point: THREE.Vector3): boolean => {
+  const arcPoint = toArcSystem(arc, point);
+  return arcPoint !== undefined && getArcParameter(arc, Math.atan2(arcPoint.y, arcPoint.x)) !== undefined;
+};
+
+const intersectSegmentWithArc = (start: THREE.Vector3, end: THREE.Vector3, arc: SnapArc): THREE.Vector3[] => {
+  const p0 = toArcSystem(arc, start);
+  const p1 = toArcSystem(arc, end);
+  if (!p0 || !p1) {
+    return [];
+  }
+  const direction = p1.sub(p0);
+  const a = direction.dot(direction);
+  const b = 2 * p0.dot(direction);
+  const c = p0.dot(p0) - 1.0;
+  const discriminant = b * b - 4 * a * c;
+  if (a <= EPSILON || discriminant < 0.0) {
+    return [];
+  }
+  const intersections: THREE.Vector3[] = [];
+  for (const sign of discriminant > 0.0 ? [-1, 1] : [1]) {
+    const s = (-b + sign * Math.sqrt(discriminant)) / (2 * a);
+    const point = start.clone().lerp(end, s);
+    if (s >= -EPSILON && s <= 1 + EPSILON && isOnArc(arc, point)) {
+      intersections.push(point);
+    }
+  }
+  return intersections;
+};
+
+const intersectCircularArcs = (a: SnapArc, b: SnapArc): THREE.Vector3[] => {
+  const radiusA = a.xAxis.length();
+  const radiusB = b.xAxis.length();
+  const distance = Math.hypot(b.center.x - a.center.x, b.center.y - a.center.y);
+  if (distance <= EPSILON || distance > radiusA + radiusB || distance < Math.abs(radiusA - radiusB)) {
+    return [];
+  }
+  const direction = Math.atan2(b.center.y - a.center.y, b.center.x - a.center.x);
+  const cosOffset = (radiusA * radiusA + distance * distance - radiusB * radiusB) / (2 * radiusA * distance);
+  const offset = Math.acos(Math.min(Math.max(cosOffset, -1.0), 1.0));
+  const intersections: THREE.Vector3[] = [];
+  for (const angle of offset > EPSILON ? [direction - offset, direction + offset] : [direction]) {
+    const point = new THREE.Vector3(
+      a.center.x + radiusA * Math.cos(angle),
+      a.center.y + radiusA * Math.sin(angle),
+      a.center.z
+    );
+    if (isOnArc(a, point) && isOnArc(b, point)) {
+      intersections.push(point);
+    }
+  }
+  return intersections;
+};
+
+// exact solutions for segments and arcs, other combinations are intersected as polylines
+const intersectPrimitives = (a: SnapPrimitive, b: SnapPrimitive): THREE.Vector3[] => {
+  if (a.kind === "segment" && b.kind === "segment") {
+    return intersectSegments(a.start, a.end, b.start, b.end);
+  } else if (a.kind === "segment" && b.kind === "arc") {
+    return intersectSegmentWithArc(a.start, a.end, b);
+  } else if (a.kind === "arc" && b.kind === "segment") {
+    return intersectSegmentWithArc(b.start, b.end, a);
+  } else if (a.kind === "arc" && b.kind === "arc" && isCircularArc(a) && isCircularArc(b)) {
+    return intersectCircularArcs(a, b);
+  }
+  const polylineA = getPolyline(a);
+  const polylineB = getPolyline(b);
+  const intersections: THREE.Vector3[] = [];
+  for (let i = 1; i < polylineA.length; i++) {
+    for (let j = 1; j < polylineB.length; j++) {
+      intersections.push(...intersectSegments(polylineA[i - 1], polylineA[i], polylineB[j - 1], polylineB[j]));
+    }
+  }
+  return intersections;
+};
+
+// feet of the perpendiculars from the base point to the primitive
+const getPerpendicularPoints = (primitive: SnapPrimitive, basePoint: THREE.Vector3): THREE.Vector3[] => {
+  if (primitive.kind === "node") {
+    return [];
+  } else if (primitive.kind === "segment") {
+    const direction = primitive.end.clone().sub(primitive.start);
+    const lengthSq = direction.lengthSq();
+    if (lengthSq <= EPSILON) {
+      return [];
+    }
+    const s = basePoint.clone().sub(primitive.start).dot(direction) / lengthSq;
+    return s >= 0.0 && s <= 1.0 ? [primitive.start.clone().addScaledVector(direction, s)] : [];
+  }
+
+  // the distance to the base point has an extremum: (point(t) - basePoint) * point'(t) = 0
+  const { getPoint, parameters } = getParametricForm(primitive);
+  const step = (parameters[parameters.length - 1] - parameters[0]) * 1e-6;
+  const f = (t: number) => {
+    const tangent = getPoint(t + step).sub(getPoint(t - step));
+    return getPoint(t).sub(basePoint).dot(tangent);
+  };
+  const points: THREE.Vector3[] = [];
+  for (let i = 1; i < parameters.length; i++) {
+    const f0 = f(parameters[i - 1]);
+    const f1 = f(parameters[i]);
+    if (f0 === 0.0) {
+      points.push(getPoint(parameters[i - 1]));
+    } else if (f0 * f1 < 0.0) {
+      points.push(getPoint(findRoot(f, parameters[i - 1], parameters[i])));
+    }
+  }
+  return points;
+};
+
+// endpoints, midpoints and quadrants
+const getCharacteristicPoints = (primitive: SnapPrimitive, type: SnapType): THREE.Vector3[] => {
+  if (primitive.kind === "node") {
+    return type === "endpoint" ? [primitive.point] : [];
+  } else if (primitive.kind === "segment") {
+    if (type === "endpoint") {
+      return [primitive.start, primitive.end];
+    }
+    return type === "midpoint" ? [primitive.start.clone().lerp(primitive.end, 0.5)] : [];
+  } else if (primitive.kind === "curve") {
+    return type === "endpoint" ? [primitive.getPoint(0.0), primitive.getPoint(1.0)] : [];
+  }
+
+  if (type === "quadrant") {
+    // circles: the points in the directions of the world axes, ellipses: the ends of their axes
+    const isCircular = isCircularArc(primitive);
+    const radius = primitive.xAxis.length();
+    const points: THREE.Vector3[] = [];
+    for (let quadrant = 0; quadrant < 4; quadrant++) {
+      const angle = (quadrant * Math.PI) / 2;
+      const point = isCircular
+        ? primitive.center.clone().add(new THREE.Vector3(radius * Math.cos(angle), radius * Math.sin(angle), 0.0))
+        : undefined;
+      if (point && isOnArc(primitive, point)) {
+        points.push(point);
+      } else if (!isCircular && getArcParameter(primitive, angle) !== undefined) {
+        points.push(getArcPoint(primitive, angle));
+      }
+    }
+    return points;
+  } else if (isFullArc(primitive)) {
+    return [];
+  } else if (type === "endpoint") {
+    return [getArcPoint(primitive, primitive.startAngle), getArcPoint(primitive, primitive.endAngle)];
+  } else if (type === "midpoint") {
+    return [getArcPoint(primitive, (primitive.startAngle + primitive.endAngle) / 2)];
+  }
+  return [];
+};
+
+// find snap point
+// ------------------------
+
+const isVisible = (object3D: THREE.Object3D): boolean => {
+  let visible = true;
+  object3D.traverseAncestors((ancestor) => {
+    visible = visible && ancestor.visible;
+  });
+  return visible && object3D.visible;
+};
+
+// cursor and canvas size in pixels (the origin of the cursor is the top left corner of the canvas)
+export const findSnapPoint = (
+  snapTargets: SnapTarget[],
+  cursor: THREE.Vector2,
+  camera: THREE.Camera,
+  canvasSize: THREE.Vector2,
+  snapSettings?: Partial<SnapSettings>
+): SnapResult | null => {
+  const types = snapSettings && snapSettings.types ? snapSettings.types : DEFAULT_SNAP_TYPES;
+  const tolerance =
+    snapSettings && snapSettings.tolerance !== undefined ? snapSettings.tolerance : DEFAULT_SNAP_TOLERANCE;
+  const basePoint = snapSettings ? snapSettings.basePoint : undefined;
+
+  const getScreenDistance = (point: THREE.Vector3): number => {
+    const projected = point.clone().project(camera);
+    const x = ((projected.x + 1) / 2) * canvasSize.x;
+    const y = ((1 - projected.y) / 2) * canvasSize.y;
+    return Math.hypot(x - cursor.x, y - cursor.y);
+  };
+  const raycaster = new THREE.Raycaster();
+  raycaster.setFromCamera(
+    new THREE.Vector2((cursor.x / canvasSize.x) * 2 - 1, 1 - (cursor.y / canvasSize.y) * 2),
+    camera
+  );
+
+  // primitives which are near the cursor
+  const candidates: { target: SnapTarget; primitive: SnapPrimitive; nearestPoint: THREE.Vector3 }[] = [];
+  const visibleTargets = snapTargets.filter((target) => isVisible(target.object3D));
+  for (const target of visibleTargets) {
+    for (const primitive of target.primitives) {
+      const nearestPoint = getNearestPointToRay(primitive, raycaster.ray);
+      if (getScreenDistance(nearestPoint) <= tolerance) {
+        candidates.push({ target: target, primitive: primitive, nearestPoint: nearestPoint });
+      }
+    }
+  }
+
+  // the first type with a snap point wins, within a type the point nearest to the cursor
+  for (const type of types) {
+    let snap: SnapResult | null = null;
+    let snapDistance = tolerance;
+    const addSnapPoint = (point: THREE.Vector3, target: SnapTarget, distance = getScreenDistance(point)) => {
+      if (distance <= snapDistance) {
+        snap = { type: type, point: point, handle: target.handle, object3D: target.object3D };
+        snapDistance = distance;
+      }
+    };
+
+    if (type === "center") {
+      // centers are found when hovering the arc itself as well
+      for (const target of visibleTargets) {
+        target.primitives.forEach((primitive) => primitive.kind === "arc" && addSnapPoint(primitive.center, target));
+      }
+      candidates.forEach(
+        ({ target, primitive }) => primitive.kind === "arc" && addSnapPoint(primitive.center, target, tolerance)
+      );
+    } else if (type === "intersection") {
+      for (let i = 0; i < candidates.length; i++) {
+        for (let j = i + 1; j < candidates.length; j++) {
+          intersectPrimitives(candidates[i].primitive, candidates[j].primitive).forEach((point) =>
+            addSnapPoint(point, candidates[i].target)
+          );
+        }
+      }
+    } else if (type === "perpendicular") {
+      if (basePoint) {
+        candidates.forEach(({ target, primitive }) =>
+          getPerpendicularPoints(primitive, basePoint).forEach((point) => addSnapPoint(point, target))
+        );
+      }
+    } else if (type === "nearest") {
+      candidates.forEach(({ target, nearestPoint }) => addSnapPoint(nearestPoint, target));
+    } else {
+      for (const { target, primitive } of candidates) {
+        getCharacteristicPoints(primitive, type).forEach((point) => addSnapPoint(point, target));
+      }
+    }
+    if (snap) {
+      return snap;
+    }
+  }
+  return null;
+};
@@ -0,0 +1,369 @@
+// NURBS curves of SPLINE entities and spline edges of hatches
+//   - control points with knots and weights (rational splines); periodic splines whose first control points
+//     are not repeated at the end are closed
+//   - splines defined by fit points only are interpolated (chord length parametrization) with the optional
+//     start and end tangents
+//   - tessellation subdivides every knot span until the deviation from the curve is below a chordal tolerance
+import { IPoint } from "dxf-parser";
+import { IExtendedSplineEntity } from "./dxf_parser_entities";
+
+export interface NurbsCurve {
+  degree: number;
+  knots: number[];
+  // homogeneous control points (x * w, y * w, z * w, w)
+  points: Float64Array;
+  // parameter range of the curve
+  start: number;
+  end: number;
+}
+
+export interface NurbsDefinition {
+  degree: number;
+  controlPoints: IPoint[] | undefined;
+  knots: number[] | undefined;
+  weights: number[] | undefined;
+  periodic: boolean;
+  fitPoints: IPoint[] | undefined;
+  startTangent: IPoint | undefined;
+  endTangent: IPoint | undefined;
+}
+
+const EPSILON = 1e-12;
+const INITIAL_SEGMENTS_PER_SPAN = 2;
+
+// evaluation
+// ------------------------
+
+// index i of the knot span knots[i] <= u < knots[i + 1] (the last non-empty span for the end of the curve)
+const findSpan = (curve: NurbsCurve, u: number): number => {
+  const knots = curve.knots;
+  const count = curve.points.length / 4;
+  if (u >= knots[count]) {
+    let span = count - 1;
+    while (span > curve.degree && knots[span] >= knots[span + 1]) {
+      span--;
+    }
+    return span;
+  }
+  let low = curve.degree;
+  let high = count;
+  while (high - low > 1) {
+    const middle = (low + high) >> 1;
+    if (u < knots[middle]) {
+      high = middle;
+    } else {
+      low = middle;
+    }
+  }
+  return low;
+};
+
+// de Boor's algorithm on the homogeneous control points, the buffer avoids allocations per sample
+export const createNurbsEvaluator = (curve: NurbsCurve): ((u: number) => IPoint) => {
+  const degree = curve.degree;
+  const knots = curve.knots;
+  const buffer = new Float64Array(4 * (degree + 1));
+  return (u: number): IPoint => {
+    u = Math.min(Math.max(u, curve.start), curve.end);
+    const span = findSpan(curve, u);
+    buffer.set(curve.points.subarray(4 * (span - degree), 4 * (span + 1)));
+    for (let level = 1; level <= degree; level++) {
+      for (let j = degree; j >= level; j--) {
+        const i = span - degree + j;
+        const denominator = knots[i + degree + 1 - level] - knots[i];
+        const alpha = denominator > EPSILON ? (u - knots[i]) / denominator : 0.0;
+        for (let k = 0; k < 4; k++) {
+          buffer[4 * j + k] = (1.0 - alpha) * buffer[4 * (j - 1) + k] + alpha * buffer[4 * j + k];
+        }
+      }
+    }
+    const w = buffer[4 * degree + 3] || 1.0;
+    return { x: buffer[4 * degree] / w, y: buffer[4 * degree + 1] / w, z: buffer[4 * degree + 2] / w };
+  };
+};
+
+// values of the basis functions at u (all control points) and optionally their first derivatives
+const getBasisFunctions = (
+  knots: number[],
+  degree: number,
+  count: number,
+  u: number,
+  derivative: boolean
+): number[] => {
+  // degree 0: the span containing u (the last non-empty span at the end)
+  let values = new Array<number>(count + degree).fill(0.0);
+  let span = count - 1;
+  while (span > degree && (u < knots[count] ? u < knots[span] : knots[span] >= knots[span + 1])) {
+    span--;
+  }
+  values[span] = 1.0;
+  let previous = values;
+  for (let p = 1; p <= degree; p++) {
+    previous = values;
+    values = new Array<number>(count + degree).fill(0.0);
+    for (let i = 0; i + p + 1 < knots.length; i++) {
+      const left = knots[i + p] - knots[i];
+      const right = knots[i + p + 1] - knots[i + 1];
+      values[i] =
+        (left > EPSILON ? ((u - knots[i]) / left) * previous[i] : 0.0) +
+        (right > EPSILON ? ((knots[i + p + 1] - u) / right) * previous[i + 1] : 0.0);
+    }
+  }
+  if (!derivative) {
+    return values.slice(0, count);
+  }
+  // N'(i, p) = p / (u(i + p) - u(i)) * N(i, p - 1) - p / (u(i + p + 1) - u(i + 1)) * N(i + 1, p - 1)
+  const derivatives: number[] = [];
+  for (let i = 0; i < count; i++) {
+    const left = knots[i + degree] - knots[i];
+    const right = knots[i + degree + 1] - knots[i + 1];
+    derivatives.push(
+      (left > EPSILON ? (degree / left) * previous[i] : 0.0) -
+        (right > EPSILON ? (degree / right) * previous[i + 1] : 0.0)
+    );
+  }
+  return derivatives;
+};
+
+// construction
+// ------------------------
+
+const createCurve = (degree: number, controlPoints: IPoint[], knots: number[], weights: number[]): NurbsCurve => {
+  const points = new Float64Array(4 * controlPoints.length);
+  controlPoints.forEach((point, i) => {
+    const w = weights[i] > 0.0 ? weights[i] : 1.0;
+    points.set([point.x * w, point.y * w, (point.z || 0.0) * w, w], 4 * i);
+  });
+  return { degree: degree, knots: knots, points: points, start: knots[degree], end: knots[controlPoints.length] };
+};
+
+const getClampedKnots = (count: number, degree: number): number[] => {
+  const knots: number[] = [];
+  for (let i = 0; i < count + degree + 1; i++) {
+    knots.push(Math.min(Math.max(i - degree, 0), count - degree));
+  }
+  return knots;
+};
+
+const getUniformKnots = (count: number, degree: number): number[] => {
+  const knots: number[] = [];
+  for (let i = 0; i < count + degree + 1; i++) {
+    knots.push(i);
+  }
+  return knots;
+};
+
+const fromControlPoints = (definition: NurbsDefinition, controlPoints: IPoint[]): NurbsCurve | undefined => {
+  const degree = Math.min(definition.degree, controlPoints.length - 1);
+  if (degree < 1) {
+    return undefined;
+  }
+  let points = controlPoints;
+  let weights = definition.weights && definition.weights.length === points.length ? definition.weights : [];
+  let knots = definition.knots || [];
+  const isWrapped = knots.length === points.length + 2 * degree + 1;
+  if (isWrapped || (definition.periodic && knots.length !== points.length + degree + 1)) {
+    // periodic spline: the first control points continue the curve after the last one
+    points = points.concat(points.slice(0, degree));
+    weights = weights.length > 0 ? weights.concat(weights.slice(0, degree)) : weights;
+    if (!isWrapped) {
+      knots = getUniformKnots(points.length, degree);
+    }
+  } else if (knots.length !== points.length + degree + 1) {
+    knots = getClampedKnots(points.length, degree);
+  }
+  if (knots.some((knot, i) => i > 0 && knot < knots[i - 1]) || knots[points.length] - knots[degree] <= EPSILON) {
+    knots = getClampedKnots(points.length, degree);
+  }
+  return createCurve(degree, points, knots, weights);
+};
+
+// Gaussian elimination with partial pivoting, the rows of interpolation systems are sparse
+const solveLinearSystem = (matrix: number[][], values: IPoint[]): IPoint[] | undefined => {
+  const n = matrix.length;
+  const rows = matrix.map((row, i) => ({ coefficients: row.slice(), value: { ...values[i] } }));
+  for (let column = 0; column < n; column++) {
+    let pivot = column;
+    for (let row = column + 1; row < n; row++) {
+      if (Math.abs(rows[row].coefficients[column]) > Math.abs(rows[pivot].coefficients[column])) {
+        pivot = row;
+      }
+    }
+    if (Math.abs(rows[pivot].coefficients[column]) < EPSILON) {
+      return undefined;
+    }
+    [rows[column], rows[pivot]] = [rows[pivot], rows[column]];
+    const current = rows[column];
+    for (let row = column + 1; row < n; row++) {
+      const factor = rows[row].coefficients[column] / current.coefficients[column];
+      if (factor === 0.0) continue;
+      for (let k = column; k < n; k++) {
+        rows[row].coefficients[k] -= factor * current.coefficients[k];
+      }
+      rows[row].value.x -= factor * current.value.x;
+      rows[row].value.y -= factor * current.value.y;
+      rows[row].value.z -= factor * current.value.z;
+    }
+  }
+  const solution: IPoint[] = new Array(n);
+  for (let row = n - 1; row >= 0; row--) {
+    const { coefficients, value } = rows[row];
+    const point = { ...value };
+    for (let k = row + 1; k < n; k++) {
+      point.x -= coefficients[k] * solution[k].x;
+      point.y -= coefficients[k] * solution[k].y;
+      point.z -= coefficients[k] * solution[k].z;
+    }
+    solution[row] = { x: point.x / coefficients[row], y: point.y / coefficients[row], z: point.z / coefficients[row] };
+  }
+  return solution;
+};
+
+// global interpolation of the fit points; the tangents are directions, their length is the chord length
+const fromFitPoints = (definition: NurbsDefinition, fitPoints: IPoint[]): NurbsCurve | undefined => {
+  const points = fitPoints
+    .map((point) => ({ x: point.x, y: point.y, z: point.z || 0.0 }))
+    .filter((point, i, all) => i === 0 || distance(point, all[i - 1]) > EPSILON);
+  if (points.length < 2) {
+    return undefined;
+  }
+  const chords = points.slice(1).map((point, i) => distance(point, points[i]));
+  const length = chords.reduce((sum, chord) => sum + chord, 0.0);
+  const parameters = [0.0];
+  chords.forEach((chord) => parameters.push(parameters[parameters.length - 1] + chord / length));
+  parameters[parameters.length - 1] = 1.0;
+
+  const tangents: { u: number; tangent: IPoint }[] = [];
+  [definition.startTangent, definition.endTangent].forEach((tangent, i) => {
+    const tangentLength = tangent ? Math.sqrt(tangent.x ** 2 + tangent.y ** 2 + (tangent.z || 0.0) ** 2) : 0.0;
+    if (tangent && tangentLength > EPSILON) {
+      const factor = length / tangentLength;
+      tangents.push({
+        u: i,
+        tangent: { x: tangent.x * factor, y: tangent.y * factor, z: (tangent.z || 0.0) * factor },
+      });
+    }
+  });
+  const count = points.length + tangents.length;
+  const degree = Math.min(definition.degree, count - 1);
+
+  // knots by averaging the parameters, the ones of the ends are repeated for every tangent
+  const extended = parameters.slice();
+  tangents.forEach(({ u }) => (u === 0 ? extended.unshift(0.0) : extended.push(1.0)));
+  const knots: number[] = new Array(degree + 1).fill(0.0);
+  for (let j = 1; j < count - degree; j++) {
+    let sum = 0.0;
+    for (let i = j; i < j + degree; i++) {
+      sum += extended[i];
+    }
+    knots.push(sum / degree);
+  }
+  knots.push(...new Array(degree + 1).fill(1.0));
+
+  const matrix: number[][] = [];
+  const values: IPoint[] = [];
+  points.forEach((point, i) => {
+    matrix.push(getBasisFunctions(knots, degree, count, parameters[i], false));
+    values.push(point);
+  });
+  tangents.forEach(({ u, tangent }) => {
+    matrix.push(getBasisFunctions(knots, degree, count, u, true));
+    values.push(tangent);
+  });
+  const controlPoints = solveLinearSystem(matrix, values);
+  return controlPoints ? createCurve(degree, controlPoints, knots, []) : undefined;
+};
+
+// control points (if there are enough of them) or fit points => curve, undefined if neither is usable
+export const createNurbsCurve = (definition: NurbsDefinition): NurbsCurve | undefined => {
+  if (definition.controlPoints && definition.controlPoints.length > 1) {
+    return fromControlPoints(definition, definition.controlPoints);
+  }
+  if (definition.fitPoints && definition.fitPoints.length > 1) {
+    return fromFitPoints(definition, definition.fitPoints);
+  }
+  return undefined;
+};
+
+// the definition of a SPLINE entity, closed splines defined by fit points end at their first fit point
+export const getSplineDefinition = (entity: IExtendedSplineEntity): NurbsDefinition => {
+  const fitPoints =
+    entity.closed && entity.fitPoints && entity.fitPoints.length > 2
+      ? entity.fitPoints.concat(entity.fitPoints[0])
+      : entity.fitPoints;
+  return {
+    degree: entity.degreeOfSplineCurve || 3,
+    controlPoints: entity.controlPoints,
+    knots: entity.knotValues,
+    weights: entity.rational ? entity.weights : undefined,
+    periodic: !!entity.periodic,
+    fitPoints: fitPoints,
+    startTangent: entity.closed ? undefined : entity.startTangent,
+    endTangent: entity.closed ? undefined : entity.endTangent,
+  };
+};
+
+// tessellation
+// ------------------------
+
+const distance = (a: IPoint, b: IPoint): number => Math.sqrt((a.x - b.x) ** 2 + (a.y - b.y) ** 2 + (a.z - b.z) ** 2);
+
+const distanceToSegment = (point: IPoint, start: IPoint, end: IPoint): number => {
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  const dz = end.z - start.z;
+  const lengthSquared = dx * dx + dy * dy + dz * dz;
+  if (lengthSquared <= EPSILON) {
+    return distance(point, start);
+  }
+  const t = ((point.x - start.x) * dx + (point.y - start.y) * dy + (point.z - start.z) * dz) / lengthSquared;
+  const clamped = Math.min(Math.max(t, 0.0), 1.0);
+  return distance(point, { x: start.x + clamped * dx, y: start.y + clamped * dy, z: start.z + clamped * dz });
+};
+
+// size of the control polygon (e.g. for tolerances relative to the size of the curve)
+export const getNurbsSize = (curve: NurbsCurve): number => {
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  for (let i = 0; i < curve.points.length; i += 4) {
+    for (let k = 0; k < 3; k++) {
+      const value = curve.points[i + k] / (curve.points[i + 3] || 1.0);
+      min[k] = Math.min(min[k], value);
+      max[k] = Math.max(max[k], value);
+    }
+  }
+  return Math.sqrt((max[0] - min[0]) ** 2 + (max[1] - min[1]) ** 2 + (max[2] - min[2]) ** 2);
+};
+
+// points of the curve with a maximal distance of the tolerance between the curve and the segments
+// (checked at the middle of each segment), every knot span gets at most maxSegmentsPerSpan segments
+export const tessellateNurbs = (curve: NurbsCurve, tolerance: number, maxSegmentsPerSpan: number): IPoint[] => {
+  const evaluate = createNurbsEvaluator(curve);
+  const maxDepth = Math.max(0, Math.ceil(Math.log2(Math.max(maxSegmentsPerSpan, 1) / INITIAL_SEGMENTS_PER_SPAN)));
+  const points: IPoint[] = [evaluate(curve.start)];
+  const subdivide = (u0: number, p0: IPoint, u1: number, p1: IPoint, depth: number): void => {
+    const u = (u0 + u1) / 2.0;
+    const middle = evaluate(u);
+    if (depth < maxDepth && distanceToSegment(middle, p0, p1) > tolerance) {
+      subdivide(u0, p0, u, middle, depth + 1);
+      subdivide(u, middle, u1, p1, depth + 1);
+    } else {
+      points.push(p1);
+    }
+  };
+
+  const knots = curve.knots;
+  const count = curve.points.length / 4;
+  for (let span = curve.degree; span < count; span++) {
+    const spanStart = Math.max(knots[span], curve.start);
+    const spanEnd = Math.min(knots[span + 1], curve.end);
+    if (spanEnd - spanStart <= EPSILON) continue;
+    // a few initial segments per span, the middle of a single segment could be on its chord (e.g. S-curves)
+    for (let i = 0; i < INITIAL_SEGMENTS_PER_SPAN; i++) {
+      const u0 = spanStart + ((spanEnd - spanStart) * i) / INITIAL_SEGMENTS_PER_SPAN;
+      const u1 = spanStart + ((spanEnd - spanStart) * (i + 1)) / INITIAL_SEGMENTS_PER_SPAN;
+      subdivide(u0, points[points.length - 1], u1, evaluate(u1), 0);
+    }
+  }
+  return points;
+};
@@ -0,0 +1,155 @@
+// special characters and control codes of TEXT and MTEXT
+//   %%c, %%d, %%p  diameter, degree and plus/minus sign
+//   %%u, %%o       toggle underline and overline
+//   %%%            percent sign
+//   %%nnn          character with the (decimal) code nnn in the code page of the drawing
+//   \U+XXXX        unicode character
+//   \M+nXXXX       double byte character of an asian code page (n = 1: Japanese, 2: Traditional Chinese,
+//                  3: Korean Wansung, 4: Korean Johab, 5: Simplified Chinese)
+// Strings of DXF files before AutoCAD 2007 are encoded in the code page of the header ($DWGCODEPAGE),
+// later ones in UTF-8 => decodeDxfFile decodes the bytes of a file accordingly:
+//   const fileText = decodeDxfFile(await file.arrayBuffer());
+
+const SPECIAL_CHARACTERS: Record<string, string> = { c: "Ø", d: "°", p: "±" };
+
+// code pages of \M+n (Johab is not supported by TextDecoder)
+const MULTIBYTE_ENCODINGS: Record<string, string> = { "1": "shift_jis", "2": "big5", "3": "euc-kr", "5": "gbk" };
+
+const CODE_PAGE_ENCODINGS: Record<string, string> = {
+  ANSI_932: "shift_jis",
+  ANSI_936: "gbk",
+  ANSI_949: "euc-kr",
+  ANSI_950: "big5",
+  DOS866: "ibm866",
+};
+
+// $DWGCODEPAGE (e.g. "ANSI_1252") => label of TextDecoder
+export const getCodePageEncoding = (codePage: string | undefined): string => {
+  const name = (codePage || "").toUpperCase();
+  if (CODE_PAGE_ENCODINGS[name]) {
+    return CODE_PAGE_ENCODINGS[name];
+  }
+  const ansi = name.match(/^ANSI_(874|125[0-8])$/);
+  return ansi ? "windows-" + ansi[1] : "windows-1252";
+};
+
+// called whenever characters can't be decoded because TextDecoder doesn't support their encoding
+// (dfx_to_three.ts reports them in the diagnostics of the conversion)
+let UNSUPPORTED_ENCODING_LISTENER = (encoding: string): void => {
+  console.log("unsupported encoding " + encoding + " => ignoring it");
+};
+
+export const setUnsupportedEncodingListener = (listener: (encoding: string) => void): void => {
+  UNSUPPORTED_ENCODING_LISTENER = listener;
+};
+
+// null => the encoding is not supported
+const CACHED_DECODERS = new Map<string, TextDecoder | null>();
+const getDecoder = (encoding: string): TextDecoder | null => {
+  if (!CACHED_DECODERS.has(encoding)) {
+    try {
+      CACHED_DECODERS.set(encoding, new TextDecoder(encoding));
+    } catch (error) {
+      CACHED_DECODERS.set(encoding, null);
+    }
+  }
+  const decoder = CACHED_DECODERS.get(encoding)!;
+  if (!decoder) {
+    UNSUPPORTED_ENCODING_LISTENER(encoding);
+  }
+  return decoder;
+};
+
+const decodeBytes = (bytes: number[], encoding: string): string | undefined => {
+  const decoder = getDecoder(encoding);
+  return decoder ? decoder.decode(new Uint8Array(bytes)) : undefined;
+};
+
+export const decodeDxfFile = (buffer: ArrayBuffer): string => {
+  // the header is at the beginning of the file and only contains ASCII characters
+  const start = new TextDecoder("windows-1252").decode(new Uint8Array(buffer, 0, Math.min(buffer.byteLength, 65536)));
+  const version = start.match(/\$ACADVER\s*\r?\n\s*1\s*\r?\n([^\r\n]*)/);
+  if (version && version[1].trim() >= "AC1021") {
+    return new TextDecoder("utf-8").decode(buffer);
+  }
+  const codePage = start.match(/\$DWGCODEPAGE\s*\r?\n\s*3\s*\r?\n([^\r\n]*)/);
+  const decoder = getDecoder(getCodePageEncoding(codePage ? codePage[1].trim() : undefined));
+  return (decoder || getDecoder("windows-1252")!).decode(buffer);
+};
+
+export interface DxfTextCode {
+  // decoded characters (empty for %%u and %%o)
+  text: string;
+  toggle: "underline" | "overline" | undefined;
+  // number of characters of the code
+  length: number;
+}
+
+// the code at text[i], undefined if there is none (unknown codes stay as they are)
+export const readTextCode = (text: string, i: number, encoding: string): DxfTextCode | undefined => {
+  const code = (text: string, length: number): DxfTextCode => ({ text: text, toggle: undefined, length: length });
+  if (text[i] === "%" && text[i + 1] === "%") {
+    const c = (text[i + 2] || "").toLowerCase();
+    const digits = text.slice(i + 2, i + 5);
+    if (SPECIAL_CHARACTERS[c]) {
+      return code(SPECIAL_CHARACTERS[c], 3);
+    } else if (c === "u" || c === "o") {
+      return { text: "", toggle: c === "u" ? "underline" : "overline", length: 3 };
+    } else if (c === "%") {
+      return code("%", 3);
+    } else if (/^\d{3}$/.test(digits)) {
+      const value = parseInt(digits, 10);
+      const decoded = value < 128 ? String.fromCharCode(value) : decodeBytes([value & 0xff], encoding);
+      return code(decoded !== undefined ? decoded : String.fromCharCode(value), 5);
+    }
+    return undefined;
+  }
+  if (text[i] !== "\\" || text[i + 2] !== "+") {
+    return undefined;
+  }
+  const c = (text[i + 1] || "").toUpperCase();
+  if (c === "U" && /^[0-9a-fA-F]{4}$/.test(text.slice(i + 3, i + 7))) {
+    return code(String.fromCodePoint(parseInt(text.slice(i + 3, i + 7), 16)), 7);
+  }
+  const multibyte = text.slice(i + 3, i + 8);
+  if (c === "M" && MULTIBYTE_ENCODINGS[multibyte[0]] && /^[0-9a-fA-F]{4}$/.test(multibyte.slice(1))) {
+    const value = parseInt(multibyte.slice(1), 16);
+    const decoded = decodeBytes([value >> 8, value & 0xff], MULTIBYTE_ENCODINGS[multibyte[0]]);
+    return decoded !== undefined ? code(decoded, 8) : undefined;
+  }
+  return undefined;
+};
+
+export interface DecodedText {
+  text: string;
+  // ranges [start, end) of the decoded text
+  underlines: [number, number][];
+  overlines: [number, number][];
+}
+
+// TEXT (and ATTRIB/ATTDEF) content => characters and under-/overlined ranges
+export const decodeText = (text: string, encoding: string): DecodedText => {
+  const decoded: DecodedText = { text: "", underlines: [], overlines: [] };
+  const starts: Record<"underline" | "overline", number | undefined> = { underline: undefined, overline: undefined };
+  const addRange = (toggle: "underline" | "overline"): void => {
+    const start = starts[toggle];
+    if (start !== undefined && start < decoded.text.length) {
+      (toggle === "underline" ? decoded.underlines : decoded.overlines).push([start, decoded.text.length]);
+    }
+  };
+  for (let i = 0; i < text.length; i++) {
+    const code = readTextCode(text, i, encoding);
+    if (!code) {
+      decoded.text += text[i];
+    } else if (code.toggle) {
+      addRange(code.toggle);
+      starts[code.toggle] = starts[code.toggle] === undefined ? decoded.text.length : undefined;
+    } else {
+      decoded.text += code.text;
+    }
+    i += code ? code.length - 1 : 0;
+  }
+  addRange("underline");
+  addRange("overline");
+  return decoded;
+};
@@ -0,0 +1,170 @@
+// Node test of the worker mode: convert => serialize => transfer => deserialize has to reproduce the Object3Ds
+//   npx esbuild dxf_worker.test.ts --bundle --platform=node --outfile=build/dxf_worker.test.js
+//   node --test build/dxf_worker.test.js
+// troika-three-text needs WebGL and downloads its fonts => its layout is replaced by a simple one (every character
+// is half the font size wide), synchronized asynchronously like troika does.
+import DxfParser from "dxf-parser";
+import * as assert from "node:assert";
+import { readFileSync } from "node:fs";
+import { test } from "node:test";
+import * as THREE from "three";
+import { LineMaterial } from "three/examples/jsm/lines/LineMaterial.js";
+import { Text } from "troika-three-text";
+
+import {
+  convertDxfToThree,
+  convertDxfToThreeAsync,
+  DxfToThreeSettings,
+  getMaterialLineType,
+  waitForTextLayouts,
+} from "./dfx_to_three";
+import { registerDxfParserEntities } from "./dxf_parser_entities";
+import { parseDxfTables } from "./dxf_parser_tables";
+import { deserializeObject3Ds, getTransferables, serializeObject3Ds } from "./dxf_worker";
+
+Text.prototype.sync = function (this: Text, callback?: () => void): void {
+  const fontSize = this.fontSize;
+  const caretPositions = new Float32Array(this.text.length * 3);
+  for (let i = 0; i < this.text.length; i++) {
+    caretPositions.set([(i * fontSize) / 2.0, ((i + 1) * fontSize) / 2.0, -0.2 * fontSize], i * 3);
+  }
+  const width = (this.text.length * fontSize) / 2.0;
+  (this as unknown as { _textRenderInfo: unknown })._textRenderInfo = {
+    blockBounds: [0.0, -0.3 * fontSize, width, 0.9 * fontSize],
+    caretPositions: caretPositions,
+    caretHeight: 1.1 * fontSize,
+    fontSize: fontSize,
+    ascender: 0.9 * fontSize,
+    descender: -0.2 * fontSize,
+    capHeight: 0.7 * fontSize,
+    lineHeight: 1.2 * fontSize,
+  };
+  setTimeout(() => callback && callback(), 0);
+};
+
+const loadDxf = (path: string) => {
+  const fileText = readFileSync(path, "utf8");
+  const parser = new DxfParser();
+  registerDxfParserEntities(parser);
+  const dxf = parser.parseSync(fileText)!;
+  parseDxfTables(fileText, dxf);
+  return dxf;
+};
+
+// everything the worker has to transfer, in world coordinates
+const describe = (object3Ds: THREE.Object3D[]): string[] => {
+  const lines: string[] = [];
+  const round = (values: ArrayLike<number>) => Array.from(values, (value) => value.toFixed(6)).join(",");
+  object3Ds.forEach((object3D) => {
+    object3D.updateMatrixWorld(true);
+    object3D.traverse((child) => {
+      lines.push([child.type, child.name, child.visible, child.layers.mask, JSON.stringify(child.userData)].join(" "));
+      lines.push("matrix " + round(child.matrixWorld.elements));
+      if (child instanceof Text) {
+        lines.push(["text", child.text, child.fontSize, child.anchorX, child.anchorY, child.maxWidth].join(" "));
+      }
+      const mesh = child as THREE.Mesh;
+      if (mesh.geometry) {
+        for (const [name, attribute] of Object.entries(mesh.geometry.attributes)) {
+          const values: number[] = [];
+          const getters = [attribute.getX, attribute.getY, attribute.getZ, attribute.getW].slice(0, attribute.itemSize);
+          for (let i = 0; i < attribute.count; i++) {
+            getters.forEach((getter) => values.push(getter.call(attribute, i)));
+          }
+          lines.push(name + " " + round(values));
+        }
+        lines.push("index " + (mesh.geometry.index ? round(mesh.geometry.index.array) : "-"));
+      }
+      const material = mesh.material as THREE.Material & { color?: THREE.Color; linewidth?: number };
+      if (material instanceof THREE.Material) {
+        const lineType = getMaterialLineType(material);
+        const color = material.color ? material.color.getHexString() : "-";
+        const dashed = material instanceof LineMaterial ? material.dashed : material.type === "LineDashedMaterial";
+        lines.push(["material", material.type, color, material.linewidth, dashed, lineType && lineType.name].join(" "));
+      }
+    });
+  });
+  return lines;
+};
+
+const roundTrip = async (object3Ds: THREE.Object3D[]): Promise<THREE.Object3D[]> => {
+  const serialized = await serializeObject3Ds(object3Ds);
+  // postMessage of a worker
+  return deserializeObject3Ds(structuredClone(serialized, { transfer: getTransferables(serialized) }));
+};
+
+const SETTINGS: Partial<DxfToThreeSettings>[] = [
+  {},
+  { groupByLayer: true },
+  { useFatLines: true },
+  { batchObjects: true },
+  { useTroikaForText: true },
+];
+
+for (const settings of SETTINGS) {
+  test("worker output is the same as the converted Object3Ds " + JSON.stringify(settings), async () => {
+    for (const path of ["sample/demo.dxf", "sample/linetypes.dxf"]) {
+      const dxf = loadDxf(path);
+      const { object3Ds } = await convertDxfToThreeAsync(
+        dxf,
+        { ...settings, diagnostics: "collect" },
+        { chunkSize: 7 }
+      );
+      const deserialized = await roundTrip(object3Ds);
+      assert.deepStrictEqual(describe(deserialized), describe(object3Ds));
+    }
+  });
+}
+
+test("async conversion is the same as the synchronous one", async () => {
+  const dxf = loadDxf("sample/demo.dxf");
+  const progress: number[] = [];
+  const asynchronous = await convertDxfToThreeAsync(
+    dxf,
+    { diagnostics: "collect" },
+    { chunkSize: 10, onProgress: (done, total) => progress.push(done / total) }
+  );
+  const synchronous = convertDxfToThree(dxf, { diagnostics: "collect" });
+  await waitForTextLayouts([...asynchronous.object3Ds, ...synchronous.object3Ds]);
+  assert.deepStrictEqual(describe(asynchronous.object3Ds), describe(synchronous.object3Ds));
+  assert.deepStrictEqual(asynchronous.report, synchronous.report);
+  assert.deepStrictEqual([...asynchronous.object3DsByHandle.keys()], [...synchronous.object3DsByHandle.keys()]);
+  assert.ok(asynchronous.object3DsByHandle.size > 0);
+  assert.strictEqual(progress[progress.length - 1], 1.0);
+});
+
+test("batched output lists the same entity handles", () => {
+  const dxf = loadDxf("sample/demo.dxf");
+  const batched = convertDxfToThree(dxf, { batchObjects: true, diagnostics: "collect" });
+  const unbatched = convertDxfToThree(dxf, { diagnostics: "collect" });
+  assert.deepStrictEqual([...batched.object3DsByHandle.keys()], [...unbatched.object3DsByHandle.keys()]);
+});
+
+test("async conversion is aborted", async () => {
+  const dxf = loadDxf("sample/demo.dxf");
+  const controller = new AbortController();
+  const disposed = new Set<THREE.BufferGeometry>();
+  const dispose = THREE.BufferGeometry.prototype.dispose;
+  THREE.BufferGeometry.prototype.dispose = function (this: THREE.BufferGeometry) {
+    disposed.add(this);
+    dispose.call(this);
+  };
+  try {
+    const conversion = convertDxfToThreeAsync(dxf, undefined, {
+      chunkSize: 1,
+      onProgress: () => controller.abort(new Error("aborted")),
+      signal: controller.signal,
+    });
+    await assert.rejects(conversion, /aborted/);
+  } finally {
+    THREE.BufferGeometry.prototype.dispose = dispose;
+  }
+  // the geometries of the first chunk (the first entity) are disposed
+  const { object3Ds } = convertDxfToThree({ ...dxf, entities: dxf.entities.slice(0, 1) }, undefined);
+  const geometries = new Set<THREE.BufferGeometry>();
+  object3Ds.forEach((object3D) =>
+    object3D.traverse((child) => (child as THREE.Mesh).geometry && geometries.add((child as THREE.Mesh).geometry))
+  );
+  assert.ok(geometries.size > 0);
+  assert.strictEqual(disposed.size, geometries.size);
+});
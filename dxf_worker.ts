@@ -0,0 +1,330 @@
+// Conversion in a web worker: the worker converts the entities and serializes the Object3Ds into typed arrays,
+// which are transferred (not copied) to the main thread and turned into Object3Ds again there.
+//   // worker
+//   const object3Ds = await dxfToThreeObject3DsAsync(dxf, settings, { onProgress: (done, total) => ... });
+//   const serialized = await serializeObject3Ds(object3Ds);
+//   postMessage(serialized, getTransferables(serialized));
+//   // main thread
+//   worker.onmessage = (event) => scene.add(...deserializeObject3Ds(event.data));
+// Groups, points, lines, meshes, fat lines and troika texts (they are synchronized again on the main thread) are
+// supported; materials are shared like in the worker, textures of materials are not transferred. The deserialized
+// curves can't be retessellated (see retessellateCurves).
+import { ILineType } from "dxf-parser";
+import * as THREE from "three";
+import { LineGeometry } from "three/examples/jsm/lines/LineGeometry.js";
+import { LineMaterial } from "three/examples/jsm/lines/LineMaterial.js";
+import { LineSegments2 } from "three/examples/jsm/lines/LineSegments2.js";
+import { LineSegmentsGeometry } from "three/examples/jsm/lines/LineSegmentsGeometry.js";
+import { Line2 } from "three/examples/jsm/lines/Line2.js";
+import { Text } from "troika-three-text";
+
+import { applyLineTypePattern, getMaterialLineType, waitForTextLayouts } from "./dfx_to_three";
+
+type SerializedType =
+  | "Group"
+  | "Points"
+  | "Line"
+  | "LineLoop"
+  | "LineSegments"
+  | "Mesh"
+  | "Line2"
+  | "LineSegments2"
+  | "Text";
+
+interface SerializedAttribute {
+  array: Float32Array | Uint32Array | Uint16Array;
+  itemSize: number;
+}
+
+interface SerializedGeometry {
+  attributes: Record<string, SerializedAttribute>;
+  index: Uint32Array | Uint16Array | null;
+  drawRange: [number, number];
+  // fat lines: start and end point of every segment and their line distances
+  segments: Float32Array | undefined;
+  segmentDistances: Float32Array | undefined;
+}
+
+// three.js JSON of THREE.Materials or the parameters of fat line materials
+interface SerializedMaterial {
+  json: unknown;
+  lineMaterial: Record<string, unknown> | undefined;
+  // line type pattern of dashed lines (applied to the shader again)
+  lineType: ILineType | undefined;
+}
+
+interface SerializedObject3D {
+  type: SerializedType;
+  name: string;
+  matrix: number[];
+  matrixAutoUpdate: boolean;
+  visible: boolean;
+  layers: number;
+  renderOrder: number;
+  userData: Record<string, unknown>;
+  // indices into the geometries and materials (-1 for groups)
+  geometry: number;
+  material: number;
+  text: Record<string, unknown> | undefined;
+  children: SerializedObject3D[];
+}
+
+export interface SerializedObject3Ds {
+  object3Ds: SerializedObject3D[];
+  geometries: SerializedGeometry[];
+  materials: SerializedMaterial[];
+}
+
+// the properties set by dfx_to_three.ts
+const TEXT_PROPERTIES = [
+  "text",
+  "font",
+  "fontSize",
+  "anchorX",
+  "anchorY",
+  "lineHeight",
+  "letterSpacing",
+  "maxWidth",
+  "textIndent",
+  "textAlign",
+  "colorRanges",
+] as const;
+
+const LINE_MATERIAL_PROPERTIES = [
+  "color",
+  "linewidth",
+  "worldUnits",
+  "dashed",
+  "dashScale",
+  "dashSize",
+  "gapSize",
+  "transparent",
+  "opacity",
+] as const;
+
+// serialization
+// ------------------------
+
+const getType = (object3D: THREE.Object3D): SerializedType => {
+  if (object3D instanceof Text) {
+    return "Text";
+  } else if (object3D instanceof Line2) {
+    return "Line2";
+  } else if (object3D instanceof LineSegments2) {
+    return "LineSegments2";
+  } else if (object3D instanceof THREE.Mesh) {
+    return "Mesh";
+  } else if (object3D instanceof THREE.LineSegments) {
+    return "LineSegments";
+  } else if (object3D instanceof THREE.LineLoop) {
+    return "LineLoop";
+  } else if (object3D instanceof THREE.Line) {
+    return "Line";
+  } else if (object3D instanceof THREE.Points) {
+    return "Points";
+  }
+  return "Group";
+};
+
+// typed arrays are copied, the arrays of the Object3Ds may be shared (e.g. interleaved buffers)
+const serializeGeometry = (geometry: THREE.BufferGeometry): SerializedGeometry => {
+  const serialized: SerializedGeometry = {
+    attributes: {},
+    index: geometry.index ? (geometry.index.array as Uint32Array | Uint16Array).slice() : null,
+    drawRange: [geometry.drawRange.start, geometry.drawRange.count],
+    segments: undefined,
+    segmentDistances: undefined,
+  };
+  if (geometry instanceof LineSegmentsGeometry) {
+    const start = geometry.getAttribute("instanceStart") as THREE.InterleavedBufferAttribute;
+    const distanceStart = geometry.getAttribute("instanceDistanceStart") as THREE.InterleavedBufferAttribute;
+    serialized.segments = Float32Array.from(start.data.array);
+    serialized.segmentDistances = distanceStart ? Float32Array.from(distanceStart.data.array) : undefined;
+    return serialized;
+  }
+  for (const [name, attribute] of Object.entries(geometry.attributes)) {
+    if (attribute instanceof THREE.BufferAttribute) {
+      serialized.attributes[name] = {
+        array: (attribute.array as Float32Array | Uint32Array | Uint16Array).slice(),
+        itemSize: attribute.itemSize,
+      };
+    }
+  }
+  return serialized;
+};
+
+const serializeMaterial = (material: THREE.Material): SerializedMaterial => {
+  if (material instanceof LineMaterial) {
+    const parameters: Record<string, unknown> = {};
+    LINE_MATERIAL_PROPERTIES.forEach((property) => (parameters[property] = material[property]));
+    parameters.color = material.color.getHex();
+    return { json: undefined, lineMaterial: parameters, lineType: getMaterialLineType(material) };
+  }
+  const json = material.toJSON();
+  // the MaterialLoader of three.js sets the line width to undefined if it is the default => always write it
+  if (material instanceof THREE.LineBasicMaterial) {
+    json.linewidth = material.linewidth;
+  }
+  return { json: json, lineMaterial: undefined, lineType: getMaterialLineType(material) };
+};
+
+export const serializeObject3Ds = async (object3Ds: THREE.Object3D[]): Promise<SerializedObject3Ds> => {
+  // the converter completes MTEXT and fit texts after their troika texts are laid out
+  await waitForTextLayouts(object3Ds);
+  const serialized: SerializedObject3Ds = { object3Ds: [], geometries: [], materials: [] };
+  const geometryIndices = new Map<THREE.BufferGeometry, number>();
+  const materialIndices = new Map<THREE.Material, number>();
+  const serializeObject3D = (object3D: THREE.Object3D): SerializedObject3D => {
+    const type = getType(object3D);
+    let geometryIndex = -1;
+    let materialIndex = -1;
+    let text: Record<string, unknown> | undefined = undefined;
+    if (type === "Text") {
+      text = {};
+      for (const property of TEXT_PROPERTIES) {
+        text[property] = (object3D as Text)[property];
+      }
+    } else if (type !== "Group") {
+      const geometry = (object3D as THREE.Mesh).geometry;
+      if (!geometryIndices.has(geometry)) {
+        geometryIndices.set(geometry, serialized.geometries.length);
+        serialized.geometries.push(serializeGeometry(geometry));
+      }
+      geometryIndex = geometryIndices.get(geometry)!;
+    }
+    const material = (object3D as THREE.Mesh).material;
+    if (type !== "Group" && material instanceof THREE.Material) {
+      if (!materialIndices.has(material)) {
+        materialIndices.set(material, serialized.materials.length);
+        serialized.materials.push(serializeMaterial(material));
+      }
+      materialIndex = materialIndices.get(material)!;
+    }
+    // matrices which are set directly (e.g. oblique texts) are kept as they are
+    if (object3D.matrixAutoUpdate) {
+      object3D.updateMatrix();
+    }
+    return {
+      type: type,
+      name: object3D.name,
+      matrix: object3D.matrix.toArray(),
+      matrixAutoUpdate: object3D.matrixAutoUpdate,
+      visible: object3D.visible,
+      layers: object3D.layers.mask,
+      renderOrder: object3D.renderOrder,
+      userData: object3D.userData,
+      geometry: geometryIndex,
+      material: materialIndex,
+      text: text,
+      children: object3D.children.map(serializeObject3D),
+    };
+  };
+  serialized.object3Ds = object3Ds.map(serializeObject3D);
+  return serialized;
+};
+
+// the buffers of the typed arrays, pass them to postMessage to transfer them instead of copying them
+export const getTransferables = (serialized: SerializedObject3Ds): ArrayBuffer[] => {
+  const buffers = new Set<ArrayBuffer>();
+  const add = (array: ArrayBufferView | null | undefined) => array && buffers.add(array.buffer as ArrayBuffer);
+  for (const geometry of serialized.geometries) {
+    Object.values(geometry.attributes).forEach((attribute) => add(attribute.array));
+    add(geometry.index);
+    add(geometry.segments);
+    add(geometry.segmentDistances);
+  }
+  return Array.from(buffers);
+};
+
+// deserialization
+// ------------------------
+
+const deserializeGeometry = (serialized: SerializedGeometry, isFatLine: boolean): THREE.BufferGeometry => {
+  if (isFatLine) {
+    // the positions of LineGeometry are points of a polyline => set the segments via LineSegmentsGeometry
+    const geometry = new LineGeometry();
+    LineSegmentsGeometry.prototype.setPositions.call(geometry, serialized.segments || new Float32Array());
+    if (serialized.segmentDistances) {
+      const distances = new THREE.InstancedInterleavedBuffer(serialized.segmentDistances, 2, 1);
+      geometry.setAttribute("instanceDistanceStart", new THREE.InterleavedBufferAttribute(distances, 1, 0));
+      geometry.setAttribute("instanceDistanceEnd", new THREE.InterleavedBufferAttribute(distances, 1, 1));
+    }
+    return geometry;
+  }
+  const geometry = new THREE.BufferGeometry();
+  for (const [name, attribute] of Object.entries(serialized.attributes)) {
+    geometry.setAttribute(name, new THREE.BufferAttribute(attribute.array, attribute.itemSize));
+  }
+  if (serialized.index) {
+    geometry.setIndex(new THREE.BufferAttribute(serialized.index, 1));
+  }
+  geometry.setDrawRange(serialized.drawRange[0], serialized.drawRange[1]);
+  return geometry;
+};
+
+const deserializeMaterial = (serialized: SerializedMaterial): THREE.Material => {
+  const material = serialized.lineMaterial
+    ? new LineMaterial(serialized.lineMaterial)
+    : new THREE.MaterialLoader().parse(serialized.json);
+  if (serialized.lineType && (material instanceof THREE.LineDashedMaterial || material instanceof LineMaterial)) {
+    applyLineTypePattern(material, serialized.lineType);
+  }
+  return material;
+};
+
+export const deserializeObject3Ds = (
+  serialized: SerializedObject3Ds
+): (THREE.Points | THREE.Line | THREE.Mesh | THREE.Group)[] => {
+  const geometries = new Map<number, THREE.BufferGeometry>();
+  const materials = serialized.materials.map(deserializeMaterial);
+  const getGeometry = (index: number, isFatLine: boolean): THREE.BufferGeometry => {
+    if (!geometries.has(index)) {
+      geometries.set(index, deserializeGeometry(serialized.geometries[index], isFatLine));
+    }
+    return geometries.get(index)!;
+  };
+  const deserializeObject3D = (object: SerializedObject3D): THREE.Object3D => {
+    const isFatLine = object.type === "Line2" || object.type === "LineSegments2";
+    const geometry = object.geometry >= 0 ? getGeometry(object.geometry, isFatLine) : undefined;
+    const material = object.material >= 0 ? materials[object.material] : undefined;
+    let object3D: THREE.Object3D;
+    if (object.type === "Text") {
+      const text = new Text();
+      Object.assign(text, object.text);
+      if (material) {
+        text.material = material;
+      }
+      text.sync();
+      object3D = text;
+    } else if (object.type === "Line2") {
+      object3D = new Line2(geometry as LineGeometry, material as LineMaterial);
+    } else if (object.type === "LineSegments2") {
+      object3D = new LineSegments2(geometry as LineSegmentsGeometry, material as LineMaterial);
+    } else if (object.type === "Mesh") {
+      object3D = new THREE.Mesh(geometry, material);
+    } else if (object.type === "LineSegments") {
+      object3D = new THREE.LineSegments(geometry, material);
+    } else if (object.type === "LineLoop") {
+      object3D = new THREE.LineLoop(geometry, material);
+    } else if (object.type === "Line") {
+      object3D = new THREE.Line(geometry, material);
+    } else if (object.type === "Points") {
+      object3D = new THREE.Points(geometry, material);
+    } else {
+      object3D = new THREE.Group();
+    }
+    object3D.name = object.name;
+    object3D.matrix.fromArray(object.matrix);
+    if (object.matrixAutoUpdate) {
+      object3D.matrix.decompose(object3D.position, object3D.quaternion, object3D.scale);
+    }
+    object3D.matrixAutoUpdate = object.matrixAutoUpdate;
+    object3D.visible = object.visible;
+    object3D.layers.mask = object.layers;
+    object3D.renderOrder = object.renderOrder;
+    object3D.userData = object.userData;
+    object.children.forEach((child) => object3D.add(deserializeObject3D(child)));
+    return object3D;
+  };
+  return serialized.object3Ds.map(deserializeObject3D) as (THREE.Points | THREE.Line | THREE.Mesh | THREE.Group)[];
+};
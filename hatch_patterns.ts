@@ -0,0 +1,59 @@
+// Predefined hatch patterns taken from AutoCAD's acad.pat.
+// They are only used if a predefined HATCH does not contain its pattern definition lines.
+//
+// Format of each line (same as in *.pat files):
+//   [angle (degrees), base x, base y, offset x, offset y, ...dashes]
+// The offset is given in the coordinate system of the line (x = along the line, y = perpendicular).
+// Positive dashes are drawn, negative dashes are gaps and zeros are dots.
+
+export type HatchPatternDefinitionLine = number[];
+
+export const PREDEFINED_HATCH_PATTERNS: Record<string, HatchPatternDefinitionLine[]> = {
+  ANSI31: [[45, 0, 0, 0, 0.125]],
+  ANSI32: [
+    [45, 0, 0, 0, 0.375],
+    [45, 0.176776695, 0, 0, 0.375],
+  ],
+  ANSI33: [
+    [45, 0, 0, 0, 0.25],
+    [45, 0.176776695, 0, 0, 0.25, 0.125, -0.0625],
+  ],
+  ANSI34: [
+    [45, 0, 0, 0, 0.75],
+    [45, 0.176776695, 0, 0, 0.75],
+    [45, 0.353553391, 0, 0, 0.75],
+    [45, 0.530330086, 0, 0, 0.75],
+  ],
+  ANSI35: [
+    [45, 0, 0, 0, 0.25],
+    [45, 0.176776695, 0, 0, 0.25, 0.3125, -0.0625, 0, -0.0625],
+  ],
+  ANSI36: [[45, 0, 0, 0.21875, 0.125, 0.3125, -0.0625, 0, -0.0625]],
+  ANSI37: [
+    [45, 0, 0, 0, 0.125],
+    [135, 0, 0, 0, 0.125],
+  ],
+  ANSI38: [
+    [45, 0, 0, 0, 0.125],
+    [135, 0, 0, 0.25, 0.125, 0.3125, -0.1875],
+  ],
+  BRICK: [
+    [0, 0, 0, 0, 0.25],
+    [90, 0, 0, 0.25, 0.25, 0.25, -0.25],
+    [90, 0.125, 0.25, 0.25, 0.25, 0.25, -0.25],
+  ],
+  CROSS: [
+    [0, 0, 0, 0.25, 0.25, 0.125, -0.375],
+    [90, 0.0625, -0.0625, 0.25, 0.25, 0.125, -0.375],
+  ],
+  DASH: [[0, 0, 0, 0.125, 0.125, 0.125, -0.125]],
+  LINE: [[0, 0, 0, 0, 0.125]],
+  NET: [
+    [0, 0, 0, 0, 0.125],
+    [90, 0, 0, 0, 0.125],
+  ],
+  SQUARE: [
+    [0, 0, 0, 0, 0.125, 0.125, -0.125],
+    [90, 0, 0, 0, 0.125, 0.125, -0.125],
+  ],
+};